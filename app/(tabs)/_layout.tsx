@@ -1,14 +1,15 @@
 import { Tabs } from 'expo-router';
-import { Chrome as Home, Map, Users as Users2, MessageSquare, User } from 'lucide-react-native';
+import { Chrome as Home, Map, Users as Users2, MessageSquare, User, Search } from 'lucide-react-native';
 import { TouchableOpacity, Text, Platform, View, Modal, FlatList, Image, StyleSheet } from 'react-native';
 import Animated, { FadeIn, FadeOut } from 'react-native-reanimated';
 import { useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabase';
 import { useRouter } from 'expo-router';
+import { useAuth } from '@/components/AuthProvider';
 
 interface Notification {
   id: string;
-  type: 'like' | 'comment' | 'follow' | 'comment_like' | 'reply';
+  type: 'like' | 'comment' | 'follow' | 'comment_like' | 'reply' | 'event' | 'mention';
   data: any;
   read: boolean;
   created_at: string;
@@ -26,6 +27,7 @@ export default function TabLayout() {
   const [showNotifications, setShowNotifications] = useState(false);
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const router = useRouter();
+  const { user } = useAuth();
 
   useEffect(() => {
     fetchUnreadCounts();
@@ -69,7 +71,6 @@ export default function TabLayout() {
 
   async function fetchUnreadNotifications() {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
       const { count } = await supabase
@@ -87,7 +88,6 @@ export default function TabLayout() {
 
   async function fetchUnreadMessages() {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
       const { data: participatedChats } = await supabase
@@ -115,7 +115,6 @@ export default function TabLayout() {
 
   async function fetchNotifications() {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
       const { data, error } = await supabase
@@ -139,7 +138,6 @@ export default function TabLayout() {
 
   async function markNotificationsAsRead() {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
       await supabase
@@ -198,6 +196,24 @@ export default function TabLayout() {
             router.push(`/${notification.data.follower_id}`);
           },
         };
+      case 'event':
+        return {
+          text: `Новая покатушка: ${notification.data.title}`,
+          onPress: () => {
+            setShowNotifications(false);
+            router.push(`/event/${notification.data.event_id}`);
+          },
+        };
+      case 'mention':
+        return {
+          text: `${notification.data.author_name || 'Кто-то'} упомянул вас ${
+            notification.data.source === 'posts' ? 'в посте' : 'в комментарии'
+          }`,
+          onPress: () => {
+            setShowNotifications(false);
+            router.push(`/post/${notification.data.post_id}`);
+          },
+        };
       default:
         return {
           text: 'Новое уведомление',
@@ -248,23 +264,31 @@ export default function TabLayout() {
           tabBarActiveTintColor: '#007AFF',
           tabBarInactiveTintColor: '#8E8E93',
           headerRight: () => (
-            <TouchableOpacity
-              onPress={() => {
-                setShowNotifications(true);
-                markNotificationsAsRead();
-              }}
-              style={styles.notificationButton}
-            >
-              <View style={styles.notificationIconContainer}>
-                {unreadNotifications > 0 && (
-                  <View style={styles.badge}>
-                    <Text style={styles.badgeText}>
-                      {unreadNotifications}
-                    </Text>
-                  </View>
-                )}
-              </View>
-            </TouchableOpacity>
+            <View style={styles.headerButtons}>
+              <TouchableOpacity
+                onPress={() => router.push('/search')}
+                style={styles.searchButton}
+              >
+                <Search size={22} color="#007AFF" />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => {
+                  setShowNotifications(true);
+                  markNotificationsAsRead();
+                }}
+                style={styles.notificationButton}
+              >
+                <View style={styles.notificationIconContainer}>
+                  {unreadNotifications > 0 && (
+                    <View style={styles.badge}>
+                      <Text style={styles.badgeText}>
+                        {unreadNotifications}
+                      </Text>
+                    </View>
+                  )}
+                </View>
+              </TouchableOpacity>
+            </View>
           ),
         }}>
         <Tabs.Screen
@@ -367,6 +391,13 @@ export default function TabLayout() {
 }
 
 const styles = StyleSheet.create({
+  headerButtons: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  searchButton: {
+    padding: 12,
+  },
   notificationButton: {
     padding: 12,
   },
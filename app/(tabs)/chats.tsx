@@ -4,6 +4,7 @@ import { supabase } from '@/lib/supabase';
 import { useRouter } from 'expo-router';
 import Animated, { FadeIn } from 'react-native-reanimated';
 import { MessageSquare } from 'lucide-react-native';
+import { useAuth } from '@/components/AuthProvider';
 
 interface Chat {
   id: string;
@@ -23,6 +24,7 @@ export default function ChatsScreen() {
   const [chats, setChats] = useState<Chat[]>([]);
   const [loading, setLoading] = useState(true);
   const router = useRouter();
+  const { user } = useAuth();
 
   useEffect(() => {
     fetchChats();
@@ -46,7 +48,6 @@ export default function ChatsScreen() {
 
   async function fetchChats() {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
       const { data, error } = await supabase
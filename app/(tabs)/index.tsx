@@ -1,92 +1,350 @@
-import { View, Text, StyleSheet, FlatList, Image, TouchableOpacity, TextInput, Platform, RefreshControl, ActivityIndicator } from 'react-native';
-import { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, FlatList, Image, TouchableOpacity, Platform, RefreshControl, ActivityIndicator, ScrollView, ViewToken } from 'react-native';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/lib/supabase';
-import { Heart, MessageCircle, Share, Image as ImageIcon, MapPin, X, Plus } from 'lucide-react-native';
-import * as ImagePicker from 'expo-image-picker';
+import { Heart, MessageCircle, Share, Image as ImageIcon, MapPin, X, Plus, Bookmark, ArrowUp, Play, AlertCircle, MoreHorizontal, FileText } from 'lucide-react-native';
 import * as Location from 'expo-location';
 import Animated, { FadeIn } from 'react-native-reanimated';
-import { useRouter } from 'expo-router';
-
-interface Post {
-  id: string;
-  user_id: string;
-  content: string;
-  image_url: string | null;
-  likes: number;
-  comments_count: number;
-  latitude?: number;
-  longitude?: number;
-  created_at: string;
-  user: {
-    full_name: string;
-    avatar_url: string;
-  } | null;
-  liked_by_user: boolean;
+import { useFocusEffect, useRouter } from 'expo-router';
+import StoriesRail from '@/components/StoriesRail';
+import StoryViewer from '@/components/StoryViewer';
+import { StoryGroup, fetchStoryGroups } from '@/lib/stories';
+import CollectionPicker from '@/components/CollectionPicker';
+import { setBookmark } from '@/lib/bookmarks';
+import { FEED_MODES, FeedCursor, FeedMode, FeedPost, TOP_WINDOWS, TopWindow, fetchFeedPage, fetchFeedPost } from '@/lib/feed';
+import { GeoPoint } from '@/lib/geo';
+import { MAX_POST_MEDIA, PickedMedia, UploadedPostMedia, createPostId, createPostWithMedia, pickPostMedia, uploadPostMedia } from '@/lib/postMedia';
+import MediaCarousel from '@/components/MediaCarousel';
+import PostActionsSheet from '@/components/PostActionsSheet';
+import { isEdited } from '@/lib/posts';
+import { PostDraft, createDraftId, deleteDraft, discardDraftMedia, isDraftEmpty, persistDraftMedia, saveDraft } from '@/lib/drafts';
+import { enqueuePost, isOnline } from '@/lib/postQueue';
+import { usePostQueue } from '@/hooks/usePostQueue';
+import DraftsSheet from '@/components/DraftsSheet';
+import QueuedPostCard from '@/components/QueuedPostCard';
+import RichText from '@/components/RichText';
+import MentionTextInput from '@/components/MentionTextInput';
+import { useAuth } from '@/components/AuthProvider';
+
+type Post = FeedPost;
+
+// A picked item and the state of its upload. Uploaded items keep their URL so
+// retrying a failed publish only re-sends what failed.
+interface MediaUpload extends PickedMedia {
+  key: string;
+  status: 'pending' | 'uploading' | 'done' | 'error';
+  progress: number;
+  url: string | null;
+  thumbnail_url: string | null;
 }
 
 const DEFAULT_AVATAR = 'https://images.unsplash.com/photo-1535713875002-d1d0cf377fde?w=200';
 
+const DRAFT_AUTOSAVE_DELAY_MS = 1000;
+
+const toPickedMedia = ({ uri, media_type, mime_type, width, height, duration_ms }: MediaUpload): PickedMedia => ({
+  uri,
+  media_type,
+  mime_type,
+  width,
+  height,
+  duration_ms,
+});
+
 export default function FeedScreen() {
   const [posts, setPosts] = useState<Post[]>([]);
   const [isCreating, setIsCreating] = useState(false);
   const [content, setContent] = useState('');
-  const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [selectedMedia, setSelectedMedia] = useState<MediaUpload[]>([]);
+  const [composeError, setComposeError] = useState<string | null>(null);
+  const [draftId, setDraftId] = useState<string | null>(null);
+  // Kept across publish retries of the same draft so they can't post it twice
+  const publishedPostRef = useRef<{ draftId: string | null; postId: string } | null>(null);
+  const [showDrafts, setShowDrafts] = useState(false);
   const [location, setLocation] = useState<{ latitude: number; longitude: number } | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
+  const [nextCursor, setNextCursor] = useState<FeedCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [newPostsCount, setNewPostsCount] = useState(0);
+  const [feedMode, setFeedMode] = useState<FeedMode>('all');
+  const [feedOrigin, setFeedOrigin] = useState<GeoPoint | null>(null);
+  const [topWindow, setTopWindow] = useState<TopWindow>('week');
+  const [feedError, setFeedError] = useState<string | null>(null);
+  const feedModeRef = useRef<FeedMode>('all');
+  const [storyGroups, setStoryGroups] = useState<StoryGroup[]>([]);
+  const [openStoryGroup, setOpenStoryGroup] = useState<number | null>(null);
+  const [collectionPostId, setCollectionPostId] = useState<string | null>(null);
+  const [actionsPostId, setActionsPostId] = useState<string | null>(null);
+  // Post last opened or acted on; reloaded when the feed regains focus in
+  // case it was edited or deleted meanwhile
+  const touchedPostIdRef = useRef<string | null>(null);
+  const [visiblePostIds, setVisiblePostIds] = useState<Set<string>>(new Set());
+  const [isFocused, setIsFocused] = useState(true);
+  const listRef = useRef<FlatList<Post>>(null);
+
+  // Videos autoplay only in posts that are mostly on screen
+  const viewabilityConfig = useRef({ itemVisiblePercentThreshold: 60 }).current;
+  const onViewableItemsChanged = useRef(({ viewableItems }: { viewableItems: ViewToken[] }) => {
+    setVisiblePostIds(new Set(viewableItems.map(viewable => viewable.key)));
+  }).current;
   const router = useRouter();
+  const { user, profile } = useAuth();
+  const { queuedPosts, retry: retryQueuedPost, discard: discardQueuedPost } = usePostQueue(() => fetchPosts());
 
   useEffect(() => {
-    checkUser();
+    fetchPosts();
+
+    // Count posts published by others since the feed was loaded instead of
+    // refetching it; the banner lets the user load them when they want
+    const postsChannel = supabase
+      .channel('feed-posts')
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'posts',
+      }, async (payload) => {
+        if (!user || payload.new.user_id === user.id) return;
+
+        // The nearby and top feeds are not live; the following feed only
+        // counts posts from followed accounts
+        if (feedModeRef.current === 'nearby' || feedModeRef.current === 'top') return;
+        if (feedModeRef.current === 'following') {
+          const { count } = await supabase
+            .from('follows')
+            .select('*', { count: 'exact', head: true })
+            .eq('follower_id', user.id)
+            .eq('following_id', payload.new.user_id);
+          if (!count) return;
+        }
+
+        setNewPostsCount(count => count + 1);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(postsChannel);
+    };
   }, []);
 
-  async function checkUser() {
+  // Stories change often, refresh them whenever the feed comes into focus
+  useFocusEffect(
+    useCallback(() => {
+      fetchStories();
+      refreshTouchedPost();
+      setIsFocused(true);
+      return () => setIsFocused(false);
+    }, [])
+  );
+
+  // Autosave the composer shortly after the user stops typing
+  const selectedMediaKeys = selectedMedia.map(item => item.key).join();
+  useEffect(() => {
+    if (!draftId) return;
+
+    const timeout = setTimeout(saveCurrentDraft, DRAFT_AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [draftId, content, selectedMediaKeys, location]);
+
+  async function saveCurrentDraft() {
+    if (!draftId) return;
+
+    const draft: PostDraft = {
+      id: draftId,
+      content,
+      location,
+      media: selectedMedia.map(toPickedMedia),
+      updated_at: Date.now(),
+    };
+
+    if (isDraftEmpty(draft)) {
+      await deleteDraft(draftId);
+    } else {
+      await saveDraft(draft);
+    }
+  }
+
+  function openComposer() {
+    if (!draftId) setDraftId(createDraftId());
+    setIsCreating(true);
+  }
+
+  async function closeComposer() {
+    await saveCurrentDraft();
+    setIsCreating(false);
+  }
+
+  function resetComposer() {
+    setContent('');
+    setSelectedMedia([]);
+    setLocation(null);
+    setComposeError(null);
+    setDraftId(null);
+    setIsCreating(false);
+  }
+
+  async function startNewDraft() {
+    await saveCurrentDraft();
+    setContent('');
+    setSelectedMedia([]);
+    setLocation(null);
+    setComposeError(null);
+    setDraftId(createDraftId());
+  }
+
+  async function openDraft(draft: PostDraft) {
+    if (draft.id === draftId) return;
+
+    await saveCurrentDraft();
+    setContent(draft.content);
+    setLocation(draft.location);
+    setComposeError(null);
+    setSelectedMedia(draft.media.map((item, index) => ({
+      ...item,
+      key: `${draft.id}-${index}`,
+      status: 'pending' as const,
+      progress: 0,
+      url: null,
+      thumbnail_url: null,
+    })));
+    setDraftId(draft.id);
+  }
+
+  function removeSelectedMedia(item: MediaUpload) {
+    setSelectedMedia(selected => selected.filter(media => media.key !== item.key));
+    discardDraftMedia([item]);
+  }
+
+  async function refreshTouchedPost() {
+    const postId = touchedPostIdRef.current;
+    if (!postId) return;
+    touchedPostIdRef.current = null;
+
+    const { post, error } = await fetchFeedPost(postId);
+    if (error) return;
+
+    setPosts(posts => post
+      ? posts.map(item => item.id === postId ? post : item)
+      : posts.filter(item => item.id !== postId));
+  }
+
+  function openPostActions(postId: string) {
+    touchedPostIdRef.current = postId;
+    setActionsPostId(postId);
+  }
+
+  function openPost(postId: string) {
+    touchedPostIdRef.current = postId;
+    router.push(`/post/${postId}`);
+  }
+
+  function removePost(postId: string) {
+    touchedPostIdRef.current = null;
+    setPosts(posts => posts.filter(item => item.id !== postId));
+  }
+
+  async function fetchStories() {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        router.replace('/auth');
+      if (!user) return;
+
+      const { groups } = await fetchStoryGroups(user.id);
+      setStoryGroups(groups);
+    } catch (error) {
+      console.error('Error fetching stories:', error);
+    }
+  }
+
+  async function fetchPosts(mode = feedMode, window = topWindow) {
+    setFeedError(null);
+
+    let origin = feedOrigin;
+    if (mode === 'nearby' && !origin) {
+      origin = await getCurrentPosition();
+      if (!origin) {
+        setPosts([]);
+        setNextCursor(null);
+        setFeedError('Разрешите доступ к геолокации, чтобы видеть посты рядом');
         return;
       }
-      fetchPosts();
-    } catch (error) {
-      console.error('Error checking user:', error);
-      router.replace('/auth');
+      setFeedOrigin(origin);
     }
+
+    const { posts, nextCursor, error } = await fetchFeedPage(mode, null, {
+      origin: origin ?? undefined,
+      topWindow: window,
+    });
+
+    // Ignore the response if the user switched modes while it was loading
+    if (error || feedModeRef.current !== mode) return;
+
+    setPosts(posts);
+    setNextCursor(nextCursor);
+    setNewPostsCount(0);
   }
 
-  async function fetchPosts() {
+  async function getCurrentPosition(): Promise<GeoPoint | null> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      const { data, error } = await supabase
-        .from('posts')
-        .select(`
-          *,
-          user:profiles(full_name, avatar_url),
-          likes(user_id),
-          comments:comments(count)
-        `)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-
-      const postsWithCounts = data.map(post => ({
-        ...post,
-        likes: post.likes?.length || 0,
-        comments_count: post.comments?.[0]?.count || 0,
-        liked_by_user: post.likes?.some(like => like.user_id === user.id) || false,
-      }));
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted') return null;
 
-      setPosts(postsWithCounts);
+      const position = await Location.getCurrentPositionAsync({});
+      return {
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+      };
     } catch (error) {
-      console.error('Error fetching posts:', error);
+      console.error('Error getting location:', error);
+      return null;
     }
   }
 
+  function changeFeedMode(mode: FeedMode) {
+    if (mode === feedMode) return;
+
+    feedModeRef.current = mode;
+    setFeedMode(mode);
+    setPosts([]);
+    setNextCursor(null);
+    setNewPostsCount(0);
+    fetchPosts(mode);
+  }
+
+  function changeTopWindow(window: TopWindow) {
+    if (window === topWindow) return;
+
+    setTopWindow(window);
+    setPosts([]);
+    setNextCursor(null);
+    fetchPosts('top', window);
+  }
+
+  async function loadMorePosts() {
+    if (!nextCursor || loadingMore) return;
+
+    setLoadingMore(true);
+    const mode = feedMode;
+    const { posts: page, nextCursor: cursor, error } = await fetchFeedPage(mode, nextCursor, {
+      origin: feedOrigin ?? undefined,
+      topWindow,
+    });
+    setLoadingMore(false);
+
+    if (error || feedModeRef.current !== mode) return;
+
+    // Skip posts that moved onto the next page after new ones were inserted
+    setPosts(posts => {
+      const loaded = new Set(posts.map(post => post.id));
+      return [...posts, ...page.filter(post => !loaded.has(post.id))];
+    });
+    setNextCursor(cursor);
+  }
+
+  async function showNewPosts() {
+    listRef.current?.scrollToOffset({ offset: 0, animated: true });
+    await fetchPosts();
+  }
+
   async function handleLike(postId: string) {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
       const post = posts.find(p => p.id === postId);
@@ -118,23 +376,50 @@ export default function FeedScreen() {
     }
   }
 
-  async function pickImage() {
+  async function handleBookmark(postId: string) {
+    const post = posts.find(p => p.id === postId);
+    if (!post) return;
+
+    const { error } = await setBookmark(postId, !post.bookmarked_by_user);
+    if (error) return;
+
+    markBookmarked(postId, !post.bookmarked_by_user);
+  }
+
+  function markBookmarked(postId: string, bookmarked: boolean) {
+    setPosts(posts => posts.map(p => (
+      p.id === postId ? { ...p, bookmarked_by_user: bookmarked } : p
+    )));
+  }
+
+  async function pickMedia() {
     try {
-      const result = await ImagePicker.launchImageLibraryAsync({
-        mediaTypes: ImagePicker.MediaTypeOptions.Images,
-        allowsEditing: true,
-        aspect: [4, 3],
-        quality: 1,
-      });
-
-      if (!result.canceled) {
-        setSelectedImage(result.assets[0].uri);
-      }
+      const { media: picked, skipped } = await pickPostMedia(MAX_POST_MEDIA - selectedMedia.length);
+      const media = await Promise.all(picked.map(persistDraftMedia));
+
+      setComposeError(skipped > 0 ? 'Видео длиннее минуты не добавлены' : null);
+      setSelectedMedia(selected => [
+        ...selected,
+        ...media.map((item, index) => ({
+          ...item,
+          key: `${Date.now()}-${index}`,
+          status: 'pending' as const,
+          progress: 0,
+          url: null,
+          thumbnail_url: null,
+        })),
+      ]);
     } catch (error) {
-      console.error('Error picking image:', error);
+      console.error('Error picking media:', error);
     }
   }
 
+  function updateUpload(key: string, changes: Partial<MediaUpload>) {
+    setSelectedMedia(selected => selected.map(item => (
+      item.key === key ? { ...item, ...changes } : item
+    )));
+  }
+
   async function attachLocation() {
     const { status } = await Location.requestForegroundPermissionsAsync();
     if (status !== 'granted') {
@@ -148,61 +433,95 @@ export default function FeedScreen() {
     });
   }
 
+  function postIdForDraft() {
+    if (publishedPostRef.current?.draftId !== draftId) {
+      publishedPostRef.current = { draftId, postId: createPostId() };
+    }
+    return publishedPostRef.current.postId;
+  }
+
   async function handleCreatePost() {
-    if (!content.trim() && !selectedImage) return;
+    if (!content.trim() && selectedMedia.length === 0) return;
 
+    const postId = postIdForDraft();
     setIsLoading(true);
+    setComposeError(null);
 
-    try {
-      let imageUrl = null;
-
-      if (selectedImage) {
-        const formData = new FormData();
-        formData.append('file', {
-          uri: selectedImage,
-          name: 'upload.jpg',
-          type: 'image/jpeg',
-        } as any);
+    if (!(await isOnline())) {
+      await queuePost([], postId);
+      return;
+    }
 
-        const { data: uploadData, error: uploadError } = await supabase.storage
-          .from('post-images')
-          .upload('post-' + Date.now() + '.jpg', formData);
+    // Upload one item at a time so progress stays readable on slow networks
+    const uploaded: UploadedPostMedia[] = [];
+    for (const item of selectedMedia) {
+      if (item.url) {
+        uploaded.push({ ...item, url: item.url });
+        continue;
+      }
 
-        if (uploadError) throw uploadError;
+      updateUpload(item.key, { status: 'uploading', progress: 0 });
+      const { url, thumbnailUrl } = await uploadPostMedia(item, progress => updateUpload(item.key, { progress }));
 
-        const { data: { publicUrl } } = supabase.storage
-          .from('post-images')
-          .getPublicUrl(uploadData.path);
+      if (url) {
+        updateUpload(item.key, { status: 'done', progress: 1, url, thumbnail_url: thumbnailUrl });
+        uploaded.push({ ...item, url, thumbnail_url: thumbnailUrl });
+      } else {
+        updateUpload(item.key, { status: 'error' });
+      }
+    }
 
-        imageUrl = publicUrl;
+    if (uploaded.length < selectedMedia.length) {
+      if (!(await isOnline())) {
+        await queuePost(uploaded, postId);
+        return;
       }
+      setComposeError('Не все файлы загрузились. Проверьте соединение и повторите.');
+      setIsLoading(false);
+      return;
+    }
 
-      const { error: postError } = await supabase
-        .from('posts')
-        .insert([{
-          content,
-          image_url: imageUrl,
-          latitude: location?.latitude,
-          longitude: location?.longitude,
-        }]);
-
-      if (postError) throw postError;
-
-      setContent('');
-      setSelectedImage(null);
-      setLocation(null);
-      setIsCreating(false);
-      fetchPosts();
-    } catch (error) {
-      console.error('Error creating post:', error);
-    } finally {
+    const { error } = await createPostWithMedia({
+      id: postId,
+      content,
+      location,
+      media: uploaded,
+    });
+
+    if (error) {
+      if (!(await isOnline())) {
+        await queuePost(uploaded, postId);
+        return;
+      }
       setIsLoading(false);
+      setComposeError('Не удалось опубликовать пост');
+      return;
     }
+
+    setIsLoading(false);
+    if (draftId) await deleteDraft(draftId);
+    discardDraftMedia(selectedMedia);
+    resetComposer();
+    fetchPosts();
+  }
+
+  // The connection is gone: keep the post on the device and publish it from
+  // the queue once the device is back online
+  async function queuePost(uploaded: UploadedPostMedia[], postId: string) {
+    await enqueuePost(
+      { content, location, media: selectedMedia.map(toPickedMedia) },
+      Object.fromEntries(uploaded.map(item => [item.uri, { url: item.url, thumbnail_url: item.thumbnail_url }])),
+      postId
+    );
+
+    setIsLoading(false);
+    if (draftId) await deleteDraft(draftId);
+    resetComposer();
   }
 
   const onRefresh = async () => {
     setRefreshing(true);
-    await fetchPosts();
+    await Promise.all([fetchPosts(), fetchStories()]);
     setRefreshing(false);
   };
 
@@ -236,13 +555,29 @@ export default function FeedScreen() {
         />
         <View style={styles.postHeaderText}>
           <Text style={styles.userName}>{item.user?.full_name || 'Unknown User'}</Text>
-          <Text style={styles.postTime}>{getTimeAgo(item.created_at)}</Text>
+          <Text style={styles.postTime}>
+            {getTimeAgo(item.created_at)}
+            {isEdited(item) && ' · изменено'}
+          </Text>
         </View>
+        {item.user_id === user?.id && (
+          <TouchableOpacity
+            onPress={() => openPostActions(item.id)}
+            style={styles.moreButton}
+          >
+            <MoreHorizontal size={24} color="#666" />
+          </TouchableOpacity>
+        )}
       </TouchableOpacity>
 
-      <Text style={styles.postContent}>{item.content}</Text>
+      <RichText text={item.content} style={styles.postContent} />
 
-      {item.image_url && (
+      {item.media.length > 0 ? (
+        <MediaCarousel
+          media={item.media}
+          active={isFocused && visiblePostIds.has(item.id)}
+        />
+      ) : item.image_url && (
         <Image
           source={{ uri: item.image_url }}
           style={styles.postImage}
@@ -278,7 +613,7 @@ export default function FeedScreen() {
         
         <TouchableOpacity 
           style={styles.actionButton}
-          onPress={() => router.push(`/post/${item.id}`)}
+          onPress={() => openPost(item.id)}
         >
           <MessageCircle size={24} color="#666" />
           <Text style={styles.actionText}>{item.comments_count}</Text>
@@ -287,25 +622,85 @@ export default function FeedScreen() {
         <TouchableOpacity style={styles.actionButton}>
           <Share size={24} color="#666" />
         </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.actionButton, styles.bookmarkButton]}
+          onPress={() => handleBookmark(item.id)}
+          onLongPress={() => setCollectionPostId(item.id)}
+        >
+          <Bookmark
+            size={24}
+            color={item.bookmarked_by_user ? "#007AFF" : "#666"}
+            fill={item.bookmarked_by_user ? "#007AFF" : "none"}
+          />
+        </TouchableOpacity>
       </View>
     </Animated.View>
   );
 
   return (
     <View style={styles.container}>
+      <StoriesRail
+        groups={storyGroups}
+        currentUserId={user?.id ?? null}
+        currentUserAvatar={profile?.avatar_url ?? null}
+        onOpen={setOpenStoryGroup}
+        onCreate={() => router.push('/story/new')}
+      />
+
+      <View style={styles.feedModes}>
+        {(Object.keys(FEED_MODES) as FeedMode[]).map((mode) => (
+          <TouchableOpacity
+            key={mode}
+            style={[styles.feedMode, feedMode === mode && styles.feedModeActive]}
+            onPress={() => changeFeedMode(mode)}
+          >
+            <Text style={[styles.feedModeText, feedMode === mode && styles.feedModeTextActive]}>
+              {FEED_MODES[mode]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {feedMode === 'top' && (
+        <View style={styles.topWindows}>
+          {(Object.keys(TOP_WINDOWS) as TopWindow[]).map((window) => (
+            <TouchableOpacity
+              key={window}
+              style={[styles.topWindow, topWindow === window && styles.topWindowActive]}
+              onPress={() => changeTopWindow(window)}
+            >
+              <Text style={[styles.topWindowText, topWindow === window && styles.topWindowTextActive]}>
+                {TOP_WINDOWS[window]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
       {isCreating ? (
         <View style={styles.createPostContainer}>
           <View style={styles.createPostHeader}>
             <Text style={styles.createPostTitle}>Новый пост</Text>
-            <TouchableOpacity 
-              onPress={() => setIsCreating(false)}
-              style={styles.closeButton}
-            >
-              <X size={24} color="#666" />
-            </TouchableOpacity>
+            <View style={styles.createPostHeaderButtons}>
+              <TouchableOpacity
+                onPress={() => setShowDrafts(true)}
+                style={styles.closeButton}
+                disabled={isLoading}
+              >
+                <FileText size={22} color="#007AFF" />
+              </TouchableOpacity>
+              <TouchableOpacity 
+                onPress={closeComposer}
+                style={styles.closeButton}
+              >
+                <X size={24} color="#666" />
+              </TouchableOpacity>
+            </View>
           </View>
           
-          <TextInput
+          <MentionTextInput
+            containerStyle={styles.inputContainer}
             style={styles.input}
             placeholder="Что у вас нового?"
             value={content}
@@ -316,16 +711,48 @@ export default function FeedScreen() {
           />
 
           <View style={styles.attachments}>
-            {selectedImage && (
-              <View style={styles.selectedImageContainer}>
-                <Image source={{ uri: selectedImage }} style={styles.selectedImage} />
-                <TouchableOpacity 
-                  style={styles.removeImageButton}
-                  onPress={() => setSelectedImage(null)}
-                >
-                  <X size={20} color="white" />
-                </TouchableOpacity>
-              </View>
+            {selectedMedia.length > 0 && (
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                style={styles.selectedMedia}
+              >
+                {selectedMedia.map((item) => (
+                  <View key={item.key} style={styles.selectedImageContainer}>
+                    {item.media_type === 'video' ? (
+                      <View style={[styles.selectedImage, styles.selectedVideo]}>
+                        <Play size={28} color="white" fill="white" />
+                      </View>
+                    ) : (
+                      <Image source={{ uri: item.uri }} style={styles.selectedImage} />
+                    )}
+
+                    {item.status === 'uploading' && (
+                      <View style={styles.uploadProgressTrack}>
+                        <View style={[styles.uploadProgressFill, { width: `${Math.round(item.progress * 100)}%` }]} />
+                      </View>
+                    )}
+                    {item.status === 'error' && (
+                      <View style={styles.uploadError}>
+                        <AlertCircle size={24} color="white" />
+                      </View>
+                    )}
+
+                    {!isLoading && (
+                      <TouchableOpacity
+                        style={styles.removeImageButton}
+                        onPress={() => removeSelectedMedia(item)}
+                      >
+                        <X size={16} color="white" />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                ))}
+              </ScrollView>
+            )}
+
+            {composeError && (
+              <Text style={styles.composeError}>{composeError}</Text>
             )}
 
             {location && (
@@ -343,7 +770,8 @@ export default function FeedScreen() {
             <View style={styles.attachButtons}>
               <TouchableOpacity 
                 style={styles.attachButton} 
-                onPress={pickImage}
+                onPress={pickMedia}
+                disabled={isLoading || selectedMedia.length >= MAX_POST_MEDIA}
               >
                 <ImageIcon size={24} color="#007AFF" />
               </TouchableOpacity>
@@ -358,15 +786,17 @@ export default function FeedScreen() {
             <TouchableOpacity
               style={[
                 styles.postButton,
-                (!content.trim() && !selectedImage) && styles.postButtonDisabled
+                (!content.trim() && selectedMedia.length === 0) && styles.postButtonDisabled
               ]}
               onPress={handleCreatePost}
-              disabled={(!content.trim() && !selectedImage) || isLoading}
+              disabled={(!content.trim() && selectedMedia.length === 0) || isLoading}
             >
               {isLoading ? (
                 <ActivityIndicator color="white" />
               ) : (
-                <Text style={styles.postButtonText}>Опубликовать</Text>
+                <Text style={styles.postButtonText}>
+                  {selectedMedia.some(item => item.status === 'error') ? 'Повторить' : 'Опубликовать'}
+                </Text>
               )}
             </TouchableOpacity>
           </View>
@@ -374,19 +804,51 @@ export default function FeedScreen() {
       ) : (
         <TouchableOpacity
           style={styles.createButton}
-          onPress={() => setIsCreating(true)}
+          onPress={openComposer}
         >
           <Plus size={24} color="white" />
           <Text style={styles.createButtonText}>Создать пост</Text>
         </TouchableOpacity>
       )}
 
+      {newPostsCount > 0 && (
+        <TouchableOpacity style={styles.newPostsBanner} onPress={showNewPosts}>
+          <ArrowUp size={16} color="white" />
+          <Text style={styles.newPostsText}>
+            Новые посты: {newPostsCount}
+          </Text>
+        </TouchableOpacity>
+      )}
+
       <FlatList
+        ref={listRef}
         data={posts}
         renderItem={renderPost}
         keyExtractor={(item) => item.id}
         contentContainerStyle={styles.listContainer}
         showsVerticalScrollIndicator={false}
+        extraData={[visiblePostIds, isFocused]}
+        onViewableItemsChanged={onViewableItemsChanged}
+        viewabilityConfig={viewabilityConfig}
+        onEndReached={loadMorePosts}
+        onEndReachedThreshold={0.5}
+        ListHeaderComponent={
+          queuedPosts.length > 0 ? (
+            <View style={styles.queuedPosts}>
+              {queuedPosts.map((post) => (
+                <QueuedPostCard
+                  key={post.id}
+                  post={post}
+                  onRetry={retryQueuedPost}
+                  onDiscard={discardQueuedPost}
+                />
+              ))}
+            </View>
+          ) : null
+        }
+        ListFooterComponent={
+          loadingMore ? <ActivityIndicator color="#007AFF" style={styles.listFooter} /> : null
+        }
         refreshControl={
           <RefreshControl
             refreshing={refreshing}
@@ -397,10 +859,51 @@ export default function FeedScreen() {
         ListEmptyComponent={
           <View style={styles.emptyContainer}>
             <Text style={styles.emptyText}>Пока нет постов</Text>
-            <Text style={styles.emptySubtext}>Будьте первым, кто поделится новостями!</Text>
+            <Text style={styles.emptySubtext}>
+              {feedError
+                ?? (feedMode === 'following'
+                  ? 'Подпишитесь на других роллеров, чтобы видеть их посты здесь'
+                  : feedMode === 'nearby'
+                    ? 'Рядом с вами пока никто не публиковал посты с геолокацией'
+                    : feedMode === 'top'
+                      ? 'За этот период популярных постов нет'
+                    : 'Будьте первым, кто поделится новостями!')}
+            </Text>
           </View>
         }
       />
+
+      <StoryViewer
+        key={openStoryGroup ?? 'closed'}
+        groups={storyGroups}
+        initialGroupIndex={openStoryGroup}
+        currentUserId={user?.id ?? null}
+        onClose={() => {
+          setOpenStoryGroup(null);
+          fetchStories();
+        }}
+        onDeleted={fetchStories}
+      />
+
+      <CollectionPicker
+        postId={collectionPostId}
+        onClose={() => setCollectionPostId(null)}
+        onSaved={(postId) => markBookmarked(postId, true)}
+      />
+
+      <DraftsSheet
+        visible={showDrafts}
+        currentDraftId={draftId}
+        onClose={() => setShowDrafts(false)}
+        onSelect={openDraft}
+        onCreate={startNewDraft}
+      />
+
+      <PostActionsSheet
+        postId={actionsPostId}
+        onClose={() => setActionsPostId(null)}
+        onDeleted={removePost}
+      />
     </View>
   );
 }
@@ -413,6 +916,80 @@ const styles = StyleSheet.create({
   listContainer: {
     padding: 16,
   },
+  feedModes: {
+    flexDirection: 'row',
+    backgroundColor: '#E5E5EA',
+    borderRadius: 10,
+    padding: 2,
+    marginHorizontal: 16,
+    marginTop: 12,
+  },
+  feedMode: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  feedModeActive: {
+    backgroundColor: 'white',
+  },
+  feedModeText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#8E8E93',
+  },
+  feedModeTextActive: {
+    color: '#1C1C1E',
+  },
+  topWindows: {
+    flexDirection: 'row',
+    marginHorizontal: 16,
+    marginTop: 8,
+  },
+  topWindow: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'white',
+    marginRight: 8,
+  },
+  topWindowActive: {
+    backgroundColor: '#007AFF',
+  },
+  topWindowText: {
+    fontSize: 14,
+    color: '#1C1C1E',
+  },
+  topWindowTextActive: {
+    color: 'white',
+  },
+  listFooter: {
+    marginVertical: 16,
+  },
+  newPostsBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    backgroundColor: '#007AFF',
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginTop: 8,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.15,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  newPostsText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
   postContainer: {
     backgroundColor: 'white',
     borderRadius: 16,
@@ -435,6 +1012,9 @@ const styles = StyleSheet.create({
   postHeaderText: {
     flex: 1,
   },
+  moreButton: {
+    padding: 4,
+  },
   avatar: {
     width: 40,
     height: 40,
@@ -494,6 +1074,10 @@ const styles = StyleSheet.create({
   actionTextActive: {
     color: '#ff4b4b',
   },
+  bookmarkButton: {
+    marginLeft: 'auto',
+    marginRight: 0,
+  },
   createButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -516,6 +1100,9 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginLeft: 8,
   },
+  queuedPosts: {
+    marginBottom: 4,
+  },
   createPostContainer: {
     backgroundColor: 'white',
     margin: 16,
@@ -541,9 +1128,17 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#1c1c1e',
   },
+  createPostHeaderButtons: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   closeButton: {
     padding: 4,
   },
+  // Keeps mention suggestions above the attachments
+  inputContainer: {
+    zIndex: 1,
+  },
   input: {
     fontSize: 16,
     minHeight: 100,
@@ -554,20 +1149,54 @@ const styles = StyleSheet.create({
   attachments: {
     marginBottom: 16,
   },
+  selectedMedia: {
+    marginBottom: 12,
+  },
   selectedImageContainer: {
     position: 'relative',
-    marginBottom: 12,
+    marginRight: 8,
+    borderRadius: 12,
+    overflow: 'hidden',
   },
   selectedImage: {
-    width: '100%',
-    height: 200,
-    borderRadius: 12,
+    width: 120,
+    height: 120,
     backgroundColor: '#f2f2f7',
   },
-  removeImageButton: {
+  selectedVideo: {
+    backgroundColor: '#1C1C1E',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  uploadProgressTrack: {
     position: 'absolute',
-    top: 8,
+    left: 8,
     right: 8,
+    bottom: 8,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255, 255, 255, 0.5)',
+    overflow: 'hidden',
+  },
+  uploadProgressFill: {
+    height: '100%',
+    backgroundColor: '#007AFF',
+  },
+  uploadError: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(255, 59, 48, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  composeError: {
+    color: '#FF3B30',
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  removeImageButton: {
+    position: 'absolute',
+    top: 6,
+    right: 6,
     backgroundColor: 'rgba(0, 0, 0, 0.5)',
     borderRadius: 16,
     padding: 4,
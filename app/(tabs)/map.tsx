@@ -1,44 +1,57 @@
-import { View, Text, StyleSheet, Platform, Dimensions } from 'react-native';
-import { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, Image, ActivityIndicator, TouchableOpacity, Modal, TextInput } from 'react-native';
+import { useState, useEffect, useRef } from 'react';
 import * as Location from 'expo-location';
+import { useRouter } from 'expo-router';
+import { Play, Square, Route as RouteIcon, Eye, EyeOff, Shield, Calendar, X } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
-import { MapPin } from 'lucide-react-native';
+import { MapView, Marker, Callout, Circle, Polyline, Region } from '@/components/Map';
+import SpotSheet from '@/components/SpotSheet';
+import SpotForm from '@/components/SpotForm';
+import { GeoPoint, clusterPoints, formatDistance, formatDuration, formatSpeed } from '@/lib/geo';
+import { SPOT_CATEGORIES, Spot, fetchNearbySpots } from '@/lib/spots';
+import { fetchLocationSettings, publishLocation, updateLocationSettings } from '@/lib/location';
+import { RideDraft, RouteData, saveRoute } from '@/lib/routes';
+import { RouteFileFormat, exportRoute } from '@/lib/routeFormats';
+import { buildRouteData, useRideRecorder } from '@/hooks/useRideRecorder';
 
 interface Athlete {
   id: string;
+  user_id: string;
   latitude: number;
   longitude: number;
+  last_updated: string;
+  distance_km: number;
   user: {
     full_name: string;
     avatar_url: string;
-  };
+  } | null;
 }
 
-const MapPlaceholder = ({ location, athletes }: { location: Location.LocationObject | null, athletes: Athlete[] }) => {
-  return (
-    <View style={styles.container}>
-      <View style={styles.mapPlaceholder}>
-        <MapPin size={48} color="#007AFF" style={styles.mapIcon} />
-        <Text style={styles.mapTitle}>Карта роллеров</Text>
-        {location ? (
-          <Text style={styles.mapCoords}>
-            Ваши координаты:{'\n'}{location.coords.latitude.toFixed(6)}, {location.coords.longitude.toFixed(6)}
-          </Text>
-        ) : (
-          <Text style={styles.mapText}>Определяем ваше местоположение...</Text>
-        )}
-        <Text style={styles.mapStats}>
-          Роллеров поблизости: {athletes.length}
-        </Text>
-      </View>
-    </View>
-  );
-}
+const DEFAULT_AVATAR = 'https://images.unsplash.com/photo-1535713875002-d1d0cf377fde?w=200';
+
+const RADIUS_OPTIONS = [1, 5, 10, 25];
+
+const INITIAL_DELTA = 0.05;
 
 export default function MapScreen() {
   const [location, setLocation] = useState<Location.LocationObject | null>(null);
   const [athletes, setAthletes] = useState<Athlete[]>([]);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [radiusKm, setRadiusKm] = useState(5);
+  const [spots, setSpots] = useState<Spot[]>([]);
+  const [mapRegion, setMapRegion] = useState({ latitudeDelta: INITIAL_DELTA, longitudeDelta: INITIAL_DELTA });
+  const [selectedSpot, setSelectedSpot] = useState<Spot | null>(null);
+  const [newSpotCoordinate, setNewSpotCoordinate] = useState<GeoPoint | null>(null);
+  const [invisible, setInvisible] = useState(false);
+  const [finishedRide, setFinishedRide] = useState<RouteData | null>(null);
+  const [routeTitle, setRouteTitle] = useState('');
+  const [routeDescription, setRouteDescription] = useState('');
+  const [savingRoute, setSavingRoute] = useState(false);
+  const [routeError, setRouteError] = useState<string | null>(null);
+  const [rideError, setRideError] = useState<string | null>(null);
+  const mapRef = useRef<MapView>(null);
+  const recorder = useRideRecorder();
+  const router = useRouter();
 
   useEffect(() => {
     (async () => {
@@ -54,47 +67,152 @@ export default function MapScreen() {
         });
         setLocation(location);
 
-        // Update user location in database
-        const { data: { user } } = await supabase.auth.getUser();
-        if (user) {
-          await supabase
-            .from('athlete_locations')
-            .upsert({
-              user_id: user.id,
-              latitude: location.coords.latitude,
-              longitude: location.coords.longitude,
-              last_updated: new Date().toISOString(),
-            });
-        }
+        // Update user location in database unless the user hides it
+        const { settings } = await fetchLocationSettings();
+        if (settings) setInvisible(settings.location_invisible);
+        await publishLocation(location.coords);
       } catch (error) {
         setErrorMsg('Не удалось определить местоположение');
         console.error('Location error:', error);
       }
     })();
+  }, []);
 
+  useEffect(() => {
+    if (!location) return;
+
+    fetchNearbyAthletes();
     const interval = setInterval(fetchNearbyAthletes, 30000); // Update every 30 seconds
     return () => clearInterval(interval);
-  }, []);
+  }, [location, radiusKm]);
+
+  useEffect(() => {
+    fetchSpots();
+  }, [location, radiusKm]);
+
+  async function fetchSpots() {
+    if (!location) return;
+
+    const { spots } = await fetchNearbySpots(location.coords, radiusKm);
+    setSpots(spots);
+  }
+
+  function handleRegionChange(region: Region) {
+    setMapRegion({ latitudeDelta: region.latitudeDelta, longitudeDelta: region.longitudeDelta });
+  }
+
+  async function toggleInvisible() {
+    const next = !invisible;
+    setInvisible(next);
+
+    const { error } = await updateLocationSettings({ location_invisible: next });
+    if (error) {
+      setInvisible(!next);
+      return;
+    }
+    if (!next && location) {
+      await publishLocation(location.coords);
+    }
+  }
+
+  function handleSpotCreated() {
+    setNewSpotCoordinate(null);
+    fetchSpots();
+  }
 
   async function fetchNearbyAthletes() {
     if (!location) return;
 
     try {
-      const { data, error } = await supabase
-        .from('athlete_locations')
-        .select(`
-          *,
-          user:profiles(full_name, avatar_url)
-        `)
-        .gte('last_updated', new Date(Date.now() - 30 * 60000).toISOString()); // Only show active users (last 30 minutes)
+      // Only active users (last 30 minutes) within the radius, sorted by distance
+      const { data, error } = await supabase.rpc('nearby_athletes', {
+        lat: location.coords.latitude,
+        lng: location.coords.longitude,
+        radius_km: radiusKm,
+      });
 
       if (error) throw error;
-      setAthletes(data || []);
+
+      setAthletes((data || []).map((row: any) => ({
+        id: row.id,
+        user_id: row.user_id,
+        latitude: row.latitude,
+        longitude: row.longitude,
+        last_updated: row.last_updated,
+        distance_km: row.distance_km,
+        user: {
+          full_name: row.full_name,
+          avatar_url: row.avatar_url,
+        },
+      })));
     } catch (error) {
       console.error('Error fetching athletes:', error);
     }
   }
 
+  async function handleStartRide(draft?: RideDraft) {
+    setRideError(null);
+    const started = await recorder.start(draft);
+    if (!started) {
+      setRideError('Для записи заезда необходим доступ к геолокации');
+    }
+  }
+
+  function handleFinishRide() {
+    const ride = recorder.stop();
+    if (ride) {
+      setFinishedRide(ride);
+    }
+  }
+
+  function handleSaveDraft() {
+    const draft = recorder.pendingDraft;
+    if (!draft) return;
+
+    const lastPoint = draft.points[draft.points.length - 1];
+    setFinishedRide(buildRouteData(draft.points, draft.startedAt, lastPoint.timestamp ?? Date.now()));
+  }
+
+  async function handleDiscardRide() {
+    await recorder.discard();
+    setFinishedRide(null);
+    setRouteTitle('');
+    setRouteDescription('');
+    setRouteError(null);
+  }
+
+  async function handleExportRide(format: RouteFileFormat) {
+    if (!finishedRide) return;
+
+    setRouteError(null);
+    const { error } = await exportRoute(routeTitle.trim() || 'Заезд', finishedRide, format);
+    if (error) {
+      setRouteError('Не удалось экспортировать заезд');
+    }
+  }
+
+  async function handleSaveRide() {
+    if (!finishedRide || !routeTitle.trim()) return;
+
+    setSavingRoute(true);
+    setRouteError(null);
+
+    const { error } = await saveRoute(
+      routeTitle.trim(),
+      routeDescription.trim() || null,
+      finishedRide
+    );
+
+    setSavingRoute(false);
+
+    if (error) {
+      setRouteError('Не удалось сохранить маршрут');
+      return;
+    }
+
+    await handleDiscardRide();
+  }
+
   if (errorMsg) {
     return (
       <View style={styles.container}>
@@ -105,7 +223,329 @@ export default function MapScreen() {
     );
   }
 
-  return <MapPlaceholder location={location} athletes={athletes} />;
+  if (!location) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+        <Text style={styles.loadingText}>Определяем ваше местоположение...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <MapView
+        ref={mapRef}
+        style={styles.map}
+        initialRegion={{
+          latitude: location.coords.latitude,
+          longitude: location.coords.longitude,
+          latitudeDelta: INITIAL_DELTA,
+          longitudeDelta: INITIAL_DELTA,
+        }}
+        showsUserLocation
+        showsMyLocationButton
+        onRegionChangeComplete={handleRegionChange}
+        onLongPress={(e) => setNewSpotCoordinate(e.nativeEvent.coordinate)}
+      >
+        <Circle
+          center={{
+            latitude: location.coords.latitude,
+            longitude: location.coords.longitude,
+          }}
+          radius={radiusKm * 1000}
+          strokeColor="rgba(0, 122, 255, 0.5)"
+          fillColor="rgba(0, 122, 255, 0.08)"
+        />
+        {athletes.map((athlete) => (
+          <Marker
+            key={athlete.id}
+            coordinate={{
+              latitude: athlete.latitude,
+              longitude: athlete.longitude,
+            }}
+          >
+            <View style={styles.avatarPin}>
+              <Image
+                source={{ uri: athlete.user?.avatar_url || DEFAULT_AVATAR }}
+                style={styles.avatarPinImage}
+              />
+            </View>
+            <Callout onPress={() => router.push(`/${athlete.user_id}`)}>
+              <View style={styles.callout}>
+                <Text style={styles.calloutName}>
+                  {athlete.user?.full_name || 'Роллер инкогнито'}
+                </Text>
+                <Text style={styles.calloutDistance}>
+                  {formatDistance(athlete.distance_km * 1000)} от вас
+                </Text>
+                <Text style={styles.calloutLink}>Открыть профиль</Text>
+              </View>
+            </Callout>
+          </Marker>
+        ))}
+        {clusterPoints(spots, mapRegion).map((cluster) => (
+          cluster.items.length === 1 ? (
+            <Marker
+              key={cluster.items[0].id}
+              coordinate={cluster.items[0]}
+              pinColor={SPOT_CATEGORIES[cluster.items[0].category].color}
+              onPress={() => setSelectedSpot(cluster.items[0])}
+            />
+          ) : (
+            <Marker
+              key={cluster.key}
+              coordinate={cluster}
+              onPress={() => mapRef.current?.animateToRegion({
+                latitude: cluster.latitude,
+                longitude: cluster.longitude,
+                latitudeDelta: mapRegion.latitudeDelta / 3,
+                longitudeDelta: mapRegion.longitudeDelta / 3,
+              })}
+            >
+              <View style={styles.clusterPin}>
+                <Text style={styles.clusterPinText}>{cluster.items.length}</Text>
+              </View>
+            </Marker>
+          )
+        ))}
+        {recorder.points.length > 1 && (
+          <Polyline
+            coordinates={recorder.points}
+            strokeColor="#007AFF"
+            strokeWidth={5}
+          />
+        )}
+      </MapView>
+
+      <View style={styles.radiusSelector}>
+        {RADIUS_OPTIONS.map((radius) => (
+          <TouchableOpacity
+            key={radius}
+            style={[
+              styles.radiusOption,
+              radius === radiusKm && styles.radiusOptionActive
+            ]}
+            onPress={() => setRadiusKm(radius)}
+          >
+            <Text style={[
+              styles.radiusOptionText,
+              radius === radiusKm && styles.radiusOptionTextActive
+            ]}>
+              {radius} км
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.mapButtons}>
+        <TouchableOpacity
+          style={[styles.mapButton, invisible && styles.mapButtonActive]}
+          onPress={toggleInvisible}
+        >
+          {invisible ? (
+            <EyeOff size={20} color="white" />
+          ) : (
+            <Eye size={20} color="#007AFF" />
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.mapButton}
+          onPress={() => router.push('/privacy')}
+        >
+          <Shield size={20} color="#007AFF" />
+        </TouchableOpacity>
+      </View>
+
+      {recorder.pendingDraft && !recorder.isRecording && !finishedRide && (
+        <View style={styles.draftBanner}>
+          <Text style={styles.draftText}>Найден незавершённый заезд</Text>
+          <View style={styles.draftActions}>
+            <TouchableOpacity onPress={() => handleStartRide(recorder.pendingDraft!)}>
+              <Text style={styles.draftAction}>Продолжить</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleSaveDraft}>
+              <Text style={styles.draftAction}>Сохранить</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleDiscardRide}>
+              <Text style={[styles.draftAction, styles.draftActionDanger]}>Удалить</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {recorder.isRecording ? (
+        <View style={styles.statsCard}>
+          <View style={styles.rideStats}>
+            <View style={styles.rideStat}>
+              <Text style={styles.rideStatValue}>{formatDistance(recorder.distance)}</Text>
+              <Text style={styles.rideStatLabel}>Дистанция</Text>
+            </View>
+            <View style={styles.rideStat}>
+              <Text style={styles.rideStatValue}>{formatDuration(recorder.duration)}</Text>
+              <Text style={styles.rideStatLabel}>Время</Text>
+            </View>
+            <View style={styles.rideStat}>
+              <Text style={styles.rideStatValue}>{formatSpeed(recorder.averageSpeed)}</Text>
+              <Text style={styles.rideStatLabel}>Ср. скорость</Text>
+            </View>
+          </View>
+          <TouchableOpacity
+            style={[styles.rideButton, styles.rideButtonStop]}
+            onPress={handleFinishRide}
+          >
+            <Square size={18} color="white" fill="white" />
+            <Text style={styles.rideButtonText}>Завершить заезд</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View style={styles.statsCard}>
+          <Text style={styles.mapStats}>
+            Роллеров поблизости: {athletes.length}
+          </Text>
+          <Text style={styles.mapHint}>
+            {invisible
+              ? 'Вы в режиме невидимки: другие роллеры вас не видят'
+              : 'Удерживайте точку на карте, чтобы добавить место'}
+          </Text>
+          {rideError && (
+            <View style={styles.rideErrorRow}>
+              <Text style={styles.rideErrorText}>{rideError}</Text>
+              <TouchableOpacity onPress={() => setRideError(null)}>
+                <X size={16} color="#8E8E93" />
+              </TouchableOpacity>
+            </View>
+          )}
+          <TouchableOpacity
+            style={styles.rideButton}
+            onPress={() => handleStartRide()}
+          >
+            <Play size={18} color="white" fill="white" />
+            <Text style={styles.rideButtonText}>Записать заезд</Text>
+          </TouchableOpacity>
+          <View style={styles.actionsRow}>
+            <TouchableOpacity
+              style={[styles.rideButton, styles.actionButton, styles.routesButton]}
+              onPress={() => router.push('/routes')}
+            >
+              <RouteIcon size={18} color="#007AFF" />
+              <Text style={[styles.rideButtonText, styles.routesButtonText]}>Маршруты</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.rideButton, styles.actionButton, styles.routesButton]}
+              onPress={() => router.push('/events')}
+            >
+              <Calendar size={18} color="#007AFF" />
+              <Text style={[styles.rideButtonText, styles.routesButtonText]}>Покатушки</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      <Modal
+        visible={!!finishedRide}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setFinishedRide(null)}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Сохранить маршрут</Text>
+
+            {finishedRide && (
+              <View style={styles.rideStats}>
+                <View style={styles.rideStat}>
+                  <Text style={styles.rideStatValue}>{formatDistance(finishedRide.distance_m)}</Text>
+                  <Text style={styles.rideStatLabel}>Дистанция</Text>
+                </View>
+                <View style={styles.rideStat}>
+                  <Text style={styles.rideStatValue}>{formatDuration(finishedRide.duration_s)}</Text>
+                  <Text style={styles.rideStatLabel}>Время</Text>
+                </View>
+                <View style={styles.rideStat}>
+                  <Text style={styles.rideStatValue}>
+                    {formatSpeed(finishedRide.duration_s > 0 ? finishedRide.distance_m / finishedRide.duration_s : 0)}
+                  </Text>
+                  <Text style={styles.rideStatLabel}>Ср. скорость</Text>
+                </View>
+              </View>
+            )}
+
+            <TextInput
+              style={styles.input}
+              placeholder="Название маршрута"
+              value={routeTitle}
+              onChangeText={setRouteTitle}
+              placeholderTextColor="#8E8E93"
+              maxLength={100}
+            />
+            <TextInput
+              style={[styles.input, styles.inputMultiline]}
+              placeholder="Описание (необязательно)"
+              value={routeDescription}
+              onChangeText={setRouteDescription}
+              placeholderTextColor="#8E8E93"
+              multiline
+            />
+
+            {finishedRide && finishedRide.points.length < 2 && (
+              <Text style={styles.routeError}>Слишком короткий заезд для сохранения</Text>
+            )}
+            {routeError && (
+              <Text style={styles.routeError}>{routeError}</Text>
+            )}
+
+            <TouchableOpacity
+              style={[
+                styles.rideButton,
+                (!routeTitle.trim() || (finishedRide?.points.length || 0) < 2) && styles.rideButtonDisabled
+              ]}
+              onPress={handleSaveRide}
+              disabled={!routeTitle.trim() || (finishedRide?.points.length || 0) < 2 || savingRoute}
+            >
+              {savingRoute ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <Text style={styles.rideButtonText}>Сохранить</Text>
+              )}
+            </TouchableOpacity>
+            {finishedRide && finishedRide.points.length >= 2 && (
+              <View style={styles.exportRow}>
+                <TouchableOpacity
+                  style={styles.exportButton}
+                  onPress={() => handleExportRide('gpx')}
+                  disabled={savingRoute}
+                >
+                  <Text style={styles.exportButtonText}>Экспорт GPX</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.exportButton}
+                  onPress={() => handleExportRide('geojson')}
+                  disabled={savingRoute}
+                >
+                  <Text style={styles.exportButtonText}>Экспорт GeoJSON</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+            <TouchableOpacity
+              style={styles.discardButton}
+              onPress={handleDiscardRide}
+              disabled={savingRoute}
+            >
+              <Text style={styles.discardButtonText}>Удалить заезд</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
+      <SpotSheet spot={selectedSpot} onClose={() => setSelectedSpot(null)} />
+      <SpotForm
+        coordinate={newSpotCoordinate}
+        onClose={() => setNewSpotCoordinate(null)}
+        onCreated={handleSpotCreated}
+      />
+    </View>
+  );
 }
 
 const styles = StyleSheet.create({
@@ -113,41 +553,321 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#fff',
   },
-  mapPlaceholder: {
+  map: {
+    flex: 1,
+  },
+  loadingContainer: {
     flex: 1,
     justifyContent: 'center',
     alignItems: 'center',
     padding: 20,
     backgroundColor: '#F2F2F7',
   },
-  mapIcon: {
-    marginBottom: 20,
+  loadingText: {
+    fontSize: 16,
+    color: '#8E8E93',
+    textAlign: 'center',
+    marginTop: 16,
   },
-  mapTitle: {
-    fontSize: 24,
-    fontWeight: '700',
+  avatarPin: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    borderWidth: 3,
+    borderColor: '#007AFF',
+    backgroundColor: 'white',
+    overflow: 'hidden',
+  },
+  avatarPinImage: {
+    width: '100%',
+    height: '100%',
+  },
+  callout: {
+    minWidth: 140,
+    padding: 4,
+  },
+  calloutName: {
+    fontSize: 15,
+    fontWeight: '600',
     color: '#1C1C1E',
-    marginBottom: 12,
+    marginBottom: 4,
   },
-  mapText: {
-    fontSize: 16,
+  calloutDistance: {
+    fontSize: 13,
     color: '#8E8E93',
-    textAlign: 'center',
+    marginBottom: 4,
+  },
+  calloutLink: {
+    fontSize: 13,
+    color: '#007AFF',
+  },
+  clusterPin: {
+    minWidth: 36,
+    height: 36,
+    borderRadius: 18,
+    paddingHorizontal: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#AF52DE',
+    borderWidth: 3,
+    borderColor: 'white',
+  },
+  clusterPinText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  radiusSelector: {
+    position: 'absolute',
+    top: 16,
+    left: 16,
+    right: 16,
+    flexDirection: 'row',
+    justifyContent: 'center',
+  },
+  radiusOption: {
+    backgroundColor: 'white',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    marginHorizontal: 4,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 1,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  radiusOptionActive: {
+    backgroundColor: '#007AFF',
+  },
+  radiusOptionText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#007AFF',
+  },
+  radiusOptionTextActive: {
+    color: 'white',
+  },
+  mapButtons: {
+    position: 'absolute',
+    top: 64,
+    right: 16,
+  },
+  mapButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'white',
+    justifyContent: 'center',
+    alignItems: 'center',
     marginBottom: 8,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 1,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
   },
-  mapCoords: {
-    fontSize: 16,
-    color: '#1C1C1E',
-    textAlign: 'center',
-    marginBottom: 16,
-    lineHeight: 24,
+  mapButtonActive: {
+    backgroundColor: '#8E8E93',
+  },
+  statsCard: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 16,
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
   },
   mapStats: {
     fontSize: 18,
     fontWeight: '600',
     color: '#007AFF',
+  },
+  mapHint: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 4,
+  },
+  rideStats: {
+    flexDirection: 'row',
+    alignSelf: 'stretch',
+    justifyContent: 'space-around',
+    marginBottom: 4,
+  },
+  rideStat: {
+    alignItems: 'center',
+  },
+  rideStatValue: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  rideStatLabel: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  rideButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    alignSelf: 'stretch',
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    height: 44,
+    marginTop: 12,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    alignSelf: 'stretch',
+  },
+  actionButton: {
+    flex: 1,
+    marginHorizontal: 4,
     marginTop: 8,
   },
+  routesButton: {
+    backgroundColor: '#F2F2F7',
+  },
+  routesButtonText: {
+    color: '#007AFF',
+  },
+  rideButtonStop: {
+    backgroundColor: '#FF3B30',
+  },
+  rideButtonDisabled: {
+    opacity: 0.5,
+  },
+  rideButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  draftBanner: {
+    position: 'absolute',
+    top: 64,
+    left: 16,
+    right: 16,
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 12,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  draftText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  draftActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  draftAction: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#007AFF',
+  },
+  draftActionDanger: {
+    color: '#FF3B30',
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 16,
+  },
+  input: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    height: 48,
+    fontSize: 16,
+    color: '#1C1C1E',
+    marginTop: 12,
+  },
+  inputMultiline: {
+    height: 96,
+    paddingTop: 12,
+    textAlignVertical: 'top',
+  },
+  routeError: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  rideErrorRow: {
+    flexDirection: 'row',
+    alignSelf: 'stretch',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  rideErrorText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#FF3B30',
+    marginRight: 8,
+  },
+  exportRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginTop: 8,
+  },
+  exportButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  exportButtonText: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#007AFF',
+  },
+  discardButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginTop: 4,
+  },
+  discardButtonText: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#FF3B30',
+  },
   errorContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -159,4 +879,4 @@ const styles = StyleSheet.create({
     color: '#FF3B30',
     textAlign: 'center',
   },
-});
\ No newline at end of file
+});
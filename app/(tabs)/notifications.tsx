@@ -1,13 +1,14 @@
 import { View, Text, StyleSheet, FlatList, Image, TouchableOpacity, RefreshControl } from 'react-native';
 import { useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabase';
-import { Heart, MessageCircle, Users, CornerDownRight } from 'lucide-react-native';
+import { Heart, MessageCircle, Users, CornerDownRight, Calendar, AtSign } from 'lucide-react-native';
 import { useRouter } from 'expo-router';
 import Animated, { FadeIn } from 'react-native-reanimated';
+import { useAuth } from '@/components/AuthProvider';
 
 interface Notification {
   id: string;
-  type: 'like' | 'comment' | 'follow' | 'comment_like' | 'reply';
+  type: 'like' | 'comment' | 'follow' | 'comment_like' | 'reply' | 'event' | 'mention';
   data: any;
   read: boolean;
   created_at: string;
@@ -21,6 +22,7 @@ export default function NotificationsScreen() {
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [refreshing, setRefreshing] = useState(false);
   const router = useRouter();
+  const { user } = useAuth();
 
   useEffect(() => {
     fetchNotifications();
@@ -28,7 +30,6 @@ export default function NotificationsScreen() {
 
   async function fetchNotifications() {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
       const { data, error } = await supabase
@@ -98,6 +99,20 @@ export default function NotificationsScreen() {
           text: `${user.full_name} ответил на ваш комментарий`,
           onPress: () => router.push(`/post/${notification.data.post_id}`),
         };
+      case 'event':
+        return {
+          icon: <Calendar size={24} color="#FF9500" />,
+          text: `Новая покатушка: ${notification.data.title}`,
+          onPress: () => router.push(`/event/${notification.data.event_id}`),
+        };
+      case 'mention':
+        return {
+          icon: <AtSign size={24} color="#007AFF" />,
+          text: `${notification.data.author_name || 'Кто-то'} упомянул вас ${
+            notification.data.source === 'posts' ? 'в посте' : 'в комментарии'
+          }`,
+          onPress: () => router.push(`/post/${notification.data.post_id}`),
+        };
       default:
         return {
           icon: null,
@@ -173,7 +188,7 @@ export default function NotificationsScreen() {
           <View style={styles.emptyState}>
             <Text style={styles.emptyStateTitle}>Нет уведомлений</Text>
             <Text style={styles.emptyStateText}>
-              Здесь будут появляться уведомления о лайках, комментариях и новых подписчиках
+              Здесь будут появляться уведомления о лайках, комментариях, упоминаниях и новых подписчиках
             </Text>
           </View>
         }
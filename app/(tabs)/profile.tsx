@@ -1,18 +1,28 @@
-import { View, Text, StyleSheet, Image, TouchableOpacity, ScrollView, TextInput, Modal, ActivityIndicator, Platform, Share, FlatList } from 'react-native';
-import { useState, useEffect, useMemo } from 'react';
+import { View, Text, StyleSheet, Image, TouchableOpacity, ScrollView, TextInput, Modal, ActivityIndicator, Share, FlatList } from 'react-native';
+import { useState, useEffect, useMemo, useCallback } from 'react';
 import { supabase } from '@/lib/supabase';
-import { Camera, CreditCard as Edit3, MapPin, X, Plus, Check, Share2, MessageCircle, Award, ChevronRight } from 'lucide-react-native';
+import { Camera, CreditCard as Edit3, MapPin, X, Plus, Check, Share2, MessageCircle, Award, ChevronRight, Bookmark, Grid } from 'lucide-react-native';
 import * as ImagePicker from 'expo-image-picker';
-import { Stack, useRouter } from 'expo-router';
+import { Stack, useFocusEffect, useRouter } from 'expo-router';
 import Animated, { FadeIn, FadeInDown } from 'react-native-reanimated';
+import { usePresenceSession } from '@/hooks/usePresenceSession';
+import { uploadImage } from '@/lib/upload';
+import { BookmarkCollection, SavedPost, deleteCollection, fetchCollections, fetchSavedPosts } from '@/lib/bookmarks';
+import PostActionsSheet from '@/components/PostActionsSheet';
+import { USERNAME_PATTERN } from '@/lib/richText';
+import { OAUTH_PROVIDERS, OAuthProvider, fetchIdentities, linkProvider, linkTelegram } from '@/lib/auth';
+import { useAuth } from '@/components/AuthProvider';
 
 interface Profile {
   id: string;
   email: string;
   full_name: string | null;
+  username: string | null;
   avatar_url: string | null;
+  avatar_thumbnail_url: string | null;
   bio: string | null;
   sports: string[] | null;
+  telegram_id: number | null;
   followers_count: number;
   following_count: number;
   posts_count: number;
@@ -22,6 +32,7 @@ interface Post {
   id: string;
   content: string;
   image_url: string | null;
+  thumbnail_url: string | null;
   likes: number;
   created_at: string;
 }
@@ -60,6 +71,18 @@ export default function ProfileScreen() {
   const [followers, setFollowers] = useState<Profile[]>([]);
   const [following, setFollowing] = useState<Profile[]>([]);
   const [showMessagePreview, setShowMessagePreview] = useState(false);
+  const [activeTab, setActiveTab] = useState<'posts' | 'saved'>('posts');
+  const [collections, setCollections] = useState<BookmarkCollection[]>([]);
+  const [selectedCollection, setSelectedCollection] = useState<string | null>(null);
+  const [savedPosts, setSavedPosts] = useState<SavedPost[]>([]);
+  const [loadingSaved, setLoadingSaved] = useState(false);
+  const [actionsPostId, setActionsPostId] = useState<string | null>(null);
+  const [linkedProviders, setLinkedProviders] = useState<string[]>([]);
+  const [linkingProvider, setLinkingProvider] = useState<OAuthProvider | 'telegram' | null>(null);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const presence = usePresenceSession();
+  const router = useRouter();
+  const { user, refreshProfile } = useAuth();
 
   const completionPercentage = useMemo(() => {
     if (!profile) return 0;
@@ -77,12 +100,18 @@ export default function ProfileScreen() {
 
   useEffect(() => {
     fetchProfile();
-    fetchUserPosts();
+    fetchLinkedProviders();
   }, []);
 
+  // Refetch on focus so edited posts show their new image and text
+  useFocusEffect(
+    useCallback(() => {
+      fetchUserPosts();
+    }, [])
+  );
+
   async function fetchProfile() {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('No user found');
 
       // First, get the basic profile data
@@ -137,12 +166,11 @@ export default function ProfileScreen() {
 
   async function fetchUserPosts() {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
       const { data: posts, error: postsError } = await supabase
         .from('posts')
-        .select('id, content, image_url, created_at')
+        .select('id, content, image_url, thumbnail_url, created_at')
         .eq('user_id', user.id)
         .order('created_at', { ascending: false });
 
@@ -170,9 +198,41 @@ export default function ProfileScreen() {
     }
   }
 
+  function removePost(postId: string) {
+    setUserPosts(posts => posts.filter(post => post.id !== postId));
+    setSavedPosts(posts => posts.filter(post => post.id !== postId));
+    setProfile(profile => profile && { ...profile, posts_count: Math.max(profile.posts_count - 1, 0) });
+  }
+
+  useEffect(() => {
+    if (activeTab === 'saved') {
+      fetchSaved();
+    }
+  }, [activeTab, selectedCollection]);
+
+  async function fetchSaved() {
+    setLoadingSaved(true);
+
+    const [{ collections }, { posts }] = await Promise.all([
+      fetchCollections(),
+      fetchSavedPosts(selectedCollection ?? undefined),
+    ]);
+
+    setCollections(collections);
+    setSavedPosts(posts);
+    setLoadingSaved(false);
+  }
+
+  async function removeCollection(collectionId: string) {
+    const { error } = await deleteCollection(collectionId);
+    if (error) return;
+
+    setCollections(collections.filter(c => c.id !== collectionId));
+    setSelectedCollection(null);
+  }
+
   async function fetchFollowers() {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
       const { data, error } = await supabase
@@ -196,7 +256,6 @@ export default function ProfileScreen() {
 
   async function fetchFollowing() {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
       const { data, error } = await supabase
@@ -220,7 +279,7 @@ export default function ProfileScreen() {
 
   async function pickImage() {
     try {
-      const result = await ImagePicker.launchImagePickerAsync({
+      const result = await ImagePicker.launchImageLibraryAsync({
         mediaTypes: ImagePicker.MediaTypeOptions.Images,
         allowsEditing: true,
         aspect: [1, 1],
@@ -228,34 +287,13 @@ export default function ProfileScreen() {
       });
 
       if (!result.canceled) {
-        const uri = result.assets[0].uri;
-        
-        const fileName = `avatar-${Date.now()}.jpg`;
-        
-        let file;
-        if (Platform.OS === 'web') {
-          const response = await fetch(uri);
-          const blob = await response.blob();
-          file = new File([blob], fileName, { type: 'image/jpeg' });
-        } else {
-          file = {
-            uri,
-            name: fileName,
-            type: 'image/jpeg',
-          };
-        }
+        const { url, thumbnailUrl } = await uploadImage(
+          'avatars',
+          `avatar-${Date.now()}`,
+          result.assets[0].uri
+        );
 
-        const { data, error: uploadError } = await supabase.storage
-          .from('avatars')
-          .upload(fileName, file);
-
-        if (uploadError) throw uploadError;
-
-        const { data: { publicUrl } } = supabase.storage
-          .from('avatars')
-          .getPublicUrl(fileName);
-
-        setEditedProfile({ ...editedProfile, avatar_url: publicUrl });
+        setEditedProfile({ ...editedProfile, avatar_url: url, avatar_thumbnail_url: thumbnailUrl });
       }
     } catch (error) {
       console.error('Error uploading image:', error);
@@ -263,9 +301,53 @@ export default function ProfileScreen() {
     }
   }
 
+  async function fetchLinkedProviders() {
+    const { identities } = await fetchIdentities();
+    setLinkedProviders(identities.map(identity => identity.provider));
+  }
+
+  async function handleLinkTelegram() {
+    setLinkingProvider('telegram');
+    setLinkError(null);
+
+    const { linked, error } = await linkTelegram();
+    if (error) {
+      setLinkError(error.message.includes('already linked')
+        ? 'Этот Telegram уже привязан к другому аккаунту'
+        : 'Не удалось привязать Telegram');
+    } else if (linked) {
+      // Telegram may have filled in the name, avatar or username
+      await fetchProfile();
+    }
+
+    setLinkingProvider(null);
+  }
+
+  async function handleLinkProvider(provider: OAuthProvider) {
+    setLinkingProvider(provider);
+    setLinkError(null);
+
+    const { linked, error } = await linkProvider(provider);
+    if (error) {
+      setLinkError(error.message.includes('already linked')
+        ? `Этот аккаунт ${OAUTH_PROVIDERS[provider]} уже привязан к другому профилю`
+        : `Не удалось привязать ${OAUTH_PROVIDERS[provider]}`);
+    } else if (linked) {
+      await fetchLinkedProviders();
+    }
+
+    setLinkingProvider(null);
+  }
+
   async function saveProfile() {
     if (!profile?.id) return;
 
+    const username = editedProfile.username?.trim() || null;
+    if (username && !USERNAME_PATTERN.test(username)) {
+      setError('Имя пользователя: от 3 до 30 латинских букв, цифр или _');
+      return;
+    }
+
     setSaving(true);
     setError(null);
 
@@ -274,8 +356,10 @@ export default function ProfileScreen() {
         .from('profiles')
         .update({
           full_name: editedProfile.full_name,
+          username,
           bio: editedProfile.bio,
           avatar_url: editedProfile.avatar_url,
+          avatar_thumbnail_url: editedProfile.avatar_thumbnail_url,
           sports: editedProfile.sports,
           updated_at: new Date().toISOString(),
         })
@@ -283,11 +367,14 @@ export default function ProfileScreen() {
 
       if (error) throw error;
 
-      setProfile({ ...profile, ...editedProfile });
+      setProfile({ ...profile, ...editedProfile, username });
+      refreshProfile();
       setIsEditing(false);
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error saving profile:', error);
-      setError('Ошибка при сохранении профиля');
+      setError(error?.code === '23505'
+        ? 'Это имя пользователя уже занято'
+        : 'Ошибка при сохранении профиля');
     } finally {
       setSaving(false);
     }
@@ -315,9 +402,13 @@ export default function ProfileScreen() {
   };
 
   const renderPost = ({ item }: { item: Post }) => (
-    <TouchableOpacity style={styles.postCard}>
+    <TouchableOpacity
+      style={styles.postCard}
+      onPress={() => router.push(`/post/${item.id}`)}
+      onLongPress={activeTab === 'posts' ? () => setActionsPostId(item.id) : undefined}
+    >
       {item.image_url ? (
-        <Image source={{ uri: item.image_url }} style={styles.postImage} />
+        <Image source={{ uri: item.thumbnail_url || item.image_url }} style={styles.postImage} />
       ) : (
         <View style={styles.postContent}>
           <Text numberOfLines={4} style={styles.postText}>{item.content}</Text>
@@ -427,6 +518,39 @@ export default function ProfileScreen() {
             <Text style={styles.name}>{profile?.full_name || 'Аноним'}</Text>
           )}
 
+          {isEditing ? (
+            <TextInput
+              style={styles.usernameInput}
+              value={editedProfile.username || ''}
+              onChangeText={(text) => setEditedProfile({ ...editedProfile, username: text.replace(/^@/, '') })}
+              placeholder="Имя пользователя для @упоминаний"
+              placeholderTextColor="#8E8E93"
+              autoCapitalize="none"
+              autoCorrect={false}
+              maxLength={30}
+            />
+          ) : profile?.username && (
+            <Text style={styles.username}>@{profile.username}</Text>
+          )}
+
+          {presence.isSupported && !isEditing && (
+            <TouchableOpacity
+              style={[styles.presenceButton, presence.isActive && styles.presenceButtonActive]}
+              onPress={presence.isActive ? presence.stop : presence.start}
+              disabled={presence.isUpdating}
+            >
+              {presence.isActive && <View style={styles.presenceDot} />}
+              <Text style={[styles.presenceText, presence.isActive && styles.presenceTextActive]}>
+                {presence.isActive
+                  ? `Катаюсь сейчас с ${new Date(presence.startedAt!).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' })} · Закончить`
+                  : 'Катаюсь сейчас'}
+              </Text>
+            </TouchableOpacity>
+          )}
+          {presence.error && (
+            <Text style={styles.presenceError}>{presence.error}</Text>
+          )}
+
           <View style={styles.stats}>
             <TouchableOpacity 
               style={styles.statItem}
@@ -538,16 +662,123 @@ export default function ProfileScreen() {
 
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
-            <Text style={styles.sectionTitle}>Posts</Text>
+            <Text style={styles.sectionTitle}>Способы входа</Text>
+          </View>
+          <View style={styles.loginMethod}>
+            <Text style={styles.loginMethodName}>Telegram</Text>
+            {profile?.telegram_id ? (
+              <Text style={styles.loginMethodLinked}>Привязан</Text>
+            ) : linkingProvider === 'telegram' ? (
+              <ActivityIndicator color="#007AFF" />
+            ) : (
+              <TouchableOpacity onPress={handleLinkTelegram} disabled={!!linkingProvider}>
+                <Text style={styles.loginMethodLink}>Привязать</Text>
+              </TouchableOpacity>
+            )}
           </View>
-          <FlatList
-            data={userPosts}
-            renderItem={renderPost}
-            keyExtractor={(item) => item.id}
-            numColumns={2}
-            scrollEnabled={false}
-            contentContainerStyle={styles.postsGrid}
-          />
+          {(Object.keys(OAUTH_PROVIDERS) as OAuthProvider[]).map((provider) => (
+            <View key={provider} style={styles.loginMethod}>
+              <Text style={styles.loginMethodName}>{OAUTH_PROVIDERS[provider]}</Text>
+              {linkedProviders.includes(provider) ? (
+                <Text style={styles.loginMethodLinked}>Привязан</Text>
+              ) : linkingProvider === provider ? (
+                <ActivityIndicator color="#007AFF" />
+              ) : (
+                <TouchableOpacity onPress={() => handleLinkProvider(provider)} disabled={!!linkingProvider}>
+                  <Text style={styles.loginMethodLink}>Привязать</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+          {linkError && (
+            <Text style={styles.linkError}>{linkError}</Text>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.tabs}>
+            <TouchableOpacity
+              style={[styles.tab, activeTab === 'posts' && styles.tabActive]}
+              onPress={() => setActiveTab('posts')}
+            >
+              <Grid size={18} color={activeTab === 'posts' ? '#007AFF' : '#8E8E93'} />
+              <Text style={[styles.tabText, activeTab === 'posts' && styles.tabTextActive]}>Посты</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.tab, activeTab === 'saved' && styles.tabActive]}
+              onPress={() => setActiveTab('saved')}
+            >
+              <Bookmark size={18} color={activeTab === 'saved' ? '#007AFF' : '#8E8E93'} />
+              <Text style={[styles.tabText, activeTab === 'saved' && styles.tabTextActive]}>Сохранённое</Text>
+            </TouchableOpacity>
+          </View>
+
+          {activeTab === 'saved' && collections.length > 0 && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.collections}
+            >
+              <TouchableOpacity
+                style={[styles.collectionChip, !selectedCollection && styles.collectionChipActive]}
+                onPress={() => setSelectedCollection(null)}
+              >
+                <Text style={[styles.collectionChipText, !selectedCollection && styles.collectionChipTextActive]}>
+                  Все
+                </Text>
+              </TouchableOpacity>
+              {collections.map((collection) => {
+                const isSelected = selectedCollection === collection.id;
+
+                return (
+                  <TouchableOpacity
+                    key={collection.id}
+                    style={[styles.collectionChip, isSelected && styles.collectionChipActive]}
+                    onPress={() => setSelectedCollection(collection.id)}
+                  >
+                    <Text style={[styles.collectionChipText, isSelected && styles.collectionChipTextActive]}>
+                      {collection.name}
+                    </Text>
+                    {isSelected && (
+                      <TouchableOpacity
+                        onPress={() => removeCollection(collection.id)}
+                        style={styles.removeCollectionButton}
+                      >
+                        <X size={14} color="white" />
+                      </TouchableOpacity>
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          )}
+
+          {activeTab === 'posts' ? (
+            <FlatList
+              data={userPosts}
+              renderItem={renderPost}
+              keyExtractor={(item) => item.id}
+              numColumns={2}
+              scrollEnabled={false}
+              contentContainerStyle={styles.postsGrid}
+            />
+          ) : loadingSaved ? (
+            <ActivityIndicator color="#007AFF" style={styles.savedLoader} />
+          ) : (
+            <FlatList
+              data={savedPosts}
+              renderItem={renderPost}
+              keyExtractor={(item) => item.id}
+              numColumns={2}
+              scrollEnabled={false}
+              contentContainerStyle={styles.postsGrid}
+              ListEmptyComponent={
+                <Text style={styles.savedEmptyText}>
+                  Нажмите на закладку у поста, чтобы сохранить его. Долгое нажатие — сохранить в коллекцию.
+                </Text>
+              }
+            />
+          )}
         </View>
 
         <TouchableOpacity
@@ -688,6 +919,12 @@ export default function ProfileScreen() {
           </View>
         </Modal>
       </ScrollView>
+
+      <PostActionsSheet
+        postId={actionsPostId}
+        onClose={() => setActionsPostId(null)}
+        onDeleted={removePost}
+      />
     </>
   );
 }
@@ -757,6 +994,55 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     marginBottom: 8,
   },
+  username: {
+    fontSize: 15,
+    color: '#8E8E93',
+    marginTop: -4,
+    marginBottom: 8,
+  },
+  usernameInput: {
+    fontSize: 15,
+    marginBottom: 8,
+    textAlign: 'center',
+    width: '100%',
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: '#F2F2F7',
+  },
+  presenceButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#34C759',
+    marginBottom: 12,
+  },
+  presenceButtonActive: {
+    backgroundColor: '#34C759',
+  },
+  presenceDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: 'white',
+    marginRight: 6,
+  },
+  presenceText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#34C759',
+  },
+  presenceTextActive: {
+    color: 'white',
+  },
+  presenceError: {
+    fontSize: 13,
+    color: '#FF3B30',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
   nameInput: {
     fontSize: 24,
     fontWeight: 'bold',
@@ -800,6 +1086,30 @@ const styles = StyleSheet.create({
     padding: 20,
     marginTop: 16,
   },
+  loginMethod: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  loginMethodName: {
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  loginMethodLinked: {
+    fontSize: 15,
+    color: '#8E8E93',
+  },
+  loginMethodLink: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  linkError: {
+    color: '#FF3B30',
+    fontSize: 14,
+    marginTop: 8,
+  },
   sectionHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -898,6 +1208,68 @@ const styles = StyleSheet.create({
   postsGrid: {
     marginTop: 8,
   },
+  tabs: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+    marginBottom: 8,
+  },
+  tab: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  tabActive: {
+    borderBottomColor: '#007AFF',
+  },
+  tabText: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#8E8E93',
+    marginLeft: 6,
+  },
+  tabTextActive: {
+    color: '#007AFF',
+  },
+  collections: {
+    flexGrow: 0,
+    marginVertical: 8,
+  },
+  collectionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F2F2F7',
+    marginRight: 8,
+  },
+  collectionChipActive: {
+    backgroundColor: '#007AFF',
+  },
+  collectionChipText: {
+    fontSize: 14,
+    color: '#1C1C1E',
+  },
+  collectionChipTextActive: {
+    color: 'white',
+  },
+  removeCollectionButton: {
+    marginLeft: 6,
+  },
+  savedLoader: {
+    marginVertical: 24,
+  },
+  savedEmptyText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
   postCard: {
     flex: 1,
     margin: 4,
@@ -4,6 +4,8 @@ import { supabase } from '@/lib/supabase';
 import { MapPin, Calendar, Users as UsersIcon, Search, X } from 'lucide-react-native';
 import { useRouter } from 'expo-router';
 import Animated, { FadeInDown } from 'react-native-reanimated';
+import { ONLINE_WINDOW_MS } from '@/lib/presence';
+import { useAuth } from '@/components/AuthProvider';
 
 interface Profile {
   id: string;
@@ -29,6 +31,7 @@ export default function RollersScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const router = useRouter();
+  const { user } = useAuth();
 
   useEffect(() => {
     fetchProfiles();
@@ -56,7 +59,6 @@ export default function RollersScreen() {
 
   async function fetchProfiles() {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
       const { data, error } = await supabase
@@ -71,14 +73,14 @@ export default function RollersScreen() {
 
       if (error) throw error;
 
-      const thirtyMinutesAgo = new Date(Date.now() - 30 * 60000).toISOString();
+      const onlineSince = new Date(Date.now() - ONLINE_WINDOW_MS).toISOString();
 
       const profilesWithCounts = data.map(profile => ({
         ...profile,
         location: profile.location?.[0],
         followers_count: profile.followers[0]?.count || 0,
         posts_count: profile.posts[0]?.count || 0,
-        is_online: profile.location?.[0]?.last_updated > thirtyMinutesAgo,
+        is_online: profile.location?.[0]?.last_updated > onlineSince,
       }));
 
       setProfiles(profilesWithCounts);
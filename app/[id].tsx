@@ -3,6 +3,7 @@ import { useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabase';
 import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
 import { ArrowLeft, MapPin, Calendar, Users as UsersIcon, MessageCircle } from 'lucide-react-native';
+import { useAuth } from '@/components/AuthProvider';
 
 interface Profile {
   id: string;
@@ -33,32 +34,17 @@ export default function UserProfileScreen() {
   const [posts, setPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
   const [followLoading, setFollowLoading] = useState(false);
-  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const router = useRouter();
+  const { user } = useAuth();
+  const currentUserId = user?.id ?? null;
 
   useEffect(() => {
-    checkUser();
+    fetchProfile();
+    fetchUserPosts();
   }, []);
 
-  async function checkUser() {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        router.replace('/auth');
-        return;
-      }
-      setCurrentUserId(user.id);
-      fetchProfile();
-      fetchUserPosts();
-    } catch (error) {
-      console.error('Error checking user:', error);
-      router.replace('/auth');
-    }
-  }
-
   async function fetchProfile() {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
       // First, fetch basic profile data
@@ -151,7 +137,6 @@ export default function UserProfileScreen() {
 
     setFollowLoading(true);
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
       if (profile.is_following) {
@@ -1,31 +1,38 @@
-import { useEffect, useState } from 'react';
-import { Stack } from 'expo-router';
+import { useEffect, useRef } from 'react';
+import { Href, Stack, usePathname, useRouter, useSegments } from 'expo-router';
 import * as SplashScreen from 'expo-splash-screen';
 import { StatusBar } from 'expo-status-bar';
 import { useFrameworkReady } from '@/hooks/useFrameworkReady';
-import { supabase } from '@/lib/supabase';
-import { Session } from '@supabase/supabase-js';
+import AuthProvider, { useAuth } from '@/components/AuthProvider';
 import { View, ActivityIndicator } from 'react-native';
+// Registers the background location task for "I'm skating now" sessions
+import '@/lib/presence';
 
 // Prevent the splash screen from auto-hiding
 SplashScreen.preventAutoHideAsync();
 
+// Only for signed-out users; signed-in users are sent on into the app
+const AUTH_ROUTES = ['auth', 'forgot-password', 'magic-link', 'verify-email'];
+// Open to everyone: email and OAuth links land here with or without a session
+const PUBLIC_ROUTES = ['auth-callback', 'reset-password', 'telegram-auth'];
+
 export default function RootLayout() {
-  const [session, setSession] = useState<Session | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  
   useFrameworkReady();
 
-  useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setSession(session);
-      setIsLoading(false);
-    });
+  return (
+    <AuthProvider>
+      <RootNavigator />
+    </AuthProvider>
+  );
+}
 
-    supabase.auth.onAuthStateChange((_event, session) => {
-      setSession(session);
-    });
-  }, []);
+function RootNavigator() {
+  const { session, isLoading } = useAuth();
+  const segments = useSegments();
+  const pathname = usePathname();
+  const router = useRouter();
+  // A deep link opened while signed out, reopened after signing in
+  const pendingPath = useRef<Href | null>(null);
 
   useEffect(() => {
     if (!isLoading) {
@@ -34,6 +41,24 @@ export default function RootLayout() {
     }
   }, [isLoading]);
 
+  useEffect(() => {
+    if (isLoading) return;
+
+    const route = segments[0] ?? '';
+    const isAuthRoute = AUTH_ROUTES.includes(route);
+    const isPublicRoute = PUBLIC_ROUTES.includes(route);
+
+    if (!session && !isAuthRoute && !isPublicRoute) {
+      // usePathname() only reports routes that exist
+      pendingPath.current = pathname as Href;
+      router.replace('/auth');
+    } else if (session && isAuthRoute) {
+      const path = pendingPath.current ?? '/(tabs)';
+      pendingPath.current = null;
+      router.replace(path);
+    }
+  }, [session, isLoading, segments, pathname, router]);
+
   if (isLoading) {
     return (
       <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: '#fff' }}>
@@ -44,30 +69,27 @@ export default function RootLayout() {
 
   return (
     <>
-      <Stack screenOptions={{ 
+      <Stack screenOptions={{
         headerShown: false,
         animation: 'fade',
         contentStyle: { backgroundColor: '#fff' },
       }}>
-        {!session ? (
-          <Stack.Screen 
-            name="auth" 
-            options={{ 
-              headerShown: false,
-              animation: 'fade',
-            }} 
-          />
-        ) : (
-          <Stack.Screen 
-            name="(tabs)" 
-            options={{ 
-              headerShown: false,
-              animation: 'fade',
-            }} 
-          />
-        )}
+        <Stack.Screen
+          name="auth"
+          options={{
+            headerShown: false,
+            animation: 'fade',
+          }}
+        />
+        <Stack.Screen
+          name="(tabs)"
+          options={{
+            headerShown: false,
+            animation: 'fade',
+          }}
+        />
       </Stack>
       <StatusBar style="auto" />
     </>
   );
-}
\ No newline at end of file
+}
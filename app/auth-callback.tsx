@@ -0,0 +1,65 @@
+import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity } from 'react-native';
+import { useState, useEffect } from 'react';
+import * as Linking from 'expo-linking';
+import * as WebBrowser from 'expo-web-browser';
+import { useRouter } from 'expo-router';
+import { completeAuthRedirect } from '@/lib/auth';
+
+// On web the redirect lands in the popup, which hands the URL back to the
+// opener; the opener exchanges the code
+const handledByOpener = WebBrowser.maybeCompleteAuthSession().type === 'success';
+
+// Target of `myapp://auth-callback` redirects (OAuth, magic link, email
+// confirmation) when they are opened as a deep link
+export default function AuthCallbackScreen() {
+  const url = Linking.useURL();
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!url || handledByOpener) return;
+
+    completeAuthRedirect(url)
+      .then(() => router.replace('/(tabs)'))
+      .catch((error) => {
+        console.error('OAuth callback error:', error);
+        setError('Не удалось войти. Попробуйте ещё раз.');
+      });
+  }, [url, router]);
+
+  return (
+    <View style={styles.container}>
+      {error ? (
+        <>
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity onPress={() => router.replace('/auth')}>
+            <Text style={styles.linkText}>Вернуться ко входу</Text>
+          </TouchableOpacity>
+        </>
+      ) : (
+        <ActivityIndicator size="large" color="#007AFF" />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    backgroundColor: '#fff',
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#FF3B30',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  linkText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+});
@@ -1,7 +1,8 @@
-import { View, Text, StyleSheet, Image, TextInput, TouchableOpacity, KeyboardAvoidingView, Platform, ActivityIndicator, Dimensions } from 'react-native';
+import { View, Text, StyleSheet, Image, TextInput, TouchableOpacity, KeyboardAvoidingView, Platform, ActivityIndicator, Dimensions, ScrollView } from 'react-native';
 import { useState } from 'react';
-import { signIn, signUp } from '@/lib/auth';
-import { Mail, Lock } from 'lucide-react-native';
+import { useRouter } from 'expo-router';
+import { OAUTH_PROVIDERS, OAuthProvider, signIn, signInWithProvider, signInWithTelegram, signUp } from '@/lib/auth';
+import { Mail, Lock, Send } from 'lucide-react-native';
 import Animated, { FadeIn, FadeInDown } from 'react-native-reanimated';
 
 const { width } = Dimensions.get('window');
@@ -12,6 +13,8 @@ export default function AuthScreen() {
   const [password, setPassword] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [unconfirmed, setUnconfirmed] = useState(false);
+  const router = useRouter();
 
   async function handleSubmit() {
     if (!email || !password) {
@@ -26,6 +29,7 @@ export default function AuthScreen() {
 
     setLoading(true);
     setError(null);
+    setUnconfirmed(false);
 
     try {
       const { error } = isLogin 
@@ -35,6 +39,7 @@ export default function AuthScreen() {
       if (error) {
         if (error.message.includes('Email not confirmed')) {
           setError('Пожалуйста, подтвердите email');
+          setUnconfirmed(true);
         } else if (error.message.includes('Invalid login credentials')) {
           setError('Неверный email или пароль');
         } else if (error.message.includes('User already registered')) {
@@ -51,101 +56,183 @@ export default function AuthScreen() {
     }
   }
 
+  async function handleTelegram() {
+    setLoading(true);
+    setError(null);
+
+    const { error } = await signInWithTelegram();
+    if (error) {
+      setError('Не удалось войти через Telegram');
+    }
+
+    setLoading(false);
+  }
+
+  async function handleProvider(provider: OAuthProvider) {
+    setLoading(true);
+    setError(null);
+
+    const { error } = await signInWithProvider(provider);
+    if (error) {
+      setError(`Не удалось войти через ${OAUTH_PROVIDERS[provider]}`);
+    }
+
+    setLoading(false);
+  }
+
   return (
     <KeyboardAvoidingView 
       behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
       style={styles.container}
     >
-      <Animated.View 
-        entering={FadeIn}
-        style={styles.header}
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
       >
-        <Image
-          source={{ uri: 'https://images.unsplash.com/photo-1599058917765-a780eda07a3e?w=800' }}
-          style={styles.headerImage}
-        />
-        <View style={styles.overlay} />
-        <Animated.Text 
-          entering={FadeInDown.delay(200)}
-          style={styles.title}
+        <Animated.View 
+          entering={FadeIn}
+          style={styles.header}
         >
-          РоллерМейт
-        </Animated.Text>
-        <Animated.Text 
-          entering={FadeInDown.delay(400)}
-          style={styles.subtitle}
+          <Image
+            source={{ uri: 'https://images.unsplash.com/photo-1599058917765-a780eda07a3e?w=800' }}
+            style={styles.headerImage}
+          />
+          <View style={styles.overlay} />
+          <Animated.Text 
+            entering={FadeInDown.delay(200)}
+            style={styles.title}
+          >
+            РоллерМейт
+          </Animated.Text>
+          <Animated.Text 
+            entering={FadeInDown.delay(400)}
+            style={styles.subtitle}
+          >
+            Общайтесь с роллерами рядом с вами
+          </Animated.Text>
+        </Animated.View>
+
+        <Animated.View 
+          entering={FadeInDown.delay(600)}
+          style={styles.form}
         >
-          Общайтесь с роллерами рядом с вами
-        </Animated.Text>
-      </Animated.View>
+          {error && (
+            <Animated.View 
+              entering={FadeIn}
+              style={styles.errorContainer}
+            >
+              <Text style={styles.errorText}>{error}</Text>
+              {unconfirmed && (
+                <TouchableOpacity
+                  onPress={() => router.push({ pathname: '/verify-email', params: { email, sent: 'false' } })}
+                  style={styles.resendButton}
+                >
+                  <Text style={styles.resendButtonText}>Отправить письмо ещё раз</Text>
+                </TouchableOpacity>
+              )}
+            </Animated.View>
+          )}
 
-      <Animated.View 
-        entering={FadeInDown.delay(600)}
-        style={styles.form}
-      >
-        {error && (
-          <Animated.View 
-            entering={FadeIn}
-            style={styles.errorContainer}
+          <View style={styles.inputContainer}>
+            <Mail size={20} color="#8E8E93" style={styles.inputIcon} />
+            <TextInput
+              style={styles.input}
+              placeholder="Email"
+              value={email}
+              onChangeText={setEmail}
+              autoCapitalize="none"
+              keyboardType="email-address"
+              editable={!loading}
+              placeholderTextColor="#8E8E93"
+            />
+          </View>
+
+          <View style={styles.inputContainer}>
+            <Lock size={20} color="#8E8E93" style={styles.inputIcon} />
+            <TextInput
+              style={styles.input}
+              placeholder="Пароль"
+              value={password}
+              onChangeText={setPassword}
+              secureTextEntry
+              editable={!loading}
+              placeholderTextColor="#8E8E93"
+            />
+          </View>
+
+          {isLogin && (
+            <View style={styles.loginLinks}>
+              <TouchableOpacity
+                onPress={() => router.push({ pathname: '/magic-link', params: { email } })}
+                disabled={loading}
+              >
+                <Text style={[styles.loginLinkText, loading && styles.textDisabled]}>Войти по ссылке</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => router.push({ pathname: '/forgot-password', params: { email } })}
+                disabled={loading}
+              >
+                <Text style={[styles.loginLinkText, loading && styles.textDisabled]}>Забыли пароль?</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <TouchableOpacity
+            style={[styles.button, loading && styles.buttonDisabled]}
+            onPress={handleSubmit}
+            disabled={loading}
           >
-            <Text style={styles.errorText}>{error}</Text>
-          </Animated.View>
-        )}
+            {loading ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <Text style={styles.buttonText}>
+                {isLogin ? 'Войти' : 'Зарегистрироваться'}
+              </Text>
+            )}
+          </TouchableOpacity>
 
-        <View style={styles.inputContainer}>
-          <Mail size={20} color="#8E8E93" style={styles.inputIcon} />
-          <TextInput
-            style={styles.input}
-            placeholder="Email"
-            value={email}
-            onChangeText={setEmail}
-            autoCapitalize="none"
-            keyboardType="email-address"
-            editable={!loading}
-            placeholderTextColor="#8E8E93"
-          />
-        </View>
+          <View style={styles.divider}>
+            <View style={styles.dividerLine} />
+            <Text style={styles.dividerText}>или</Text>
+            <View style={styles.dividerLine} />
+          </View>
 
-        <View style={styles.inputContainer}>
-          <Lock size={20} color="#8E8E93" style={styles.inputIcon} />
-          <TextInput
-            style={styles.input}
-            placeholder="Пароль"
-            value={password}
-            onChangeText={setPassword}
-            secureTextEntry
-            editable={!loading}
-            placeholderTextColor="#8E8E93"
-          />
-        </View>
+          <TouchableOpacity
+            style={[styles.telegramButton, loading && styles.buttonDisabled]}
+            onPress={handleTelegram}
+            disabled={loading}
+          >
+            <Send size={20} color="white" />
+            <Text style={styles.buttonText}>Войти через Telegram</Text>
+          </TouchableOpacity>
 
-        <TouchableOpacity
-          style={[styles.button, loading && styles.buttonDisabled]}
-          onPress={handleSubmit}
-          disabled={loading}
-        >
-          {loading ? (
-            <ActivityIndicator color="white" />
-          ) : (
-            <Text style={styles.buttonText}>
-              {isLogin ? 'Войти' : 'Зарегистрироваться'}
-            </Text>
-          )}
-        </TouchableOpacity>
+          {(Object.keys(OAUTH_PROVIDERS) as OAuthProvider[]).map((provider) => (
+            <TouchableOpacity
+              key={provider}
+              style={[styles.providerButton, loading && styles.buttonDisabled]}
+              onPress={() => handleProvider(provider)}
+              disabled={loading}
+            >
+              <Text style={styles.providerButtonText}>
+                Войти через {OAUTH_PROVIDERS[provider]}
+              </Text>
+            </TouchableOpacity>
+          ))}
 
-        <TouchableOpacity
-          style={styles.switchButton}
-          onPress={() => {
-            setIsLogin(!isLogin);
-            setError(null);
-          }}
-          disabled={loading}
-        >
-          <Text style={[styles.switchButtonText, loading && styles.textDisabled]}>
-            {isLogin ? 'Нет аккаунта? Зарегистрируйтесь' : 'Уже есть аккаунт? Войдите'}
-          </Text>
-        </TouchableOpacity>
-      </Animated.View>
+          <TouchableOpacity
+            style={styles.switchButton}
+            onPress={() => {
+              setIsLogin(!isLogin);
+              setError(null);
+            }}
+            disabled={loading}
+          >
+            <Text style={[styles.switchButtonText, loading && styles.textDisabled]}>
+              {isLogin ? 'Нет аккаунта? Зарегистрируйтесь' : 'Уже есть аккаунт? Войдите'}
+            </Text>
+          </TouchableOpacity>
+        </Animated.View>
+      </ScrollView>
     </KeyboardAvoidingView>
   );
 }
@@ -155,6 +242,9 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#fff',
   },
+  scrollContent: {
+    flexGrow: 1,
+  },
   header: {
     height: 300,
     justifyContent: 'center',
@@ -206,6 +296,26 @@ const styles = StyleSheet.create({
     fontSize: 14,
     textAlign: 'center',
   },
+  resendButton: {
+    marginTop: 8,
+    alignItems: 'center',
+  },
+  resendButtonText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  loginLinks: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: -4,
+    marginBottom: 12,
+  },
+  loginLinkText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '500',
+  },
   inputContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -249,6 +359,45 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  divider: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 24,
+    marginBottom: 16,
+  },
+  dividerLine: {
+    flex: 1,
+    height: 1,
+    backgroundColor: '#E5E5EA',
+  },
+  dividerText: {
+    marginHorizontal: 12,
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  telegramButton: {
+    flexDirection: 'row',
+    backgroundColor: '#229ED9',
+    borderRadius: 12,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+  },
+  providerButton: {
+    borderRadius: 12,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  providerButtonText: {
+    color: '#1C1C1E',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   switchButton: {
     marginTop: 16,
     alignItems: 'center',
@@ -4,6 +4,7 @@ import { supabase } from '@/lib/supabase';
 import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
 import { ArrowLeft, Send } from 'lucide-react-native';
 import Animated, { FadeIn } from 'react-native-reanimated';
+import { useAuth } from '@/components/AuthProvider';
 
 interface Message {
   id: string;
@@ -28,12 +29,13 @@ export default function ChatScreen() {
   const [messageText, setMessageText] = useState('');
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
-  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const flatListRef = useRef<FlatList>(null);
   const router = useRouter();
+  const { user } = useAuth();
+  const currentUserId = user?.id ?? null;
 
   useEffect(() => {
-    checkUser();
+    fetchOtherUser();
     fetchMessages();
     
     // Subscribe to new messages
@@ -56,15 +58,10 @@ export default function ChatScreen() {
     };
   }, [id]);
 
-  async function checkUser() {
+  async function fetchOtherUser() {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        router.replace('/auth');
-        return;
-      }
-      setCurrentUserId(user.id);
-      
+      if (!user) return;
+
       // Fetch other participant's info
       const { data: participants, error: participantsError } = await supabase
         .from('chat_participants')
@@ -82,8 +79,7 @@ export default function ChatScreen() {
       if (participantsError) throw participantsError;
       setOtherUser(participants.user);
     } catch (error) {
-      console.error('Error checking user:', error);
-      router.replace('/auth');
+      console.error('Error fetching chat participant:', error);
     }
   }
 
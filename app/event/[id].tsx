@@ -0,0 +1,371 @@
+import { View, Text, StyleSheet, Image, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
+import { useState, useEffect } from 'react';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { ArrowLeft, Calendar, Gauge, Route as RouteIcon } from 'lucide-react-native';
+import { supabase } from '@/lib/supabase';
+import { MapView, Marker, Polyline } from '@/components/Map';
+import { formatDistance } from '@/lib/geo';
+import { RouteData } from '@/lib/routes';
+import { RideEvent, SKILL_LEVELS, formatEventTime, setAttendance } from '@/lib/events';
+import { useAuth } from '@/components/AuthProvider';
+
+interface EventDetails extends RideEvent {
+  route: {
+    id: string;
+    title: string;
+    route_data: RouteData;
+  } | null;
+}
+
+interface Attendee {
+  user_id: string;
+  user: {
+    full_name: string;
+    avatar_url: string;
+  } | null;
+}
+
+const DEFAULT_AVATAR = 'https://images.unsplash.com/photo-1535713875002-d1d0cf377fde?w=200';
+
+export default function EventScreen() {
+  const { id } = useLocalSearchParams();
+  const [event, setEvent] = useState<EventDetails | null>(null);
+  const [attendees, setAttendees] = useState<Attendee[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+  const { user } = useAuth();
+  const currentUserId = user?.id ?? null;
+
+  useEffect(() => {
+    fetchEvent();
+    fetchAttendees();
+  }, [id]);
+
+  async function fetchEvent() {
+    try {
+      const { data, error } = await supabase
+        .from('events')
+        .select(`
+          *,
+          organizer:profiles(full_name, avatar_url),
+          route:map_routes(id, title, route_data)
+        `)
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      setEvent(data);
+    } catch (error) {
+      console.error('Error fetching event:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function fetchAttendees() {
+    try {
+      const { data, error } = await supabase
+        .from('event_attendees')
+        .select(`
+          user_id,
+          user:profiles(full_name, avatar_url)
+        `)
+        .eq('event_id', id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setAttendees((data as any) || []);
+    } catch (error) {
+      console.error('Error fetching attendees:', error);
+    }
+  }
+
+  async function toggleAttendance() {
+    if (!event) return;
+
+    setUpdating(true);
+    setError(null);
+
+    const { error } = await setAttendance(event.id, !isAttending);
+    if (error) {
+      setError('Не удалось обновить участие');
+    } else {
+      await fetchAttendees();
+    }
+
+    setUpdating(false);
+  }
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  if (!event) {
+    return (
+      <View style={styles.errorContainer}>
+        <Text style={styles.errorText}>Покатушка не найдена</Text>
+      </View>
+    );
+  }
+
+  const isAttending = attendees.some(attendee => attendee.user_id === currentUserId);
+  const isOrganizer = event.organizer_id === currentUserId;
+  const meetingPoint = {
+    latitude: event.meeting_latitude,
+    longitude: event.meeting_longitude,
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: event.title,
+          headerLeft: () => (
+            <TouchableOpacity
+              onPress={() => router.back()}
+              style={{ marginLeft: 16 }}
+            >
+              <ArrowLeft size={24} color="#007AFF" />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <ScrollView style={styles.container}>
+        <MapView
+          style={styles.map}
+          initialRegion={{
+            ...meetingPoint,
+            latitudeDelta: 0.03,
+            longitudeDelta: 0.03,
+          }}
+        >
+          <Marker coordinate={meetingPoint} pinColor="#007AFF" title="Место встречи" />
+          {event.route && (
+            <Polyline
+              coordinates={event.route.route_data.points}
+              strokeColor="#34C759"
+              strokeWidth={4}
+            />
+          )}
+        </MapView>
+
+        <View style={styles.section}>
+          <Text style={styles.title}>{event.title}</Text>
+
+          <View style={styles.infoRow}>
+            <Calendar size={16} color="#8E8E93" />
+            <Text style={styles.infoText}>{formatEventTime(event.starts_at)}</Text>
+          </View>
+          <View style={styles.infoRow}>
+            <Gauge size={16} color="#8E8E93" />
+            <Text style={styles.infoText}>{SKILL_LEVELS[event.skill_level]}</Text>
+          </View>
+          {event.route && (
+            <TouchableOpacity
+              style={styles.infoRow}
+              onPress={() => router.push(`/route/${event.route!.id}`)}
+            >
+              <RouteIcon size={16} color="#007AFF" />
+              <Text style={[styles.infoText, styles.link]}>
+                {event.route.title} · {formatDistance(event.route.route_data.distance_m)}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {event.description && (
+            <Text style={styles.description}>{event.description}</Text>
+          )}
+
+          <TouchableOpacity
+            style={styles.organizer}
+            onPress={() => router.push(`/${event.organizer_id}`)}
+          >
+            <Image
+              source={{ uri: event.organizer?.avatar_url || DEFAULT_AVATAR }}
+              style={styles.organizerAvatar}
+            />
+            <View>
+              <Text style={styles.organizerLabel}>Организатор</Text>
+              <Text style={styles.organizerName}>{event.organizer?.full_name || 'Роллер инкогнито'}</Text>
+            </View>
+          </TouchableOpacity>
+
+          {error && (
+            <Text style={styles.rsvpError}>{error}</Text>
+          )}
+
+          {!isOrganizer && (
+            <TouchableOpacity
+              style={[styles.rsvpButton, isAttending && styles.rsvpButtonLeave]}
+              onPress={toggleAttendance}
+              disabled={updating}
+            >
+              {updating ? (
+                <ActivityIndicator color={isAttending ? '#FF3B30' : 'white'} />
+              ) : (
+                <Text style={[styles.rsvpButtonText, isAttending && styles.rsvpButtonTextLeave]}>
+                  {isAttending ? 'Не пойду' : 'Пойду'}
+                </Text>
+              )}
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Участники · {attendees.length}</Text>
+          {attendees.map((attendee) => (
+            <TouchableOpacity
+              key={attendee.user_id}
+              style={styles.attendee}
+              onPress={() => router.push(`/${attendee.user_id}`)}
+            >
+              <Image
+                source={{ uri: attendee.user?.avatar_url || DEFAULT_AVATAR }}
+                style={styles.attendeeAvatar}
+              />
+              <Text style={styles.attendeeName}>
+                {attendee.user?.full_name || 'Роллер инкогнито'}
+                {attendee.user_id === event.organizer_id && ' · организатор'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#FF3B30',
+    textAlign: 'center',
+  },
+  map: {
+    height: 280,
+  },
+  section: {
+    backgroundColor: 'white',
+    padding: 16,
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#1C1C1E',
+    marginBottom: 12,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  infoText: {
+    marginLeft: 8,
+    fontSize: 15,
+    color: '#3A3A3C',
+  },
+  link: {
+    color: '#007AFF',
+  },
+  description: {
+    fontSize: 15,
+    color: '#3A3A3C',
+    lineHeight: 22,
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  organizer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  organizerAvatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    marginRight: 12,
+    backgroundColor: '#f2f2f7',
+  },
+  organizerLabel: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  organizerName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  rsvpError: {
+    fontSize: 14,
+    color: '#FF3B30',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  rsvpButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  rsvpButtonLeave: {
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#FF3B30',
+  },
+  rsvpButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  rsvpButtonTextLeave: {
+    color: '#FF3B30',
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  attendee: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  attendeeAvatar: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    marginRight: 12,
+    backgroundColor: '#f2f2f7',
+  },
+  attendeeName: {
+    fontSize: 15,
+    color: '#1C1C1E',
+  },
+});
@@ -0,0 +1,386 @@
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, TextInput, ActivityIndicator } from 'react-native';
+import { useState, useEffect } from 'react';
+import * as Location from 'expo-location';
+import { Stack, useRouter } from 'expo-router';
+import { ArrowLeft } from 'lucide-react-native';
+import { supabase } from '@/lib/supabase';
+import { MapView, Marker } from '@/components/Map';
+import { GeoPoint, formatDistance } from '@/lib/geo';
+import { SKILL_LEVELS, SkillLevel, createEvent } from '@/lib/events';
+import { useAuth } from '@/components/AuthProvider';
+
+interface RouteOption {
+  id: string;
+  title: string;
+  distance_m: number | null;
+}
+
+const DAYS_AHEAD = 7;
+// Where the map opens when the user's location is unknown
+const FALLBACK_MAP_CENTER: GeoPoint = { latitude: 55.7558, longitude: 37.6173 };
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+const dayLabel = (offset: number) => {
+  if (offset === 0) return 'Сегодня';
+  if (offset === 1) return 'Завтра';
+
+  const date = new Date();
+  date.setDate(date.getDate() + offset);
+  return date.toLocaleDateString('ru-RU', { weekday: 'short', day: 'numeric' });
+};
+
+export default function NewEventScreen() {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [dayOffset, setDayOffset] = useState(0);
+  const [time, setTime] = useState('19:00');
+  const [meetingPoint, setMeetingPoint] = useState<GeoPoint | null>(null);
+  const [mapCenter, setMapCenter] = useState<GeoPoint | null>(null);
+  const [routes, setRoutes] = useState<RouteOption[]>([]);
+  const [routeId, setRouteId] = useState<string | null>(null);
+  const [skillLevel, setSkillLevel] = useState<SkillLevel>('any');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+  const { user } = useAuth();
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const { status } = await Location.requestForegroundPermissionsAsync();
+        if (status !== 'granted') {
+          setError('Нет доступа к геолокации. Выберите место встречи на карте');
+          setMapCenter(FALLBACK_MAP_CENTER);
+          return;
+        }
+
+        const location = await Location.getCurrentPositionAsync({
+          accuracy: Location.Accuracy.Balanced,
+        });
+        const point = {
+          latitude: location.coords.latitude,
+          longitude: location.coords.longitude,
+        };
+        setMapCenter(point);
+        setMeetingPoint(point);
+      } catch (error) {
+        console.error('Location error:', error);
+        setError('Не удалось определить местоположение. Выберите место встречи на карте');
+        setMapCenter(FALLBACK_MAP_CENTER);
+      }
+    })();
+
+    fetchMyRoutes();
+  }, []);
+
+  async function fetchMyRoutes() {
+    try {
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('map_routes')
+        .select('id, title, distance_m')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setRoutes(data || []);
+    } catch (error) {
+      console.error('Error fetching routes:', error);
+    }
+  }
+
+  function getStartsAt() {
+    const match = time.trim().match(TIME_PATTERN);
+    if (!match) return null;
+
+    const startsAt = new Date();
+    startsAt.setDate(startsAt.getDate() + dayOffset);
+    startsAt.setHours(Number(match[1]), Number(match[2]), 0, 0);
+    return startsAt;
+  }
+
+  async function handleCreate() {
+    if (!title.trim() || !meetingPoint) return;
+
+    const startsAt = getStartsAt();
+    if (!startsAt) {
+      setError('Укажите время в формате ЧЧ:ММ');
+      return;
+    }
+    if (startsAt.getTime() < Date.now()) {
+      setError('Время покатушки уже прошло');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    const { event, error } = await createEvent({
+      title: title.trim(),
+      description: description.trim() || null,
+      startsAt,
+      meetingPoint,
+      routeId,
+      skillLevel,
+    });
+
+    setSaving(false);
+
+    if (error || !event) {
+      setError('Не удалось создать покатушку');
+      return;
+    }
+
+    router.replace(`/event/${event.id}`);
+  }
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Новая покатушка',
+          headerLeft: () => (
+            <TouchableOpacity
+              onPress={() => router.back()}
+              style={{ marginLeft: 16 }}
+            >
+              <ArrowLeft size={24} color="#007AFF" />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <ScrollView style={styles.container} keyboardShouldPersistTaps="handled">
+        <View style={styles.section}>
+          <TextInput
+            style={styles.input}
+            placeholder="Название"
+            value={title}
+            onChangeText={setTitle}
+            placeholderTextColor="#8E8E93"
+            maxLength={100}
+          />
+          <TextInput
+            style={[styles.input, styles.inputMultiline]}
+            placeholder="Описание (необязательно)"
+            value={description}
+            onChangeText={setDescription}
+            placeholderTextColor="#8E8E93"
+            multiline
+          />
+        </View>
+
+        <Text style={styles.sectionTitle}>Когда</Text>
+        <View style={styles.section}>
+          <View style={styles.chips}>
+            {Array.from({ length: DAYS_AHEAD }, (_, offset) => (
+              <TouchableOpacity
+                key={offset}
+                style={[styles.chip, offset === dayOffset && styles.chipActive]}
+                onPress={() => setDayOffset(offset)}
+              >
+                <Text style={[styles.chipText, offset === dayOffset && styles.chipTextActive]}>
+                  {dayLabel(offset)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TextInput
+            style={styles.input}
+            placeholder="ЧЧ:ММ"
+            value={time}
+            onChangeText={setTime}
+            placeholderTextColor="#8E8E93"
+            keyboardType="numbers-and-punctuation"
+            maxLength={5}
+          />
+        </View>
+
+        <Text style={styles.sectionTitle}>Место встречи</Text>
+        <View style={styles.section}>
+          <Text style={styles.hint}>Нажмите на карту, чтобы выбрать точку сбора</Text>
+          {mapCenter ? (
+            <MapView
+              style={styles.map}
+              initialRegion={{
+                ...mapCenter,
+                latitudeDelta: meetingPoint ? 0.02 : 0.2,
+                longitudeDelta: meetingPoint ? 0.02 : 0.2,
+              }}
+              onPress={(e) => setMeetingPoint(e.nativeEvent.coordinate)}
+              showsUserLocation
+            >
+              {meetingPoint && (
+                <Marker coordinate={meetingPoint} pinColor="#007AFF" />
+              )}
+            </MapView>
+          ) : (
+            <View style={[styles.map, styles.mapLoading]}>
+              <ActivityIndicator color="#007AFF" />
+            </View>
+          )}
+        </View>
+
+        <Text style={styles.sectionTitle}>Уровень</Text>
+        <View style={styles.section}>
+          <View style={styles.chips}>
+            {(Object.keys(SKILL_LEVELS) as SkillLevel[]).map((level) => (
+              <TouchableOpacity
+                key={level}
+                style={[styles.chip, level === skillLevel && styles.chipActive]}
+                onPress={() => setSkillLevel(level)}
+              >
+                <Text style={[styles.chipText, level === skillLevel && styles.chipTextActive]}>
+                  {SKILL_LEVELS[level]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {routes.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Маршрут (необязательно)</Text>
+            <View style={styles.section}>
+              <View style={styles.chips}>
+                <TouchableOpacity
+                  style={[styles.chip, routeId === null && styles.chipActive]}
+                  onPress={() => setRouteId(null)}
+                >
+                  <Text style={[styles.chipText, routeId === null && styles.chipTextActive]}>
+                    Без маршрута
+                  </Text>
+                </TouchableOpacity>
+                {routes.map((route) => (
+                  <TouchableOpacity
+                    key={route.id}
+                    style={[styles.chip, route.id === routeId && styles.chipActive]}
+                    onPress={() => setRouteId(route.id)}
+                  >
+                    <Text style={[styles.chipText, route.id === routeId && styles.chipTextActive]}>
+                      {route.title} · {formatDistance(route.distance_m || 0)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          </>
+        )}
+
+        {error && (
+          <Text style={styles.errorText}>{error}</Text>
+        )}
+
+        <TouchableOpacity
+          style={[styles.createButton, (!title.trim() || !meetingPoint) && styles.createButtonDisabled]}
+          onPress={handleCreate}
+          disabled={!title.trim() || !meetingPoint || saving}
+        >
+          {saving ? (
+            <ActivityIndicator color="white" />
+          ) : (
+            <Text style={styles.createButtonText}>Создать покатушку</Text>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  section: {
+    backgroundColor: 'white',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8E8E93',
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginHorizontal: 16,
+  },
+  input: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    height: 48,
+    fontSize: 16,
+    color: '#1C1C1E',
+    marginVertical: 4,
+  },
+  inputMultiline: {
+    height: 96,
+    paddingTop: 12,
+    textAlignVertical: 'top',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    backgroundColor: '#F2F2F7',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#1C1C1E',
+  },
+  chipTextActive: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginBottom: 8,
+  },
+  map: {
+    height: 240,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  mapLoading: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F2F2F7',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    textAlign: 'center',
+    marginTop: 16,
+    marginHorizontal: 16,
+  },
+  createButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+    margin: 16,
+  },
+  createButtonDisabled: {
+    opacity: 0.5,
+  },
+  createButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,250 @@
+import { View, Text, StyleSheet, FlatList, Image, TouchableOpacity, RefreshControl, ActivityIndicator } from 'react-native';
+import { useState, useCallback } from 'react';
+import { Stack, useFocusEffect, useRouter } from 'expo-router';
+import { ArrowLeft, Plus, Calendar, Users as UsersIcon, Gauge } from 'lucide-react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { supabase } from '@/lib/supabase';
+import { RideEvent, SKILL_LEVELS, formatEventTime } from '@/lib/events';
+
+interface EventItem extends RideEvent {
+  attendees_count: number;
+}
+
+const DEFAULT_AVATAR = 'https://images.unsplash.com/photo-1535713875002-d1d0cf377fde?w=200';
+
+// Rides that started recently are still listed so latecomers can find them
+const STARTED_GRACE_MS = 2 * 60 * 60 * 1000;
+
+export default function EventsScreen() {
+  const [events, setEvents] = useState<EventItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+
+  // Refetch when coming back from the create screen
+  useFocusEffect(
+    useCallback(() => {
+      fetchEvents();
+    }, [])
+  );
+
+  async function fetchEvents() {
+    try {
+      setError(null);
+
+      const { data, error } = await supabase
+        .from('events')
+        .select(`
+          *,
+          organizer:profiles(full_name, avatar_url),
+          attendees:event_attendees(count)
+        `)
+        .gte('starts_at', new Date(Date.now() - STARTED_GRACE_MS).toISOString())
+        .order('starts_at', { ascending: true });
+
+      if (error) throw error;
+
+      setEvents((data || []).map((event: any) => ({
+        ...event,
+        attendees_count: event.attendees[0]?.count || 0,
+      })));
+    } catch (error) {
+      console.error('Error fetching events:', error);
+      setError('Не удалось загрузить покатушки');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchEvents();
+    setRefreshing(false);
+  };
+
+  const renderEvent = ({ item, index }: { item: EventItem; index: number }) => (
+    <Animated.View
+      entering={FadeInDown.delay(index * 100)}
+      style={styles.eventCard}
+    >
+      <TouchableOpacity
+        style={styles.eventContent}
+        onPress={() => router.push(`/event/${item.id}`)}
+        activeOpacity={0.7}
+      >
+        <Text style={styles.eventTitle} numberOfLines={1}>{item.title}</Text>
+
+        <View style={styles.statsRow}>
+          <View style={styles.statItem}>
+            <Calendar size={14} color="#8E8E93" />
+            <Text style={styles.statText}>{formatEventTime(item.starts_at)}</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Gauge size={14} color="#8E8E93" />
+            <Text style={styles.statText}>{SKILL_LEVELS[item.skill_level]}</Text>
+          </View>
+          <View style={styles.statItem}>
+            <UsersIcon size={14} color="#8E8E93" />
+            <Text style={styles.statText}>{item.attendees_count}</Text>
+          </View>
+        </View>
+
+        <View style={styles.organizer}>
+          <Image
+            source={{ uri: item.organizer?.avatar_url || DEFAULT_AVATAR }}
+            style={styles.organizerAvatar}
+          />
+          <Text style={styles.organizerName}>{item.organizer?.full_name || 'Роллер инкогнито'}</Text>
+        </View>
+      </TouchableOpacity>
+    </Animated.View>
+  );
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Покатушки',
+          headerLeft: () => (
+            <TouchableOpacity
+              onPress={() => router.back()}
+              style={{ marginLeft: 16 }}
+            >
+              <ArrowLeft size={24} color="#007AFF" />
+            </TouchableOpacity>
+          ),
+          headerRight: () => (
+            <TouchableOpacity
+              onPress={() => router.push('/event/new')}
+              style={{ marginRight: 16 }}
+            >
+              <Plus size={24} color="#007AFF" />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+        </View>
+      ) : (
+        <FlatList
+          style={styles.container}
+          data={events}
+          renderItem={renderEvent}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContainer}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              tintColor="#007AFF"
+            />
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Text style={styles.emptyText}>
+                {error || 'Пока никто не собирается кататься'}
+              </Text>
+              {!error && (
+                <Text style={styles.emptySubtext}>
+                  Создайте покатушку, и ваши подписчики узнают о ней
+                </Text>
+              )}
+            </View>
+          }
+        />
+      )}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  listContainer: {
+    padding: 16,
+  },
+  eventCard: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    marginBottom: 12,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  eventContent: {
+    padding: 16,
+  },
+  eventTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  statItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 16,
+    marginBottom: 4,
+  },
+  statText: {
+    marginLeft: 4,
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  organizer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  organizerAvatar: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    marginRight: 8,
+    backgroundColor: '#f2f2f7',
+  },
+  organizerName: {
+    fontSize: 14,
+    color: '#1C1C1E',
+  },
+  emptyContainer: {
+    padding: 24,
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    fontSize: 15,
+    color: '#8E8E93',
+    textAlign: 'center',
+  },
+});
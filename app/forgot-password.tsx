@@ -0,0 +1,49 @@
+import { TouchableOpacity, KeyboardAvoidingView, Platform, StyleSheet } from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { ArrowLeft } from 'lucide-react-native';
+import { requestPasswordReset } from '@/lib/auth';
+import EmailLinkForm from '@/components/EmailLinkForm';
+
+export default function ForgotPasswordScreen() {
+  const { email } = useLocalSearchParams<{ email?: string }>();
+  const router = useRouter();
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Восстановление пароля',
+          headerLeft: () => (
+            <TouchableOpacity
+              onPress={() => router.back()}
+              style={{ marginLeft: 16 }}
+            >
+              <ArrowLeft size={24} color="#007AFF" />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.container}
+      >
+        <EmailLinkForm
+          initialEmail={email}
+          description="Введите email, указанный при регистрации. Мы пришлём ссылку для создания нового пароля."
+          submitLabel="Отправить ссылку"
+          sentDescription={(email) => `Если аккаунт с адресом ${email} существует, на него придёт письмо со ссылкой для смены пароля.`}
+          onSend={requestPasswordReset}
+        />
+      </KeyboardAvoidingView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+});
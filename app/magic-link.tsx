@@ -0,0 +1,49 @@
+import { TouchableOpacity, KeyboardAvoidingView, Platform, StyleSheet } from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { ArrowLeft } from 'lucide-react-native';
+import { sendMagicLink } from '@/lib/auth';
+import EmailLinkForm from '@/components/EmailLinkForm';
+
+export default function MagicLinkScreen() {
+  const { email } = useLocalSearchParams<{ email?: string }>();
+  const router = useRouter();
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Вход по ссылке',
+          headerLeft: () => (
+            <TouchableOpacity
+              onPress={() => router.back()}
+              style={{ marginLeft: 16 }}
+            >
+              <ArrowLeft size={24} color="#007AFF" />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.container}
+      >
+        <EmailLinkForm
+          initialEmail={email}
+          description="Войдите без пароля: мы пришлём на email ссылку для входа."
+          submitLabel="Получить ссылку"
+          sentDescription={(email) => `Ссылка для входа отправлена на ${email}. Откройте её на этом устройстве.`}
+          onSend={sendMagicLink}
+        />
+      </KeyboardAvoidingView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+});
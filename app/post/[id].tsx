@@ -1,9 +1,18 @@
-import { View, Text, StyleSheet, Image, TouchableOpacity, TextInput, ScrollView, ActivityIndicator, FlatList, KeyboardAvoidingView, Platform } from 'react-native';
-import { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, Image, TouchableOpacity, ScrollView, ActivityIndicator, FlatList, KeyboardAvoidingView, Platform } from 'react-native';
+import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/lib/supabase';
-import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
-import { ArrowLeft, Heart, MessageCircle, Share, MapPin, CornerDownRight } from 'lucide-react-native';
+import { Stack, useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
+import { ArrowLeft, Heart, MessageCircle, Share, MapPin, CornerDownRight, Bookmark, MoreHorizontal } from 'lucide-react-native';
 import Animated, { FadeIn, FadeInDown } from 'react-native-reanimated';
+import CollectionPicker from '@/components/CollectionPicker';
+import { setBookmark } from '@/lib/bookmarks';
+import { PostMedia } from '@/lib/postMedia';
+import MediaCarousel from '@/components/MediaCarousel';
+import PostActionsSheet from '@/components/PostActionsSheet';
+import { isEdited } from '@/lib/posts';
+import RichText from '@/components/RichText';
+import MentionTextInput from '@/components/MentionTextInput';
+import { useAuth } from '@/components/AuthProvider';
 
 interface Post {
   id: string;
@@ -15,11 +24,14 @@ interface Post {
   latitude?: number;
   longitude?: number;
   created_at: string;
+  updated_at: string;
   user: {
     full_name: string;
     avatar_url: string;
   } | null;
   liked_by_user: boolean;
+  bookmarked_by_user: boolean;
+  media: PostMedia[];
 }
 
 interface Comment {
@@ -62,30 +74,40 @@ export default function PostScreen() {
   const [commenting, setCommenting] = useState(false);
   const [replying, setReplying] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [showCollections, setShowCollections] = useState(false);
+  const [showActions, setShowActions] = useState(false);
   const router = useRouter();
+  const { user } = useAuth();
+  const currentUserId = user?.id ?? null;
 
   useEffect(() => {
-    fetchPost();
     fetchComments();
   }, [id]);
 
+  // Refetch on focus so changes made on the edit screen show up
+  useFocusEffect(
+    useCallback(() => {
+      fetchPost();
+    }, [id])
+  );
+
   async function fetchPost() {
     try {
       setError(null);
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) {
         setError('Authentication required');
         setLoading(false);
         return;
       }
-
       const { data, error: fetchError } = await supabase
         .from('posts')
         .select(`
           *,
           user:profiles(id, full_name, avatar_url),
           likes(user_id),
-          comments:comments(count)
+          bookmarks(user_id),
+          comments:comments(count),
+          media:post_media(id, media_type, url, thumbnail_url, width, height, duration_ms, position)
         `)
         .eq('id', id)
         .single();
@@ -106,6 +128,8 @@ export default function PostScreen() {
         likes: data.likes?.length || 0,
         comments_count: data.comments?.[0]?.count || 0,
         liked_by_user: data.likes?.some(like => like.user_id === user.id) || false,
+        bookmarked_by_user: data.bookmarks?.some((bookmark: { user_id: string }) => bookmark.user_id === user.id) || false,
+        media: [...(data.media || [])].sort((a, b) => a.position - b.position),
       });
     } catch (error) {
       console.error('Error fetching post:', error);
@@ -117,7 +141,6 @@ export default function PostScreen() {
 
   async function fetchComments() {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
       const { data, error } = await supabase
@@ -169,7 +192,6 @@ export default function PostScreen() {
     if (!post) return;
 
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
       if (post.liked_by_user) {
@@ -193,9 +215,17 @@ export default function PostScreen() {
     }
   }
 
+  async function handleBookmark() {
+    if (!post) return;
+
+    const { error } = await setBookmark(post.id, !post.bookmarked_by_user);
+    if (error) return;
+
+    setPost({ ...post, bookmarked_by_user: !post.bookmarked_by_user });
+  }
+
   async function handleCommentLike(commentId: string) {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
       const comment = comments.find(c => c.id === commentId);
@@ -232,7 +262,6 @@ export default function PostScreen() {
 
     setCommenting(true);
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
       const { error } = await supabase
@@ -266,7 +295,6 @@ export default function PostScreen() {
 
     setReplying(true);
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
       const { error } = await supabase
@@ -376,13 +404,26 @@ export default function PostScreen() {
               />
               <View style={styles.headerText}>
                 <Text style={styles.userName}>{post.user?.full_name || 'Unknown User'}</Text>
-                <Text style={styles.postTime}>{getTimeAgo(post.created_at)}</Text>
+                <Text style={styles.postTime}>
+                  {getTimeAgo(post.created_at)}
+                  {isEdited(post) && ' · изменено'}
+                </Text>
               </View>
+              {post.user_id === currentUserId && (
+                <TouchableOpacity
+                  onPress={() => setShowActions(true)}
+                  style={styles.moreButton}
+                >
+                  <MoreHorizontal size={24} color="#666" />
+                </TouchableOpacity>
+              )}
             </TouchableOpacity>
 
-            <Text style={styles.postContent}>{post.content}</Text>
+            <RichText text={post.content} style={styles.postContent} />
 
-            {post.image_url && (
+            {post.media.length > 0 ? (
+              <MediaCarousel media={post.media} active />
+            ) : post.image_url && (
               <Image
                 source={{ uri: post.image_url }}
                 style={styles.postImage}
@@ -424,6 +465,18 @@ export default function PostScreen() {
               <TouchableOpacity style={styles.actionButton}>
                 <Share size={24} color="#666" />
               </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.actionButton, styles.bookmarkButton]}
+                onPress={handleBookmark}
+                onLongPress={() => setShowCollections(true)}
+              >
+                <Bookmark
+                  size={24}
+                  color={post.bookmarked_by_user ? "#007AFF" : "#666"}
+                  fill={post.bookmarked_by_user ? "#007AFF" : "none"}
+                />
+              </TouchableOpacity>
             </View>
           </View>
 
@@ -447,7 +500,7 @@ export default function PostScreen() {
                       >
                         <Text style={styles.commentUserName}>{comment.user.full_name}</Text>
                       </TouchableOpacity>
-                      <Text style={styles.commentText}>{comment.content}</Text>
+                      <RichText text={comment.content} style={styles.commentText} />
                       <View style={styles.commentActions}>
                         <Text style={styles.commentTime}>{getTimeAgo(comment.created_at)}</Text>
                         <TouchableOpacity 
@@ -507,7 +560,7 @@ export default function PostScreen() {
                                 >
                                   <Text style={styles.replyUserName}>{reply.user.full_name}</Text>
                                 </TouchableOpacity>
-                                <Text style={styles.replyText}>{reply.content}</Text>
+                                <RichText text={reply.content} style={styles.replyText} />
                                 <Text style={styles.replyTime}>{getTimeAgo(reply.created_at)}</Text>
                               </View>
                             </View>
@@ -517,7 +570,9 @@ export default function PostScreen() {
 
                       {replyingTo === comment.id && (
                         <View style={styles.replyInput}>
-                          <TextInput
+                          <MentionTextInput
+                            containerStyle={styles.replyTextInputContainer}
+                            suggestionsPlacement="above"
                             style={styles.replyTextInput}
                             placeholder="Написать ответ..."
                             value={replyText}
@@ -554,7 +609,9 @@ export default function PostScreen() {
         </ScrollView>
 
         <View style={styles.commentInput}>
-          <TextInput
+          <MentionTextInput
+            containerStyle={styles.commentTextInputContainer}
+            suggestionsPlacement="above"
             style={styles.commentTextInput}
             placeholder="Добавить комментарий..."
             value={commentText}
@@ -584,6 +641,18 @@ export default function PostScreen() {
           </TouchableOpacity>
         </View>
       </KeyboardAvoidingView>
+
+      <CollectionPicker
+        postId={showCollections ? post.id : null}
+        onClose={() => setShowCollections(false)}
+        onSaved={() => setPost(post => post && { ...post, bookmarked_by_user: true })}
+      />
+
+      <PostActionsSheet
+        postId={showActions ? post.id : null}
+        onClose={() => setShowActions(false)}
+        onDeleted={() => router.back()}
+      />
     </>
   );
 }
@@ -634,6 +703,9 @@ const styles = StyleSheet.create({
   headerText: {
     flex: 1,
   },
+  moreButton: {
+    padding: 4,
+  },
   userName: {
     fontSize: 16,
     fontWeight: '600',
@@ -687,6 +759,10 @@ const styles = StyleSheet.create({
   actionTextActive: {
     color: '#ff4b4b',
   },
+  bookmarkButton: {
+    marginLeft: 'auto',
+    marginRight: 0,
+  },
   commentsSection: {
     backgroundColor: 'white',
     marginTop: 16,
@@ -793,14 +869,16 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: '#E5E5EA',
   },
-  replyTextInput: {
+  replyTextInputContainer: {
     flex: 1,
+    marginRight: 8,
+  },
+  replyTextInput: {
     fontSize: 14,
     paddingVertical: 6,
     paddingHorizontal: 12,
     backgroundColor: '#FFFFFF',
     borderRadius: 16,
-    marginRight: 8,
     color: '#1c1c1e',
   },
   replyButton: {
@@ -818,14 +896,16 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: '#F2F2F7',
   },
-  commentTextInput: {
+  commentTextInputContainer: {
     flex: 1,
+    marginRight: 8,
+  },
+  commentTextInput: {
     fontSize: 15,
     paddingVertical: 8,
     paddingHorizontal: 12,
     backgroundColor: '#f2f2f7',
     borderRadius: 20,
-    marginRight: 8,
     color: '#1c1c1e',
     maxHeight: 100,
   },
@@ -0,0 +1,442 @@
+import { View, Text, StyleSheet, Image, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
+import { useState, useEffect } from 'react';
+import * as Location from 'expo-location';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { ArrowLeft, Image as ImageIcon, MapPin, X, Play, AlertCircle } from 'lucide-react-native';
+import { supabase } from '@/lib/supabase';
+import { GeoPoint } from '@/lib/geo';
+import { MAX_POST_MEDIA, PickedMedia, PostMedia, UploadedPostMedia, pickPostMedia, uploadPostMedia } from '@/lib/postMedia';
+import { updatePost } from '@/lib/posts';
+import MentionTextInput from '@/components/MentionTextInput';
+import { useAuth } from '@/components/AuthProvider';
+
+// A newly picked item and the state of its upload
+interface MediaUpload extends PickedMedia {
+  key: string;
+  status: 'pending' | 'uploading' | 'done' | 'error';
+  progress: number;
+  url: string | null;
+  thumbnail_url: string | null;
+}
+
+export default function EditPostScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [content, setContent] = useState('');
+  const [location, setLocation] = useState<GeoPoint | null>(null);
+  const [media, setMedia] = useState<PostMedia[]>([]);
+  const [removedMedia, setRemovedMedia] = useState<PostMedia[]>([]);
+  const [newMedia, setNewMedia] = useState<MediaUpload[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+  const { user } = useAuth();
+
+  useEffect(() => {
+    fetchPost();
+  }, [id]);
+
+  async function fetchPost() {
+    try {
+      if (!user) throw new Error('No user found');
+
+      const { data, error } = await supabase
+        .from('posts')
+        .select(`
+          user_id,
+          content,
+          latitude,
+          longitude,
+          media:post_media(id, media_type, url, thumbnail_url, width, height, duration_ms, position)
+        `)
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+
+      if (data.user_id !== user.id) {
+        setError('Можно редактировать только свои посты');
+        return;
+      }
+
+      setContent(data.content || '');
+      setLocation(data.latitude != null && data.longitude != null
+        ? { latitude: data.latitude, longitude: data.longitude }
+        : null);
+      setMedia([...(data.media || [])].sort((a, b) => a.position - b.position));
+    } catch (error) {
+      console.error('Error fetching post:', error);
+      setError('Не удалось загрузить пост');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const mediaCount = media.length + newMedia.length;
+  const canSave = (content.trim().length > 0 || mediaCount > 0) && !saving;
+
+  function removeExistingMedia(item: PostMedia) {
+    setMedia(media => media.filter(existing => existing.id !== item.id));
+    setRemovedMedia(removed => [...removed, item]);
+  }
+
+  async function pickMedia() {
+    try {
+      const { media: picked, skipped } = await pickPostMedia(MAX_POST_MEDIA - mediaCount);
+
+      setError(skipped > 0 ? 'Видео длиннее минуты не добавлены' : null);
+      setNewMedia(selected => [
+        ...selected,
+        ...picked.map((item, index) => ({
+          ...item,
+          key: `${Date.now()}-${index}`,
+          status: 'pending' as const,
+          progress: 0,
+          url: null,
+          thumbnail_url: null,
+        })),
+      ]);
+    } catch (error) {
+      console.error('Error picking media:', error);
+    }
+  }
+
+  function updateUpload(key: string, changes: Partial<MediaUpload>) {
+    setNewMedia(selected => selected.map(item => (
+      item.key === key ? { ...item, ...changes } : item
+    )));
+  }
+
+  async function attachLocation() {
+    const { status } = await Location.requestForegroundPermissionsAsync();
+    if (status !== 'granted') {
+      return;
+    }
+
+    const position = await Location.getCurrentPositionAsync({});
+    setLocation({
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude,
+    });
+  }
+
+  async function handleSave() {
+    if (!canSave) return;
+
+    setSaving(true);
+    setError(null);
+
+    const uploaded: UploadedPostMedia[] = [];
+    for (const item of newMedia) {
+      if (item.url) {
+        uploaded.push({ ...item, url: item.url });
+        continue;
+      }
+
+      updateUpload(item.key, { status: 'uploading', progress: 0 });
+      const { url, thumbnailUrl } = await uploadPostMedia(item, progress => updateUpload(item.key, { progress }));
+
+      if (url) {
+        updateUpload(item.key, { status: 'done', progress: 1, url, thumbnail_url: thumbnailUrl });
+        uploaded.push({ ...item, url, thumbnail_url: thumbnailUrl });
+      } else {
+        updateUpload(item.key, { status: 'error' });
+      }
+    }
+
+    if (uploaded.length < newMedia.length) {
+      setError('Не все файлы загрузились. Проверьте соединение и повторите.');
+      setSaving(false);
+      return;
+    }
+
+    const { error } = await updatePost(id, {
+      content,
+      location,
+      removedMedia,
+      newMedia: uploaded,
+    });
+
+    setSaving(false);
+
+    if (error) {
+      setError('Не удалось сохранить изменения');
+      return;
+    }
+
+    router.back();
+  }
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Редактирование',
+          headerLeft: () => (
+            <TouchableOpacity
+              onPress={() => router.back()}
+              style={{ marginLeft: 16 }}
+            >
+              <ArrowLeft size={24} color="#007AFF" />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <ScrollView style={styles.container} keyboardShouldPersistTaps="handled">
+        <View style={[styles.section, styles.inputSection]}>
+          <MentionTextInput
+            style={styles.input}
+            placeholder="Что у вас нового?"
+            value={content}
+            onChangeText={setContent}
+            placeholderTextColor="#8E8E93"
+            multiline
+            maxLength={2000}
+          />
+        </View>
+
+        <Text style={styles.sectionTitle}>Фото и видео</Text>
+        <View style={styles.section}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            {media.map((item) => (
+              <View key={item.id} style={styles.mediaContainer}>
+                {item.media_type === 'video' ? (
+                  <View style={[styles.mediaPreview, styles.videoPreview]}>
+                    <Play size={28} color="white" fill="white" />
+                  </View>
+                ) : (
+                  <Image source={{ uri: item.thumbnail_url || item.url }} style={styles.mediaPreview} />
+                )}
+                {!saving && (
+                  <TouchableOpacity
+                    style={styles.removeButton}
+                    onPress={() => removeExistingMedia(item)}
+                  >
+                    <X size={16} color="white" />
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+
+            {newMedia.map((item) => (
+              <View key={item.key} style={styles.mediaContainer}>
+                {item.media_type === 'video' ? (
+                  <View style={[styles.mediaPreview, styles.videoPreview]}>
+                    <Play size={28} color="white" fill="white" />
+                  </View>
+                ) : (
+                  <Image source={{ uri: item.uri }} style={styles.mediaPreview} />
+                )}
+
+                {item.status === 'uploading' && (
+                  <View style={styles.uploadProgressTrack}>
+                    <View style={[styles.uploadProgressFill, { width: `${Math.round(item.progress * 100)}%` }]} />
+                  </View>
+                )}
+                {item.status === 'error' && (
+                  <View style={styles.uploadError}>
+                    <AlertCircle size={24} color="white" />
+                  </View>
+                )}
+
+                {!saving && (
+                  <TouchableOpacity
+                    style={styles.removeButton}
+                    onPress={() => setNewMedia(selected => selected.filter(media => media.key !== item.key))}
+                  >
+                    <X size={16} color="white" />
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+
+            {mediaCount < MAX_POST_MEDIA && (
+              <TouchableOpacity
+                style={[styles.mediaPreview, styles.addMediaButton]}
+                onPress={pickMedia}
+                disabled={saving}
+              >
+                <ImageIcon size={28} color="#007AFF" />
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+        </View>
+
+        <Text style={styles.sectionTitle}>Геолокация</Text>
+        <View style={styles.section}>
+          {location ? (
+            <View style={styles.locationRow}>
+              <MapPin size={16} color="#007AFF" />
+              <Text style={styles.locationText}>
+                {location.latitude.toFixed(6)}, {location.longitude.toFixed(6)}
+              </Text>
+              <TouchableOpacity onPress={() => setLocation(null)} disabled={saving}>
+                <X size={16} color="#666" />
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <TouchableOpacity style={styles.locationRow} onPress={attachLocation} disabled={saving}>
+              <MapPin size={16} color="#007AFF" />
+              <Text style={[styles.locationText, styles.attachLocationText]}>
+                Прикрепить текущее местоположение
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {error && (
+          <Text style={styles.errorText}>{error}</Text>
+        )}
+
+        <TouchableOpacity
+          style={[styles.saveButton, !canSave && styles.saveButtonDisabled]}
+          onPress={handleSave}
+          disabled={!canSave}
+        >
+          {saving ? (
+            <ActivityIndicator color="white" />
+          ) : (
+            <Text style={styles.saveButtonText}>
+              {newMedia.some(item => item.status === 'error') ? 'Повторить' : 'Сохранить'}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  section: {
+    backgroundColor: 'white',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+  // Keeps mention suggestions above the sections below
+  inputSection: {
+    zIndex: 1,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8E8E93',
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginHorizontal: 16,
+  },
+  input: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    minHeight: 120,
+    fontSize: 16,
+    color: '#1C1C1E',
+    textAlignVertical: 'top',
+  },
+  mediaContainer: {
+    marginRight: 8,
+  },
+  mediaPreview: {
+    width: 100,
+    height: 100,
+    borderRadius: 8,
+    backgroundColor: '#F2F2F7',
+  },
+  videoPreview: {
+    backgroundColor: '#1C1C1E',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  addMediaButton: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  removeButton: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    borderRadius: 12,
+    padding: 4,
+  },
+  uploadProgressTrack: {
+    position: 'absolute',
+    left: 8,
+    right: 8,
+    bottom: 8,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255, 255, 255, 0.5)',
+    overflow: 'hidden',
+  },
+  uploadProgressFill: {
+    height: '100%',
+    backgroundColor: '#007AFF',
+  },
+  uploadError: {
+    ...StyleSheet.absoluteFillObject,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 59, 48, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  locationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  locationText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 15,
+    color: '#1C1C1E',
+  },
+  attachLocationText: {
+    color: '#007AFF',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    textAlign: 'center',
+    marginTop: 16,
+    marginHorizontal: 16,
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+    margin: 16,
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,252 @@
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Switch, ActivityIndicator } from 'react-native';
+import { useState, useEffect } from 'react';
+import { Stack, useRouter } from 'expo-router';
+import { ArrowLeft, Check } from 'lucide-react-native';
+import { formatDistance } from '@/lib/geo';
+import {
+  LOCATION_PRECISION_OPTIONS,
+  LOCATION_VISIBILITY_OPTIONS,
+  LocationSettings,
+  fetchLocationSettings,
+  updateLocationSettings,
+} from '@/lib/location';
+
+export default function PrivacyScreen() {
+  const [settings, setSettings] = useState<LocationSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  async function loadSettings() {
+    setLoading(true);
+    setLoadError(null);
+
+    const { settings, error } = await fetchLocationSettings();
+    if (error) {
+      setLoadError('Не удалось загрузить настройки');
+    } else {
+      setSettings(settings);
+    }
+
+    setLoading(false);
+  }
+
+  async function updateSetting(changes: Partial<LocationSettings>) {
+    if (!settings) return;
+
+    const previous = settings;
+    setSettings({ ...settings, ...changes });
+    setError(null);
+
+    const { error } = await updateLocationSettings(changes);
+    if (error) {
+      setSettings(previous);
+      setError('Не удалось сохранить настройки');
+    }
+  }
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Конфиденциальность',
+          headerLeft: () => (
+            <TouchableOpacity
+              onPress={() => router.back()}
+              style={{ marginLeft: 16 }}
+            >
+              <ArrowLeft size={24} color="#007AFF" />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+        </View>
+      ) : !settings ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadErrorText}>{loadError}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={loadSettings}>
+            <Text style={styles.retryButtonText}>Повторить</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <ScrollView style={styles.container}>
+          <View style={styles.section}>
+            <View style={styles.switchRow}>
+              <View style={styles.switchText}>
+                <Text style={styles.rowTitle}>Режим невидимки</Text>
+                <Text style={styles.rowDescription}>
+                  Временно скрывает вас с карты, не меняя остальные настройки
+                </Text>
+              </View>
+              <Switch
+                value={settings.location_invisible}
+                onValueChange={(value) => updateSetting({ location_invisible: value })}
+              />
+            </View>
+          </View>
+
+          <Text style={styles.sectionTitle}>Кто видит меня на карте</Text>
+          <View style={styles.section}>
+            {LOCATION_VISIBILITY_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option.value}
+                style={styles.optionRow}
+                onPress={() => updateSetting({ location_visibility: option.value })}
+              >
+                <View style={styles.switchText}>
+                  <Text style={styles.rowTitle}>{option.label}</Text>
+                  <Text style={styles.rowDescription}>{option.description}</Text>
+                </View>
+                {settings.location_visibility === option.value && (
+                  <Check size={20} color="#007AFF" />
+                )}
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.sectionTitle}>Точность местоположения</Text>
+          <View style={styles.section}>
+            <View style={styles.precisionOptions}>
+              {LOCATION_PRECISION_OPTIONS.map((precision) => (
+                <TouchableOpacity
+                  key={precision}
+                  style={[
+                    styles.precisionOption,
+                    settings.location_precision_m === precision && styles.precisionOptionActive
+                  ]}
+                  onPress={() => updateSetting({ location_precision_m: precision })}
+                >
+                  <Text style={[
+                    styles.precisionOptionText,
+                    settings.location_precision_m === precision && styles.precisionOptionTextActive
+                  ]}>
+                    {precision === 0 ? 'Точно' : `~${formatDistance(precision)}`}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.rowDescription}>
+              Другие роллеры увидят вас в пределах выбранного расстояния, а не в точке, где вы находитесь
+            </Text>
+          </View>
+
+          {error && (
+            <Text style={styles.errorText}>{error}</Text>
+          )}
+        </ScrollView>
+      )}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  section: {
+    backgroundColor: 'white',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8E8E93',
+    textTransform: 'uppercase',
+    marginTop: 24,
+    marginHorizontal: 16,
+    marginBottom: -8,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  switchText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderColor: '#F2F2F7',
+  },
+  rowTitle: {
+    fontSize: 16,
+    color: '#1C1C1E',
+    marginBottom: 2,
+  },
+  rowDescription: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginBottom: 8,
+  },
+  precisionOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingVertical: 8,
+  },
+  precisionOption: {
+    backgroundColor: '#F2F2F7',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  precisionOptionActive: {
+    backgroundColor: '#007AFF',
+  },
+  precisionOptionText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#007AFF',
+  },
+  precisionOptionTextActive: {
+    color: 'white',
+  },
+  loadErrorText: {
+    fontSize: 16,
+    color: '#FF3B30',
+    textAlign: 'center',
+    marginHorizontal: 24,
+  },
+  retryButton: {
+    marginTop: 16,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    textAlign: 'center',
+    margin: 16,
+  },
+});
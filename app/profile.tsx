@@ -1,15 +1,18 @@
-import { View, Text, StyleSheet, Image, TouchableOpacity, ScrollView, TextInput, Modal, ActivityIndicator, Platform } from 'react-native';
+import { View, Text, StyleSheet, Image, TouchableOpacity, ScrollView, TextInput, Modal, ActivityIndicator } from 'react-native';
 import { useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabase';
 import { Camera, CreditCard as Edit3, MapPin, X, Plus, Check } from 'lucide-react-native';
 import * as ImagePicker from 'expo-image-picker';
-import { Stack, useRouter } from 'expo-router';
+import { Stack } from 'expo-router';
+import { uploadImage } from '@/lib/upload';
+import { useAuth } from '@/components/AuthProvider';
 
 interface Profile {
   id: string;
   email: string;
   full_name: string | null;
   avatar_url: string | null;
+  avatar_thumbnail_url: string | null;
   bio: string | null;
   sports: string[] | null;
   skates: string[] | null;
@@ -49,33 +52,15 @@ export default function ProfileScreen() {
   const [error, setError] = useState<string | null>(null);
   const [showSportsModal, setShowSportsModal] = useState(false);
   const [showStylesModal, setShowStylesModal] = useState(false);
-  const router = useRouter();
+  const { user, refreshProfile } = useAuth();
 
   useEffect(() => {
-    checkUser();
+    fetchProfile();
   }, []);
 
-  async function checkUser() {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        router.replace('/auth');
-        return;
-      }
-      fetchProfile();
-    } catch (error) {
-      console.error('Error checking user:', error);
-      router.replace('/auth');
-    }
-  }
-
   async function fetchProfile() {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        router.replace('/auth');
-        return;
-      }
+      if (!user) return;
 
       let query = supabase
         .from('profiles')
@@ -119,33 +104,13 @@ export default function ProfileScreen() {
       });
 
       if (!result.canceled) {
-        const uri = result.assets[0].uri;
-        const fileName = `avatar-${Date.now()}.jpg`;
-        
-        let file;
-        if (Platform.OS === 'web') {
-          const response = await fetch(uri);
-          const blob = await response.blob();
-          file = new File([blob], fileName, { type: 'image/jpeg' });
-        } else {
-          file = {
-            uri,
-            name: fileName,
-            type: 'image/jpeg',
-          };
-        }
-
-        const { data, error: uploadError } = await supabase.storage
-          .from('avatars')
-          .upload(fileName, file);
-
-        if (uploadError) throw uploadError;
-
-        const { data: { publicUrl } } = supabase.storage
-          .from('avatars')
-          .getPublicUrl(fileName);
-
-        setEditedProfile({ ...editedProfile, avatar_url: publicUrl });
+        const { url, thumbnailUrl } = await uploadImage(
+          'avatars',
+          `avatar-${Date.now()}`,
+          result.assets[0].uri
+        );
+
+        setEditedProfile({ ...editedProfile, avatar_url: url, avatar_thumbnail_url: thumbnailUrl });
       }
     } catch (error) {
       console.error('Error uploading image:', error);
@@ -166,6 +131,7 @@ export default function ProfileScreen() {
           full_name: editedProfile.full_name,
           bio: editedProfile.bio,
           avatar_url: editedProfile.avatar_url,
+          avatar_thumbnail_url: editedProfile.avatar_thumbnail_url,
           sports: editedProfile.sports,
           skates: editedProfile.skates,
           experience_years: editedProfile.experience_years,
@@ -178,6 +144,7 @@ export default function ProfileScreen() {
       if (error) throw error;
 
       setProfile({ ...profile, ...editedProfile });
+      refreshProfile();
       setIsEditing(false);
       setShowSportsModal(false);
       setShowStylesModal(false);
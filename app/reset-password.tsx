@@ -0,0 +1,221 @@
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, KeyboardAvoidingView, Platform, ActivityIndicator } from 'react-native';
+import { useState, useEffect } from 'react';
+import * as Linking from 'expo-linking';
+import { Stack, useRouter } from 'expo-router';
+import { Lock } from 'lucide-react-native';
+import { completeAuthRedirect, updatePassword } from '@/lib/auth';
+
+const MIN_PASSWORD_LENGTH = 6;
+
+// Opened by the link from the password reset email. The link signs the user
+// in, then they choose a new password.
+export default function ResetPasswordScreen() {
+  const url = Linking.useURL();
+  const [verifying, setVerifying] = useState(true);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!url) {
+      // useURL() starts out null while it reads the URL the app was opened
+      // with; if there is none, the screen wasn't opened from the email
+      let cancelled = false;
+      Linking.getInitialURL().then((initialUrl) => {
+        if (initialUrl || cancelled) return;
+        setLinkError('Ссылка недействительна или устарела');
+        setVerifying(false);
+      });
+      return () => {
+        cancelled = true;
+      };
+    }
+
+    setVerifying(true);
+    setLinkError(null);
+    // Also rejects a URL without a code
+    completeAuthRedirect(url)
+      .catch((error) => {
+        console.error('Password recovery link error:', error);
+        setLinkError('Ссылка недействительна или устарела');
+      })
+      .finally(() => setVerifying(false));
+  }, [url]);
+
+  async function handleSave() {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Пароль должен содержать минимум ${MIN_PASSWORD_LENGTH} символов`);
+      return;
+    }
+
+    if (password !== confirmation) {
+      setError('Пароли не совпадают');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    const { error } = await updatePassword(password);
+    if (error) {
+      setError(error.message.includes('should be different')
+        ? 'Новый пароль должен отличаться от старого'
+        : 'Не удалось сохранить пароль');
+    }
+
+    setSaving(false);
+  }
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Новый пароль',
+        }}
+      />
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.container}
+      >
+        {verifying ? (
+          <View style={styles.centered}>
+            <ActivityIndicator size="large" color="#007AFF" />
+          </View>
+        ) : linkError ? (
+          <View style={styles.centered}>
+            <Text style={styles.linkErrorText}>{linkError}</Text>
+            <TouchableOpacity onPress={() => router.replace('/forgot-password')}>
+              <Text style={styles.linkButtonText}>Запросить новую ссылку</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={styles.form}>
+            {error && (
+              <View style={styles.errorContainer}>
+                <Text style={styles.errorText}>{error}</Text>
+              </View>
+            )}
+
+            <View style={styles.inputContainer}>
+              <Lock size={20} color="#8E8E93" style={styles.inputIcon} />
+              <TextInput
+                style={styles.input}
+                placeholder="Новый пароль"
+                value={password}
+                onChangeText={setPassword}
+                secureTextEntry
+                editable={!saving}
+                placeholderTextColor="#8E8E93"
+              />
+            </View>
+
+            <View style={styles.inputContainer}>
+              <Lock size={20} color="#8E8E93" style={styles.inputIcon} />
+              <TextInput
+                style={styles.input}
+                placeholder="Повторите пароль"
+                value={confirmation}
+                onChangeText={setConfirmation}
+                secureTextEntry
+                editable={!saving}
+                placeholderTextColor="#8E8E93"
+              />
+            </View>
+
+            <TouchableOpacity
+              style={[styles.button, saving && styles.buttonDisabled]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <Text style={styles.buttonText}>Сохранить пароль</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </KeyboardAvoidingView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  linkErrorText: {
+    fontSize: 16,
+    color: '#FF3B30',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  linkButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  form: {
+    padding: 24,
+  },
+  errorContainer: {
+    backgroundColor: '#FFE5E5',
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#FFB5B5',
+  },
+  errorText: {
+    color: '#FF3B30',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    marginBottom: 16,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  inputIcon: {
+    marginRight: 12,
+  },
+  input: {
+    flex: 1,
+    height: 48,
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
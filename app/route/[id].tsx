@@ -0,0 +1,393 @@
+import { View, Text, StyleSheet, Image, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
+import { useState, useEffect, useRef } from 'react';
+import * as Location from 'expo-location';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { ArrowLeft, Navigation, Square, Download } from 'lucide-react-native';
+import { supabase } from '@/lib/supabase';
+import { MapView, Marker, Polyline } from '@/components/Map';
+import { GeoPoint, distanceToTrack, formatDistance, formatDuration, regionForPoints } from '@/lib/geo';
+import { RouteData, estimateDuration } from '@/lib/routes';
+import { RouteFileFormat, exportRoute } from '@/lib/routeFormats';
+
+interface MapRoute {
+  id: string;
+  user_id: string;
+  title: string;
+  description: string | null;
+  route_data: RouteData;
+  created_at: string;
+  user: {
+    id: string;
+    full_name: string;
+    avatar_url: string;
+  } | null;
+}
+
+const DEFAULT_AVATAR = 'https://images.unsplash.com/photo-1535713875002-d1d0cf377fde?w=200';
+
+// Farther than this from the nearest segment counts as off the route
+const OFF_TRACK_THRESHOLD_M = 30;
+
+export default function RouteScreen() {
+  const { id } = useLocalSearchParams();
+  const [route, setRoute] = useState<MapRoute | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isFollowing, setIsFollowing] = useState(false);
+  const [position, setPosition] = useState<GeoPoint | null>(null);
+  const [followError, setFollowError] = useState<string | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const subscription = useRef<Location.LocationSubscription | null>(null);
+  const router = useRouter();
+
+  useEffect(() => {
+    fetchRoute();
+
+    return () => {
+      subscription.current?.remove();
+    };
+  }, [id]);
+
+  async function fetchRoute() {
+    try {
+      const { data, error } = await supabase
+        .from('map_routes')
+        .select(`
+          *,
+          user:profiles(id, full_name, avatar_url)
+        `)
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      setRoute(data);
+    } catch (error) {
+      console.error('Error fetching route:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function startFollowing() {
+    setFollowError(null);
+
+    const { status } = await Location.requestForegroundPermissionsAsync();
+    if (status !== 'granted') {
+      setFollowError('Для навигации по маршруту необходим доступ к геолокации');
+      return;
+    }
+
+    setIsFollowing(true);
+    subscription.current = await Location.watchPositionAsync(
+      {
+        accuracy: Location.Accuracy.BestForNavigation,
+        timeInterval: 2000,
+        distanceInterval: 5,
+      },
+      (location) => {
+        setPosition({
+          latitude: location.coords.latitude,
+          longitude: location.coords.longitude,
+        });
+      }
+    );
+  }
+
+  function stopFollowing() {
+    subscription.current?.remove();
+    subscription.current = null;
+    setIsFollowing(false);
+    setPosition(null);
+  }
+
+  async function handleExport(format: RouteFileFormat) {
+    if (!route) return;
+
+    setExportError(null);
+    const { error } = await exportRoute(route.title, route.route_data, format);
+    if (error) {
+      setExportError('Не удалось экспортировать маршрут');
+    }
+  }
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  if (!route || !route.route_data?.points?.length) {
+    return (
+      <View style={styles.errorContainer}>
+        <Text style={styles.errorText}>Маршрут не найден</Text>
+      </View>
+    );
+  }
+
+  const points = route.route_data.points;
+  const offTrack = position ? distanceToTrack(position, points) : null;
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: route.title,
+          headerLeft: () => (
+            <TouchableOpacity
+              onPress={() => router.back()}
+              style={{ marginLeft: 16 }}
+            >
+              <ArrowLeft size={24} color="#007AFF" />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <ScrollView style={styles.container}>
+        <MapView
+          style={styles.map}
+          initialRegion={regionForPoints(points)}
+          showsUserLocation={isFollowing}
+          followsUserLocation={isFollowing}
+        >
+          <Polyline
+            coordinates={points}
+            strokeColor="#007AFF"
+            strokeWidth={5}
+          />
+          <Marker coordinate={points[0]} pinColor="green" title="Старт" />
+          <Marker coordinate={points[points.length - 1]} pinColor="red" title="Финиш" />
+        </MapView>
+
+        {isFollowing && (
+          <View style={[
+            styles.trackStatus,
+            offTrack !== null && offTrack > OFF_TRACK_THRESHOLD_M && styles.trackStatusOff
+          ]}>
+            <Text style={styles.trackStatusText}>
+              {offTrack === null
+                ? 'Определяем ваше местоположение...'
+                : offTrack > OFF_TRACK_THRESHOLD_M
+                  ? `Вы отклонились от маршрута на ${formatDistance(offTrack)}`
+                  : 'Вы на маршруте'}
+            </Text>
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.title}>{route.title}</Text>
+          {route.description && (
+            <Text style={styles.description}>{route.description}</Text>
+          )}
+
+          <View style={styles.stats}>
+            <View style={styles.statItem}>
+              <Text style={styles.statNumber}>{formatDistance(route.route_data.distance_m)}</Text>
+              <Text style={styles.statLabel}>Длина</Text>
+            </View>
+            <View style={styles.statItem}>
+              <Text style={styles.statNumber}>
+                ~{formatDuration(estimateDuration(route.route_data.distance_m))}
+              </Text>
+              <Text style={styles.statLabel}>Время в пути</Text>
+            </View>
+          </View>
+
+          {route.user && (
+            <TouchableOpacity
+              style={styles.author}
+              onPress={() => router.push(`/${route.user_id}`)}
+            >
+              <Image
+                source={{ uri: route.user.avatar_url || DEFAULT_AVATAR }}
+                style={styles.authorAvatar}
+              />
+              <View>
+                <Text style={styles.authorLabel}>Автор маршрута</Text>
+                <Text style={styles.authorName}>{route.user.full_name || 'Роллер инкогнито'}</Text>
+              </View>
+            </TouchableOpacity>
+          )}
+
+          {followError && (
+            <Text style={styles.followError}>{followError}</Text>
+          )}
+
+          <TouchableOpacity
+            style={[styles.followButton, isFollowing && styles.followButtonStop]}
+            onPress={isFollowing ? stopFollowing : startFollowing}
+          >
+            {isFollowing ? (
+              <Square size={18} color="white" fill="white" />
+            ) : (
+              <Navigation size={18} color="white" />
+            )}
+            <Text style={styles.followButtonText}>
+              {isFollowing ? 'Завершить' : 'Начать маршрут'}
+            </Text>
+          </TouchableOpacity>
+
+          <View style={styles.exportRow}>
+            <TouchableOpacity
+              style={styles.exportButton}
+              onPress={() => handleExport('gpx')}
+            >
+              <Download size={16} color="#007AFF" />
+              <Text style={styles.exportButtonText}>GPX</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.exportButton}
+              onPress={() => handleExport('geojson')}
+            >
+              <Download size={16} color="#007AFF" />
+              <Text style={styles.exportButtonText}>GeoJSON</Text>
+            </TouchableOpacity>
+          </View>
+          {exportError && (
+            <Text style={styles.followError}>{exportError}</Text>
+          )}
+        </View>
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#FF3B30',
+    textAlign: 'center',
+  },
+  map: {
+    height: 360,
+  },
+  trackStatus: {
+    backgroundColor: '#34C759',
+    padding: 12,
+    alignItems: 'center',
+  },
+  trackStatusOff: {
+    backgroundColor: '#FF3B30',
+  },
+  trackStatusText: {
+    color: 'white',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  section: {
+    backgroundColor: 'white',
+    padding: 16,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  description: {
+    fontSize: 15,
+    color: '#3A3A3C',
+    lineHeight: 22,
+    marginBottom: 12,
+  },
+  stats: {
+    flexDirection: 'row',
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: '#F2F2F7',
+  },
+  statItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  statNumber: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  statLabel: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  author: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 16,
+  },
+  authorAvatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    marginRight: 12,
+    backgroundColor: '#f2f2f7',
+  },
+  authorLabel: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  authorName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  followError: {
+    fontSize: 14,
+    color: '#FF3B30',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  followButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    height: 48,
+  },
+  followButtonStop: {
+    backgroundColor: '#FF3B30',
+  },
+  followButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  exportRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginTop: 12,
+  },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  exportButtonText: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#007AFF',
+    marginLeft: 6,
+  },
+});
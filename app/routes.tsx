@@ -0,0 +1,449 @@
+import { View, Text, StyleSheet, FlatList, Image, TouchableOpacity, RefreshControl, ActivityIndicator, Modal, TextInput } from 'react-native';
+import { useState, useEffect } from 'react';
+import * as Location from 'expo-location';
+import { Stack, useRouter } from 'expo-router';
+import { ArrowLeft, Route as RouteIcon, Clock, MapPin, Upload } from 'lucide-react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { supabase } from '@/lib/supabase';
+import { formatDistance, formatDuration } from '@/lib/geo';
+import { RouteData, estimateDuration, saveRoute } from '@/lib/routes';
+import { importRouteFile } from '@/lib/routeFormats';
+
+interface RouteItem {
+  id: string;
+  user_id: string;
+  title: string;
+  description: string | null;
+  distance_m: number | null;
+  distance_km: number;
+  created_at: string;
+  user: {
+    full_name: string;
+    avatar_url: string;
+  };
+}
+
+const DEFAULT_AVATAR = 'https://images.unsplash.com/photo-1535713875002-d1d0cf377fde?w=200';
+
+const SEARCH_RADIUS_KM = 25;
+
+export default function RoutesScreen() {
+  const [routes, setRoutes] = useState<RouteItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [importedRoute, setImportedRoute] = useState<RouteData | null>(null);
+  const [importTitle, setImportTitle] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const [savingImport, setSavingImport] = useState(false);
+  const router = useRouter();
+
+  useEffect(() => {
+    fetchRoutes();
+  }, []);
+
+  async function fetchRoutes() {
+    try {
+      setError(null);
+
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted') {
+        setError('Чтобы найти маршруты рядом, разрешите доступ к геолокации');
+        return;
+      }
+
+      const location = await Location.getCurrentPositionAsync({
+        accuracy: Location.Accuracy.Balanced,
+      });
+
+      const { data, error } = await supabase.rpc('nearby_routes', {
+        lat: location.coords.latitude,
+        lng: location.coords.longitude,
+        radius_km: SEARCH_RADIUS_KM,
+      });
+
+      if (error) throw error;
+
+      setRoutes((data || []).map((row: any) => ({
+        ...row,
+        user: {
+          full_name: row.full_name,
+          avatar_url: row.avatar_url,
+        },
+      })));
+    } catch (error) {
+      console.error('Error fetching routes:', error);
+      setError('Не удалось загрузить маршруты');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchRoutes();
+    setRefreshing(false);
+  };
+
+  async function handleImport() {
+    setImportError(null);
+
+    const { route, error } = await importRouteFile();
+    if (error) {
+      setImportError('Не удалось прочитать файл. Поддерживаются треки GPX и GeoJSON');
+      return;
+    }
+    if (!route) return;
+
+    setImportTitle(route.title);
+    setImportedRoute(route.routeData);
+  }
+
+  function closeImport() {
+    setImportedRoute(null);
+    setImportTitle('');
+    setImportError(null);
+  }
+
+  async function handleSaveImport() {
+    if (!importedRoute || !importTitle.trim()) return;
+
+    setSavingImport(true);
+    setImportError(null);
+
+    const { route, error } = await saveRoute(importTitle.trim(), null, importedRoute);
+
+    setSavingImport(false);
+
+    if (error || !route) {
+      setImportError('Не удалось сохранить маршрут');
+      return;
+    }
+
+    closeImport();
+    router.push(`/route/${route.id}`);
+  }
+
+  const renderRoute = ({ item, index }: { item: RouteItem; index: number }) => (
+    <Animated.View
+      entering={FadeInDown.delay(index * 100)}
+      style={styles.routeCard}
+    >
+      <TouchableOpacity
+        style={styles.routeContent}
+        onPress={() => router.push(`/route/${item.id}`)}
+        activeOpacity={0.7}
+      >
+        <Text style={styles.routeTitle} numberOfLines={1}>{item.title}</Text>
+        {item.description && (
+          <Text style={styles.routeDescription} numberOfLines={2}>{item.description}</Text>
+        )}
+
+        <View style={styles.statsRow}>
+          <View style={styles.statItem}>
+            <RouteIcon size={14} color="#8E8E93" />
+            <Text style={styles.statText}>{formatDistance(item.distance_m || 0)}</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Clock size={14} color="#8E8E93" />
+            <Text style={styles.statText}>~{formatDuration(estimateDuration(item.distance_m || 0))}</Text>
+          </View>
+          <View style={styles.statItem}>
+            <MapPin size={14} color="#8E8E93" />
+            <Text style={styles.statText}>{formatDistance(item.distance_km * 1000)} от вас</Text>
+          </View>
+        </View>
+
+        <View style={styles.author}>
+          <Image
+            source={{ uri: item.user.avatar_url || DEFAULT_AVATAR }}
+            style={styles.authorAvatar}
+          />
+          <Text style={styles.authorName}>{item.user.full_name || 'Роллер инкогнито'}</Text>
+        </View>
+      </TouchableOpacity>
+    </Animated.View>
+  );
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Маршруты рядом',
+          headerLeft: () => (
+            <TouchableOpacity
+              onPress={() => router.back()}
+              style={{ marginLeft: 16 }}
+            >
+              <ArrowLeft size={24} color="#007AFF" />
+            </TouchableOpacity>
+          ),
+          headerRight: () => (
+            <TouchableOpacity
+              onPress={handleImport}
+              style={{ marginRight: 16 }}
+            >
+              <Upload size={24} color="#007AFF" />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      {importError && !importedRoute && (
+        <View style={styles.importErrorBanner}>
+          <Text style={styles.importErrorBannerText}>{importError}</Text>
+        </View>
+      )}
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+        </View>
+      ) : (
+        <FlatList
+          style={styles.container}
+          data={routes}
+          renderItem={renderRoute}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContainer}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              tintColor="#007AFF"
+            />
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Text style={styles.emptyText}>
+                {error || 'Рядом пока нет маршрутов'}
+              </Text>
+              {!error && (
+                <Text style={styles.emptySubtext}>
+                  Запишите свой заезд на карте, чтобы поделиться маршрутом
+                </Text>
+              )}
+            </View>
+          }
+        />
+      )}
+
+      <Modal
+        visible={!!importedRoute}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={closeImport}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Импорт маршрута</Text>
+
+            {importedRoute && (
+              <Text style={styles.importSummary}>
+                {formatDistance(importedRoute.distance_m)} · {importedRoute.points.length} точек
+              </Text>
+            )}
+
+            <TextInput
+              style={styles.input}
+              placeholder="Название маршрута"
+              value={importTitle}
+              onChangeText={setImportTitle}
+              placeholderTextColor="#8E8E93"
+              maxLength={100}
+            />
+
+            {importError && (
+              <Text style={styles.importError}>{importError}</Text>
+            )}
+
+            <TouchableOpacity
+              style={[styles.saveButton, !importTitle.trim() && styles.saveButtonDisabled]}
+              onPress={handleSaveImport}
+              disabled={!importTitle.trim() || savingImport}
+            >
+              {savingImport ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <Text style={styles.saveButtonText}>Сохранить</Text>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.cancelButton}
+              onPress={closeImport}
+              disabled={savingImport}
+            >
+              <Text style={styles.cancelButtonText}>Отмена</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  listContainer: {
+    padding: 16,
+  },
+  routeCard: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    marginBottom: 12,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  routeContent: {
+    padding: 16,
+  },
+  routeTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 4,
+  },
+  routeDescription: {
+    fontSize: 14,
+    color: '#3A3A3C',
+    lineHeight: 20,
+    marginBottom: 8,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 4,
+  },
+  statItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 16,
+    marginBottom: 4,
+  },
+  statText: {
+    marginLeft: 4,
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  author: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  authorAvatar: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    marginRight: 8,
+    backgroundColor: '#f2f2f7',
+  },
+  authorName: {
+    fontSize: 14,
+    color: '#1C1C1E',
+  },
+  emptyContainer: {
+    padding: 24,
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    fontSize: 15,
+    color: '#8E8E93',
+    textAlign: 'center',
+  },
+  importErrorBanner: {
+    backgroundColor: '#FF3B30',
+    padding: 12,
+  },
+  importErrorBannerText: {
+    color: 'white',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  importSummary: {
+    fontSize: 15,
+    color: '#8E8E93',
+  },
+  input: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    height: 48,
+    fontSize: 16,
+    color: '#1C1C1E',
+    marginTop: 12,
+  },
+  importError: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cancelButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginTop: 4,
+  },
+  cancelButtonText: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#8E8E93',
+  },
+});
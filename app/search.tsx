@@ -0,0 +1,409 @@
+import { View, Text, StyleSheet, ScrollView, Image, TouchableOpacity, TextInput, ActivityIndicator } from 'react-native';
+import { useState, useEffect } from 'react';
+import { Stack, useRouter } from 'expo-router';
+import { ArrowLeft, Search, X, Clock, MapPin, Heart, MessageCircle } from 'lucide-react-native';
+import {
+  EMPTY_SEARCH_RESULTS,
+  SearchResults,
+  addRecentSearch,
+  clearRecentSearches,
+  fetchRecentSearches,
+  removeRecentSearch,
+  searchAll,
+} from '@/lib/search';
+import { SPOT_CATEGORIES, Spot } from '@/lib/spots';
+import SpotSheet from '@/components/SpotSheet';
+
+const DEFAULT_AVATAR = 'https://images.unsplash.com/photo-1535713875002-d1d0cf377fde?w=200';
+const SEARCH_DELAY_MS = 300;
+
+export default function SearchScreen() {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResults>(EMPTY_SEARCH_RESULTS);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  const [selectedSpot, setSelectedSpot] = useState<Spot | null>(null);
+  const router = useRouter();
+
+  const trimmedQuery = query.trim();
+
+  useEffect(() => {
+    fetchRecentSearches().then(setRecentSearches);
+  }, []);
+
+  useEffect(() => {
+    if (!trimmedQuery) {
+      setResults(EMPTY_SEARCH_RESULTS);
+      setSearching(false);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+    const timeout = setTimeout(async () => {
+      const { results, error } = await searchAll(trimmedQuery);
+      if (cancelled) return;
+
+      setResults(results);
+      setError(error ? 'Не удалось выполнить поиск' : null);
+      setSearching(false);
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [trimmedQuery]);
+
+  async function rememberQuery() {
+    if (!trimmedQuery) return;
+    setRecentSearches(await addRecentSearch(trimmedQuery));
+  }
+
+  function openResult(path: string) {
+    rememberQuery();
+    router.push(path);
+  }
+
+  function openSpot(spot: Spot) {
+    rememberQuery();
+    setSelectedSpot(spot);
+  }
+
+  async function handleRemoveRecent(item: string) {
+    setRecentSearches(await removeRecentSearch(item));
+  }
+
+  async function handleClearRecent() {
+    await clearRecentSearches();
+    setRecentSearches([]);
+  }
+
+  const hasResults = results.profiles.length > 0 || results.posts.length > 0 || results.spots.length > 0;
+
+  function renderRecentSearches() {
+    if (recentSearches.length === 0) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>Ищите роллеров, посты и места</Text>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Недавние</Text>
+          <TouchableOpacity onPress={handleClearRecent}>
+            <Text style={styles.clearText}>Очистить</Text>
+          </TouchableOpacity>
+        </View>
+        {recentSearches.map((item) => (
+          <TouchableOpacity
+            key={item}
+            style={styles.recentItem}
+            onPress={() => setQuery(item)}
+          >
+            <Clock size={18} color="#8E8E93" />
+            <Text style={styles.recentText} numberOfLines={1}>{item}</Text>
+            <TouchableOpacity onPress={() => handleRemoveRecent(item)} style={styles.recentRemove}>
+              <X size={16} color="#8E8E93" />
+            </TouchableOpacity>
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  }
+
+  function renderResults() {
+    if (searching && !hasResults) {
+      return (
+        <View style={styles.emptyContainer}>
+          <ActivityIndicator color="#007AFF" />
+        </View>
+      );
+    }
+
+    if (error || !hasResults) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>{error ?? 'Ничего не найдено'}</Text>
+        </View>
+      );
+    }
+
+    return (
+      <>
+        {results.profiles.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Роллеры</Text>
+            {results.profiles.map((profile) => (
+              <TouchableOpacity
+                key={profile.id}
+                style={styles.resultItem}
+                onPress={() => openResult(`/${profile.id}`)}
+              >
+                <Image
+                  source={{ uri: profile.avatar_url || DEFAULT_AVATAR }}
+                  style={styles.avatar}
+                />
+                <View style={styles.resultText}>
+                  <Text style={styles.resultTitle} numberOfLines={1}>
+                    {profile.full_name || 'Роллер инкогнито'}
+                  </Text>
+                  {(profile.username || profile.city) && (
+                    <Text style={styles.resultSubtitle} numberOfLines={1}>
+                      {[profile.username && `@${profile.username}`, profile.city].filter(Boolean).join(' · ')}
+                    </Text>
+                  )}
+                </View>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {results.posts.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Посты</Text>
+            {results.posts.map((post) => (
+              <TouchableOpacity
+                key={post.id}
+                style={styles.resultItem}
+                onPress={() => openResult(`/post/${post.id}`)}
+              >
+                <Image
+                  source={{ uri: post.user?.avatar_url || DEFAULT_AVATAR }}
+                  style={styles.avatar}
+                />
+                <View style={styles.resultText}>
+                  <Text style={styles.resultTitle} numberOfLines={1}>
+                    {post.user?.full_name || 'Unknown User'}
+                  </Text>
+                  <Text style={styles.postContent} numberOfLines={2}>{post.content}</Text>
+                  <View style={styles.postStats}>
+                    <Heart size={14} color="#8E8E93" />
+                    <Text style={styles.statText}>{post.likes}</Text>
+                    <MessageCircle size={14} color="#8E8E93" />
+                    <Text style={styles.statText}>{post.comments_count}</Text>
+                  </View>
+                </View>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {results.spots.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Места</Text>
+            {results.spots.map((spot) => {
+              const category = SPOT_CATEGORIES[spot.category];
+
+              return (
+                <TouchableOpacity
+                  key={spot.id}
+                  style={styles.resultItem}
+                  onPress={() => openSpot(spot)}
+                >
+                  <View style={[styles.spotIcon, { backgroundColor: category.color }]}>
+                    <MapPin size={18} color="white" />
+                  </View>
+                  <View style={styles.resultText}>
+                    <Text style={styles.resultTitle} numberOfLines={1}>{spot.title}</Text>
+                    <Text style={styles.resultSubtitle} numberOfLines={1}>
+                      {spot.description || category.label}
+                    </Text>
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Поиск',
+          headerLeft: () => (
+            <TouchableOpacity
+              onPress={() => router.back()}
+              style={{ marginLeft: 16 }}
+            >
+              <ArrowLeft size={24} color="#007AFF" />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <View style={styles.container}>
+        <View style={styles.searchContainer}>
+          <View style={styles.searchInputContainer}>
+            <Search size={20} color="#8E8E93" style={styles.searchIcon} />
+            <TextInput
+              style={styles.searchInput}
+              placeholder="Роллеры, посты, места"
+              value={query}
+              onChangeText={setQuery}
+              onSubmitEditing={rememberQuery}
+              returnKeyType="search"
+              autoFocus
+              autoCorrect={false}
+              placeholderTextColor="#8E8E93"
+            />
+            {query.length > 0 && (
+              <TouchableOpacity
+                onPress={() => setQuery('')}
+                style={styles.clearButton}
+              >
+                <X size={20} color="#8E8E93" />
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+
+        <ScrollView keyboardShouldPersistTaps="handled">
+          {trimmedQuery ? renderResults() : renderRecentSearches()}
+        </ScrollView>
+      </View>
+
+      <SpotSheet spot={selectedSpot} onClose={() => setSelectedSpot(null)} />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  searchContainer: {
+    backgroundColor: 'white',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  searchInputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+  },
+  searchIcon: {
+    marginRight: 8,
+  },
+  searchInput: {
+    flex: 1,
+    height: 40,
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  clearButton: {
+    padding: 4,
+  },
+  section: {
+    backgroundColor: 'white',
+    marginTop: 8,
+    paddingVertical: 8,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingRight: 16,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8E8E93',
+    textTransform: 'uppercase',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  clearText: {
+    fontSize: 15,
+    color: '#007AFF',
+  },
+  recentItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  recentText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1C1C1E',
+    marginLeft: 12,
+  },
+  recentRemove: {
+    padding: 4,
+  },
+  resultItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    marginRight: 12,
+    backgroundColor: '#F2F2F7',
+  },
+  spotIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    marginRight: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  resultText: {
+    flex: 1,
+  },
+  resultTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  resultSubtitle: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  postContent: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: '#1C1C1E',
+    marginTop: 2,
+  },
+  postStats: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  statText: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginLeft: 4,
+    marginRight: 12,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#8E8E93',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,215 @@
+import { View, Text, StyleSheet, Image, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { useState, useRef } from 'react';
+import { CameraView, CameraType, useCameraPermissions } from 'expo-camera';
+import * as ImagePicker from 'expo-image-picker';
+import { Stack, useRouter } from 'expo-router';
+import { X, Image as ImageIcon, RefreshCw } from 'lucide-react-native';
+import { createStory } from '@/lib/stories';
+
+export default function NewStoryScreen() {
+  const [permission, requestPermission] = useCameraPermissions();
+  const [facing, setFacing] = useState<CameraType>('back');
+  const [imageUri, setImageUri] = useState<string | null>(null);
+  const [publishing, setPublishing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const camera = useRef<CameraView>(null);
+  const router = useRouter();
+
+  async function takePicture() {
+    try {
+      const picture = await camera.current?.takePictureAsync({ quality: 0.8 });
+      if (picture) {
+        setImageUri(picture.uri);
+      }
+    } catch (error) {
+      console.error('Error taking picture:', error);
+    }
+  }
+
+  async function pickImage() {
+    try {
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsEditing: true,
+        aspect: [9, 16],
+        quality: 0.8,
+      });
+
+      if (!result.canceled) {
+        setImageUri(result.assets[0].uri);
+      }
+    } catch (error) {
+      console.error('Error picking image:', error);
+    }
+  }
+
+  async function publish() {
+    if (!imageUri) return;
+
+    setPublishing(true);
+    setError(null);
+
+    const { error } = await createStory(imageUri);
+
+    setPublishing(false);
+
+    if (error) {
+      setError('Не удалось опубликовать историю');
+      return;
+    }
+
+    router.back();
+  }
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+
+      {imageUri ? (
+        <Image source={{ uri: imageUri }} style={styles.preview} resizeMode="contain" />
+      ) : permission?.granted ? (
+        <CameraView ref={camera} style={styles.preview} facing={facing} />
+      ) : (
+        <View style={styles.permission}>
+          <Text style={styles.permissionText}>
+            Разрешите доступ к камере, чтобы снять историю, или выберите фото из галереи
+          </Text>
+          <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
+            <Text style={styles.permissionButtonText}>Разрешить доступ</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <TouchableOpacity
+        style={styles.closeButton}
+        onPress={() => (imageUri ? setImageUri(null) : router.back())}
+      >
+        <X size={28} color="white" />
+      </TouchableOpacity>
+
+      {error && (
+        <Text style={styles.errorText}>{error}</Text>
+      )}
+
+      <View style={styles.controls}>
+        {imageUri ? (
+          <TouchableOpacity
+            style={styles.publishButton}
+            onPress={publish}
+            disabled={publishing}
+          >
+            {publishing ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <Text style={styles.publishButtonText}>Опубликовать</Text>
+            )}
+          </TouchableOpacity>
+        ) : (
+          <>
+            <TouchableOpacity style={styles.sideButton} onPress={pickImage}>
+              <ImageIcon size={28} color="white" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.shutter, !permission?.granted && styles.shutterDisabled]}
+              onPress={takePicture}
+              disabled={!permission?.granted}
+            />
+            <TouchableOpacity
+              style={styles.sideButton}
+              onPress={() => setFacing(facing === 'back' ? 'front' : 'back')}
+              disabled={!permission?.granted}
+            >
+              <RefreshCw size={28} color="white" />
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'black',
+  },
+  preview: {
+    flex: 1,
+  },
+  permission: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  permissionText: {
+    color: 'white',
+    fontSize: 16,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  permissionButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  permissionButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 52,
+    left: 16,
+  },
+  errorText: {
+    position: 'absolute',
+    bottom: 140,
+    left: 16,
+    right: 16,
+    color: '#FF3B30',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  controls: {
+    position: 'absolute',
+    bottom: 40,
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    alignItems: 'center',
+  },
+  sideButton: {
+    width: 48,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  shutter: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    backgroundColor: 'white',
+    borderWidth: 4,
+    borderColor: 'rgba(255, 255, 255, 0.5)',
+  },
+  shutterDisabled: {
+    opacity: 0.4,
+  },
+  publishButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 24,
+    height: 48,
+    paddingHorizontal: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  publishButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
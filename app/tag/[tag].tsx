@@ -0,0 +1,239 @@
+import { View, Text, StyleSheet, FlatList, Image, TouchableOpacity, ActivityIndicator, RefreshControl } from 'react-native';
+import { useState, useEffect } from 'react';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { ArrowLeft, Heart, MessageCircle, Play } from 'lucide-react-native';
+import { FeedCursor, FeedPost, fetchHashtagPage } from '@/lib/feed';
+import RichText from '@/components/RichText';
+
+const DEFAULT_AVATAR = 'https://images.unsplash.com/photo-1535713875002-d1d0cf377fde?w=200';
+
+export default function HashtagScreen() {
+  const { tag } = useLocalSearchParams<{ tag: string }>();
+  const [posts, setPosts] = useState<FeedPost[]>([]);
+  const [nextCursor, setNextCursor] = useState<FeedCursor | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+
+  useEffect(() => {
+    setLoading(true);
+    fetchPosts().finally(() => setLoading(false));
+  }, [tag]);
+
+  async function fetchPosts() {
+    const { posts, nextCursor, error } = await fetchHashtagPage(tag, null);
+
+    if (error) {
+      setError('Не удалось загрузить посты');
+      return;
+    }
+
+    setError(null);
+    setPosts(posts);
+    setNextCursor(nextCursor);
+  }
+
+  async function loadMorePosts() {
+    if (!nextCursor || loadingMore) return;
+
+    setLoadingMore(true);
+    const { posts: page, nextCursor: cursor, error } = await fetchHashtagPage(tag, nextCursor);
+    setLoadingMore(false);
+
+    if (error) return;
+
+    setPosts(posts => {
+      const loaded = new Set(posts.map(post => post.id));
+      return [...posts, ...page.filter(post => !loaded.has(post.id))];
+    });
+    setNextCursor(cursor);
+  }
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchPosts();
+    setRefreshing(false);
+  };
+
+  const renderPost = ({ item }: { item: FeedPost }) => {
+    const preview = item.media[0];
+
+    return (
+      <TouchableOpacity
+        style={styles.postContainer}
+        onPress={() => router.push(`/post/${item.id}`)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.postHeader}>
+          <Image
+            source={{ uri: item.user?.avatar_url || DEFAULT_AVATAR }}
+            style={styles.avatar}
+          />
+          <View style={styles.headerText}>
+            <Text style={styles.userName}>{item.user?.full_name || 'Unknown User'}</Text>
+            <Text style={styles.postTime}>{new Date(item.created_at).toLocaleDateString()}</Text>
+          </View>
+        </View>
+
+        <View style={styles.postBody}>
+          <RichText text={item.content} style={styles.postContent} numberOfLines={6} />
+          {preview ? (
+            preview.media_type === 'video' ? (
+              <View style={[styles.preview, styles.videoPreview]}>
+                <Play size={20} color="white" fill="white" />
+              </View>
+            ) : (
+              <Image source={{ uri: preview.thumbnail_url || preview.url }} style={styles.preview} />
+            )
+          ) : item.image_url && (
+            <Image source={{ uri: item.image_url }} style={styles.preview} />
+          )}
+        </View>
+
+        <View style={styles.postStats}>
+          <Heart size={16} color="#8E8E93" />
+          <Text style={styles.statText}>{item.likes}</Text>
+          <MessageCircle size={16} color="#8E8E93" />
+          <Text style={styles.statText}>{item.comments_count}</Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: `#${tag}`,
+          headerLeft: () => (
+            <TouchableOpacity
+              onPress={() => router.back()}
+              style={{ marginLeft: 16 }}
+            >
+              <ArrowLeft size={24} color="#007AFF" />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+        </View>
+      ) : (
+        <FlatList
+          style={styles.container}
+          data={posts}
+          renderItem={renderPost}
+          keyExtractor={(item) => item.id}
+          onEndReached={loadMorePosts}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            loadingMore ? <ActivityIndicator color="#007AFF" style={styles.listFooter} /> : null
+          }
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              tintColor="#007AFF"
+            />
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Text style={styles.emptyText}>{error ?? `Постов с #${tag} пока нет`}</Text>
+            </View>
+          }
+        />
+      )}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  postContainer: {
+    backgroundColor: 'white',
+    marginTop: 8,
+    padding: 16,
+  },
+  postHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  avatar: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    marginRight: 10,
+  },
+  headerText: {
+    flex: 1,
+  },
+  userName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  postTime: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  postBody: {
+    flexDirection: 'row',
+  },
+  postContent: {
+    flex: 1,
+    fontSize: 15,
+    lineHeight: 22,
+    color: '#1C1C1E',
+  },
+  preview: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+    marginLeft: 12,
+    backgroundColor: '#F2F2F7',
+  },
+  videoPreview: {
+    backgroundColor: '#1C1C1E',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  postStats: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  statText: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginLeft: 4,
+    marginRight: 16,
+  },
+  listFooter: {
+    paddingVertical: 16,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#8E8E93',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,62 @@
+import { View, Text, StyleSheet, ActivityIndicator, Platform } from 'react-native';
+import { useState, useEffect } from 'react';
+import * as WebBrowser from 'expo-web-browser';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { isTelegramRedirectUrl } from '@/lib/auth';
+
+// In a web popup the opener reads the `#tgAuthResult` fragment itself
+const handledByOpener = WebBrowser.maybeCompleteAuthSession().type === 'success';
+
+// Telegram only redirects to the bot's domain, so the web build deployed at
+// EXPO_PUBLIC_TELEGRAM_AUTH_ORIGIN serves this page as the login widget's
+// `return_to`. It forwards the `#tgAuthResult` fragment to the app's
+// `redirect_uri`, where the auth session in lib/auth.ts picks it up.
+export default function TelegramAuthScreen() {
+  const { redirect_uri } = useLocalSearchParams<{ redirect_uri?: string }>();
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+
+  useEffect(() => {
+    if (Platform.OS !== 'web') {
+      // Opened as a deep link after the auth session already returned
+      if (router.canGoBack()) {
+        router.back();
+      } else {
+        router.replace('/');
+      }
+      return;
+    }
+
+    if (handledByOpener || !redirect_uri) return;
+    if (!isTelegramRedirectUrl(redirect_uri)) {
+      setError('Недопустимая ссылка для входа через Telegram');
+      return;
+    }
+    window.location.replace(`${redirect_uri}${window.location.hash}`);
+  }, [redirect_uri, router]);
+
+  return (
+    <View style={styles.container}>
+      {error ? (
+        <Text style={styles.errorText}>{error}</Text>
+      ) : (
+        <ActivityIndicator size="large" color="#007AFF" />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    padding: 24,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#FF3B30',
+    textAlign: 'center',
+  },
+});
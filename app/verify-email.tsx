@@ -0,0 +1,52 @@
+import { TouchableOpacity, KeyboardAvoidingView, Platform, StyleSheet } from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { ArrowLeft } from 'lucide-react-native';
+import { resendVerification } from '@/lib/auth';
+import EmailLinkForm from '@/components/EmailLinkForm';
+
+// Shown after sign-up when the account needs email confirmation, and from
+// the login form when signing in to an unconfirmed account
+export default function VerifyEmailScreen() {
+  const { email, sent } = useLocalSearchParams<{ email?: string; sent?: string }>();
+  const router = useRouter();
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Подтверждение email',
+          headerLeft: () => (
+            <TouchableOpacity
+              onPress={() => router.replace('/auth')}
+              style={{ marginLeft: 16 }}
+            >
+              <ArrowLeft size={24} color="#007AFF" />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.container}
+      >
+        <EmailLinkForm
+          initialEmail={email}
+          initiallySent={!!email && sent !== 'false'}
+          description="Введите email, указанный при регистрации, и мы отправим письмо для подтверждения ещё раз."
+          submitLabel="Отправить письмо"
+          sentDescription={(email) => `Мы отправили письмо на ${email}. Перейдите по ссылке из него, чтобы подтвердить адрес и войти.`}
+          onSend={resendVerification}
+        />
+      </KeyboardAvoidingView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+});
@@ -0,0 +1,73 @@
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { Session, User } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { CurrentProfile, fetchCurrentProfile } from '@/lib/auth';
+
+interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  profile: CurrentProfile | null;
+  // True until the stored session has been read
+  isLoading: boolean;
+  // Reloads the profile after the user edits it
+  refreshProfile: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+// Tracks the session so screens read the current user without a network call
+export default function AuthProvider({ children }: { children: ReactNode }) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [profile, setProfile] = useState<CurrentProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const userId = session?.user.id ?? null;
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setSession(session);
+      setIsLoading(false);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setSession(session);
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const refreshProfile = useCallback(async () => {
+    if (!userId) {
+      setProfile(null);
+      return;
+    }
+
+    const { profile } = await fetchCurrentProfile(userId);
+    setProfile(profile);
+  }, [userId]);
+
+  useEffect(() => {
+    refreshProfile();
+  }, [refreshProfile]);
+
+  return (
+    <AuthContext.Provider
+      value={{
+        session,
+        user: session?.user ?? null,
+        profile,
+        isLoading,
+        refreshProfile,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used inside AuthProvider');
+  }
+  return context;
+}
@@ -0,0 +1,218 @@
+import { View, Text, StyleSheet, TouchableOpacity, Modal, TextInput, ScrollView, ActivityIndicator } from 'react-native';
+import { useState, useEffect } from 'react';
+import { X, Check, Plus, Folder } from 'lucide-react-native';
+import { BookmarkCollection, createCollection, fetchCollections, saveToCollection } from '@/lib/bookmarks';
+
+interface CollectionPickerProps {
+  postId: string | null;
+  onClose: () => void;
+  onSaved: (postId: string) => void;
+}
+
+// Bottom sheet for saving a post into a named collection. Visible while
+// postId is set.
+export default function CollectionPicker({ postId, onClose, onSaved }: CollectionPickerProps) {
+  const [collections, setCollections] = useState<BookmarkCollection[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!postId) return;
+
+    setNewName('');
+    setError(null);
+    setLoading(true);
+    fetchCollections().then(({ collections }) => {
+      setCollections(collections);
+      setLoading(false);
+    });
+  }, [postId]);
+
+  async function save(collectionId: string | null) {
+    if (!postId) return;
+
+    setSaving(true);
+    setError(null);
+
+    const { error } = await saveToCollection(postId, collectionId);
+
+    setSaving(false);
+
+    if (error) {
+      setError('Не удалось сохранить пост');
+      return;
+    }
+
+    onSaved(postId);
+    onClose();
+  }
+
+  async function createAndSave() {
+    if (!newName.trim()) return;
+
+    setSaving(true);
+    setError(null);
+
+    const { collection, error } = await createCollection(newName);
+    if (error || !collection) {
+      setSaving(false);
+      setError(error?.code === '23505'
+        ? 'Коллекция с таким названием уже есть'
+        : 'Не удалось создать коллекцию');
+      return;
+    }
+
+    await save(collection.id);
+  }
+
+  return (
+    <Modal
+      visible={!!postId}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Сохранить в коллекцию</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <X size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+
+          {loading ? (
+            <ActivityIndicator color="#007AFF" style={styles.loader} />
+          ) : (
+            <ScrollView style={styles.list}>
+              <TouchableOpacity
+                style={styles.option}
+                onPress={() => save(null)}
+                disabled={saving}
+              >
+                <Check size={20} color="#8E8E93" />
+                <Text style={styles.optionText}>Без коллекции</Text>
+              </TouchableOpacity>
+              {collections.map((collection) => (
+                <TouchableOpacity
+                  key={collection.id}
+                  style={styles.option}
+                  onPress={() => save(collection.id)}
+                  disabled={saving}
+                >
+                  <Folder size={20} color="#007AFF" />
+                  <Text style={styles.optionText}>{collection.name}</Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+
+          <View style={styles.newCollection}>
+            <TextInput
+              style={styles.input}
+              placeholder="Новая коллекция, например «Трюки»"
+              placeholderTextColor="#8E8E93"
+              value={newName}
+              onChangeText={setNewName}
+              maxLength={50}
+            />
+            <TouchableOpacity
+              style={[styles.addButton, !newName.trim() && styles.addButtonDisabled]}
+              onPress={createAndSave}
+              disabled={!newName.trim() || saving}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <Plus size={20} color="white" />
+              )}
+            </TouchableOpacity>
+          </View>
+
+          {error && (
+            <Text style={styles.errorText}>{error}</Text>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '80%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  loader: {
+    marginVertical: 24,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  optionText: {
+    fontSize: 16,
+    color: '#1C1C1E',
+    marginLeft: 12,
+  },
+  newCollection: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    height: 44,
+    fontSize: 16,
+    marginRight: 8,
+  },
+  addButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#007AFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+  errorText: {
+    color: '#FF3B30',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,170 @@
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ScrollView, ActivityIndicator } from 'react-native';
+import { useState, useEffect } from 'react';
+import { X, Trash2, FileText, Plus } from 'lucide-react-native';
+import { PostDraft, deleteDraft, discardDraftMedia, fetchDrafts } from '@/lib/drafts';
+
+interface DraftsSheetProps {
+  visible: boolean;
+  // Draft open in the composer; it is listed but can't be deleted from here
+  currentDraftId: string | null;
+  onClose: () => void;
+  onSelect: (draft: PostDraft) => void;
+  onCreate: () => void;
+}
+
+// Bottom sheet listing saved post drafts
+export default function DraftsSheet({ visible, currentDraftId, onClose, onSelect, onCreate }: DraftsSheetProps) {
+  const [drafts, setDrafts] = useState<PostDraft[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setLoading(true);
+    fetchDrafts().then((drafts) => {
+      setDrafts(drafts);
+      setLoading(false);
+    });
+  }, [visible]);
+
+  async function remove(draft: PostDraft) {
+    setDrafts(drafts => drafts.filter(item => item.id !== draft.id));
+    await deleteDraft(draft.id);
+    await discardDraftMedia(draft.media);
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Черновики</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <X size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+
+          <TouchableOpacity
+            style={styles.option}
+            onPress={() => {
+              onCreate();
+              onClose();
+            }}
+          >
+            <Plus size={20} color="#007AFF" />
+            <Text style={[styles.optionText, styles.createText]}>Новый черновик</Text>
+          </TouchableOpacity>
+
+          {loading ? (
+            <ActivityIndicator color="#007AFF" style={styles.loader} />
+          ) : drafts.length === 0 ? (
+            <Text style={styles.emptyText}>Черновиков пока нет</Text>
+          ) : (
+            <ScrollView style={styles.list}>
+              {drafts.map((draft) => (
+                <TouchableOpacity
+                  key={draft.id}
+                  style={styles.option}
+                  onPress={() => {
+                    onSelect(draft);
+                    onClose();
+                  }}
+                >
+                  <FileText size={20} color="#007AFF" />
+                  <View style={styles.optionBody}>
+                    <Text numberOfLines={2} style={styles.optionText}>
+                      {draft.content.trim() || 'Без текста'}
+                    </Text>
+                    <Text style={styles.optionMeta}>
+                      {new Date(draft.updated_at).toLocaleString()}
+                      {draft.media.length > 0 && ` · фото и видео: ${draft.media.length}`}
+                      {draft.id === currentDraftId && ' · открыт'}
+                    </Text>
+                  </View>
+                  {draft.id !== currentDraftId && (
+                    <TouchableOpacity onPress={() => remove(draft)} style={styles.deleteButton}>
+                      <Trash2 size={18} color="#FF3B30" />
+                    </TouchableOpacity>
+                  )}
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '80%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  loader: {
+    marginVertical: 24,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#8E8E93',
+    textAlign: 'center',
+    marginVertical: 24,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  optionBody: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  optionText: {
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  createText: {
+    color: '#007AFF',
+    marginLeft: 12,
+  },
+  optionMeta: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  deleteButton: {
+    padding: 6,
+    marginLeft: 8,
+  },
+});
@@ -0,0 +1,213 @@
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { useState } from 'react';
+import { Mail, MailCheck } from 'lucide-react-native';
+import { EMAIL_RESEND_COOLDOWN_S } from '@/lib/auth';
+import { useCooldown } from '@/hooks/useCooldown';
+
+interface EmailLinkFormProps {
+  initialEmail?: string;
+  description: string;
+  submitLabel: string;
+  sentDescription: (email: string) => string;
+  // Start on the "check your inbox" step, e.g. after sign-up already sent the email
+  initiallySent?: boolean;
+  onSend: (email: string) => Promise<{ error: any }>;
+}
+
+function getSendErrorMessage(error: any) {
+  const message: string = error?.message ?? '';
+
+  if (error?.status === 429 || message.includes('security purposes')) {
+    return 'Слишком много запросов. Попробуйте чуть позже';
+  }
+  if (message.includes('Signups not allowed')) {
+    return 'Аккаунт с таким email не найден';
+  }
+  return 'Не удалось отправить письмо';
+}
+
+// Asks for an email, sends a link to it and offers to resend after a cooldown
+export default function EmailLinkForm({
+  initialEmail = '',
+  description,
+  submitLabel,
+  sentDescription,
+  initiallySent = false,
+  onSend,
+}: EmailLinkFormProps) {
+  const [email, setEmail] = useState(initialEmail);
+  const [sent, setSent] = useState(initiallySent);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cooldown = useCooldown(initiallySent ? EMAIL_RESEND_COOLDOWN_S : 0);
+
+  async function send() {
+    const trimmed = email.trim();
+    if (!trimmed) {
+      setError('Введите email');
+      return;
+    }
+
+    setSending(true);
+    setError(null);
+
+    const { error } = await onSend(trimmed);
+    if (error) {
+      setError(getSendErrorMessage(error));
+    } else {
+      setSent(true);
+      cooldown.start(EMAIL_RESEND_COOLDOWN_S);
+    }
+
+    setSending(false);
+  }
+
+  return (
+    <View style={styles.container}>
+      {error && (
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      )}
+
+      {sent ? (
+        <>
+          <View style={styles.sentIcon}>
+            <MailCheck size={40} color="#007AFF" />
+          </View>
+          <Text style={styles.description}>{sentDescription(email.trim())}</Text>
+
+          <TouchableOpacity
+            style={[styles.button, (sending || cooldown.secondsLeft > 0) && styles.buttonDisabled]}
+            onPress={send}
+            disabled={sending || cooldown.secondsLeft > 0}
+          >
+            {sending ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <Text style={styles.buttonText}>
+                {cooldown.secondsLeft > 0
+                  ? `Отправить ещё раз через ${cooldown.secondsLeft} с`
+                  : 'Отправить ещё раз'}
+              </Text>
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.linkButton}
+            onPress={() => {
+              setSent(false);
+              setError(null);
+            }}
+            disabled={sending}
+          >
+            <Text style={styles.linkButtonText}>Изменить email</Text>
+          </TouchableOpacity>
+        </>
+      ) : (
+        <>
+          <Text style={styles.description}>{description}</Text>
+
+          <View style={styles.inputContainer}>
+            <Mail size={20} color="#8E8E93" style={styles.inputIcon} />
+            <TextInput
+              style={styles.input}
+              placeholder="Email"
+              value={email}
+              onChangeText={setEmail}
+              autoCapitalize="none"
+              keyboardType="email-address"
+              editable={!sending}
+              placeholderTextColor="#8E8E93"
+            />
+          </View>
+
+          <TouchableOpacity
+            style={[styles.button, sending && styles.buttonDisabled]}
+            onPress={send}
+            disabled={sending}
+          >
+            {sending ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <Text style={styles.buttonText}>{submitLabel}</Text>
+            )}
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 24,
+  },
+  errorContainer: {
+    backgroundColor: '#FFE5E5',
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#FFB5B5',
+  },
+  errorText: {
+    color: '#FF3B30',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  sentIcon: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  description: {
+    fontSize: 16,
+    lineHeight: 22,
+    color: '#1C1C1E',
+    marginBottom: 24,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    marginBottom: 16,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  inputIcon: {
+    marginRight: 12,
+  },
+  input: {
+    flex: 1,
+    height: 48,
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  linkButton: {
+    marginTop: 16,
+    alignItems: 'center',
+  },
+  linkButtonText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,11 @@
+// Native map primitives. Screens import the map from here instead of
+// `react-native-maps` directly so the web build can swap in Map.web.tsx.
+export {
+  default as MapView,
+  Marker,
+  Callout,
+  Polyline,
+  Circle,
+  PROVIDER_DEFAULT,
+} from 'react-native-maps';
+export type { Region, LatLng, MapPressEvent } from 'react-native-maps';
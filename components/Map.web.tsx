@@ -0,0 +1,58 @@
+import { forwardRef, useImperativeHandle, ReactNode } from 'react';
+import { View, Text, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { MapPin } from 'lucide-react-native';
+
+export type { Region, LatLng, MapPressEvent } from 'react-native-maps';
+
+export const PROVIDER_DEFAULT = undefined;
+
+interface MapViewProps {
+  style?: StyleProp<ViewStyle>;
+  children?: ReactNode;
+  [key: string]: any;
+}
+
+// react-native-maps has no web implementation, so the web build renders a
+// static placeholder and ignores every overlay passed as a child.
+export const MapView = forwardRef(function MapView({ style }: MapViewProps, ref) {
+  useImperativeHandle(ref, () => ({
+    animateToRegion: () => {},
+    fitToCoordinates: () => {},
+  }));
+
+  return (
+    <View style={[styles.placeholder, style]}>
+      <MapPin size={48} color="#007AFF" style={styles.icon} />
+      <Text style={styles.title}>Карта роллеров</Text>
+      <Text style={styles.text}>Карта доступна в мобильном приложении</Text>
+    </View>
+  );
+});
+
+export const Marker = (_props: any) => null;
+export const Callout = (_props: any) => null;
+export const Polyline = (_props: any) => null;
+export const Circle = (_props: any) => null;
+
+const styles = StyleSheet.create({
+  placeholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+    backgroundColor: '#F2F2F7',
+  },
+  icon: {
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#1C1C1E',
+    marginBottom: 12,
+  },
+  text: {
+    fontSize: 16,
+    color: '#8E8E93',
+    textAlign: 'center',
+  },
+});
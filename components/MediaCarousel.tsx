@@ -0,0 +1,112 @@
+import { View, Text, StyleSheet, Image, FlatList, LayoutChangeEvent, NativeSyntheticEvent, NativeScrollEvent } from 'react-native';
+import { useState } from 'react';
+import { PostMedia } from '@/lib/postMedia';
+import PostVideo from './PostVideo';
+
+interface MediaCarouselProps {
+  media: PostMedia[];
+  // Whether the post is in the viewport; videos only play while it is
+  active: boolean;
+  height?: number;
+}
+
+// Swipeable pages of photos and clips with a position indicator
+export default function MediaCarousel({ media, active, height = 300 }: MediaCarouselProps) {
+  const [width, setWidth] = useState(0);
+  const [page, setPage] = useState(0);
+
+  function onLayout(event: LayoutChangeEvent) {
+    setWidth(event.nativeEvent.layout.width);
+  }
+
+  function onScroll(event: NativeSyntheticEvent<NativeScrollEvent>) {
+    if (!width) return;
+    setPage(Math.round(event.nativeEvent.contentOffset.x / width));
+  }
+
+  return (
+    <View style={[styles.container, { height }]} onLayout={onLayout}>
+      {width > 0 && (
+        <FlatList
+          data={media}
+          keyExtractor={(item) => item.id}
+          horizontal
+          pagingEnabled
+          showsHorizontalScrollIndicator={false}
+          onScroll={onScroll}
+          scrollEventThrottle={16}
+          renderItem={({ item, index }) => (
+            item.media_type === 'video' ? (
+              <PostVideo
+                url={item.url}
+                active={active && index === page}
+                style={{ width, height }}
+              />
+            ) : (
+              <Image
+                source={{ uri: item.url }}
+                style={{ width, height }}
+                resizeMode="cover"
+              />
+            )
+          )}
+        />
+      )}
+
+      {media.length > 1 && (
+        <>
+          <View style={styles.counter}>
+            <Text style={styles.counterText}>{page + 1}/{media.length}</Text>
+          </View>
+          <View style={styles.dots}>
+            {media.map((item, index) => (
+              <View
+                key={item.id}
+                style={[styles.dot, index === page && styles.dotActive]}
+              />
+            ))}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    backgroundColor: '#f2f2f7',
+  },
+  counter: {
+    position: 'absolute',
+    top: 12,
+    right: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  counterText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  dots: {
+    position: 'absolute',
+    bottom: 12,
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    justifyContent: 'center',
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    marginHorizontal: 3,
+    backgroundColor: 'rgba(255, 255, 255, 0.5)',
+  },
+  dotActive: {
+    backgroundColor: 'white',
+  },
+});
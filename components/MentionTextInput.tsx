@@ -0,0 +1,154 @@
+import { View, Text, StyleSheet, TextInput, TextInputProps, TouchableOpacity, Image, StyleProp, ViewStyle } from 'react-native';
+import { useState, useEffect } from 'react';
+import { MentionCandidate, MentionQuery, findMentionQuery, insertMention, searchMentionCandidates } from '@/lib/mentions';
+
+interface MentionTextInputProps extends Omit<TextInputProps, 'value' | 'onChangeText'> {
+  value: string;
+  onChangeText: (text: string) => void;
+  // Inputs at the bottom of the screen show suggestions above themselves
+  suggestionsPlacement?: 'above' | 'below';
+  containerStyle?: StyleProp<ViewStyle>;
+}
+
+const DEFAULT_AVATAR = 'https://images.unsplash.com/photo-1535713875002-d1d0cf377fde?w=200';
+const SEARCH_DELAY_MS = 250;
+
+// TextInput that suggests usernames while an @mention is being typed
+export default function MentionTextInput({
+  value,
+  onChangeText,
+  suggestionsPlacement = 'below',
+  containerStyle,
+  onSelectionChange,
+  ...inputProps
+}: MentionTextInputProps) {
+  const [selection, setSelection] = useState<{ start: number; end: number } | undefined>();
+  const [mention, setMention] = useState<MentionQuery | null>(null);
+  const [candidates, setCandidates] = useState<MentionCandidate[]>([]);
+
+  useEffect(() => {
+    const cursor = selection && selection.start === selection.end ? selection.start : value.length;
+    setMention(findMentionQuery(value, cursor));
+  }, [value, selection]);
+
+  const mentionQuery = mention?.query ?? null;
+
+  useEffect(() => {
+    if (mentionQuery === null) {
+      setCandidates([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      const { candidates } = await searchMentionCandidates(mentionQuery);
+      if (!cancelled) setCandidates(candidates);
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [mentionQuery]);
+
+  function pick(candidate: MentionCandidate) {
+    if (!mention) return;
+
+    const { text, cursor } = insertMention(value, mention, candidate.username);
+    onChangeText(text);
+    setSelection({ start: cursor, end: cursor });
+    setCandidates([]);
+  }
+
+  return (
+    <View style={containerStyle}>
+      <TextInput
+        {...inputProps}
+        value={value}
+        onChangeText={onChangeText}
+        onSelectionChange={(event) => {
+          setSelection(event.nativeEvent.selection);
+          onSelectionChange?.(event);
+        }}
+      />
+
+      {mention && candidates.length > 0 && (
+        <View style={[
+          styles.suggestions,
+          suggestionsPlacement === 'above' ? styles.suggestionsAbove : styles.suggestionsBelow,
+        ]}>
+          {candidates.map((candidate) => (
+            <TouchableOpacity
+              key={candidate.id}
+              style={styles.suggestion}
+              onPress={() => pick(candidate)}
+            >
+              <Image
+                source={{ uri: candidate.avatar_url || DEFAULT_AVATAR }}
+                style={styles.avatar}
+              />
+              <View style={styles.suggestionText}>
+                <Text style={styles.username}>@{candidate.username}</Text>
+                {candidate.full_name && (
+                  <Text style={styles.fullName} numberOfLines={1}>{candidate.full_name}</Text>
+                )}
+              </View>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  suggestions: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    backgroundColor: 'white',
+    borderRadius: 12,
+    paddingVertical: 4,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+    elevation: 5,
+    zIndex: 10,
+  },
+  suggestionsAbove: {
+    bottom: '100%',
+    marginBottom: 4,
+  },
+  suggestionsBelow: {
+    top: '100%',
+    marginTop: 4,
+  },
+  suggestion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  avatar: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    marginRight: 10,
+  },
+  suggestionText: {
+    flex: 1,
+  },
+  username: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  fullName: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+});
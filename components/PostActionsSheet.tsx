@@ -0,0 +1,194 @@
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ActivityIndicator } from 'react-native';
+import { useState, useEffect } from 'react';
+import { useRouter } from 'expo-router';
+import { X, Pencil, Trash2 } from 'lucide-react-native';
+import { deletePost } from '@/lib/posts';
+
+interface PostActionsSheetProps {
+  postId: string | null;
+  onClose: () => void;
+  onDeleted: (postId: string) => void;
+}
+
+// Bottom sheet with the author's actions on their own post. Visible while
+// postId is set. Deleting asks for confirmation in the sheet itself.
+export default function PostActionsSheet({ postId, onClose, onDeleted }: PostActionsSheetProps) {
+  const router = useRouter();
+  const [confirming, setConfirming] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setConfirming(false);
+    setError(null);
+  }, [postId]);
+
+  function edit() {
+    if (!postId) return;
+
+    onClose();
+    router.push(`/post/edit/${postId}`);
+  }
+
+  async function remove() {
+    if (!postId) return;
+
+    setDeleting(true);
+    setError(null);
+
+    const { error } = await deletePost(postId);
+
+    setDeleting(false);
+
+    if (error) {
+      setError('Не удалось удалить пост');
+      return;
+    }
+
+    onDeleted(postId);
+    onClose();
+  }
+
+  return (
+    <Modal
+      visible={!!postId}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>
+              {confirming ? 'Удалить пост?' : 'Пост'}
+            </Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <X size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+
+          {confirming ? (
+            <>
+              <Text style={styles.confirmText}>
+                Пост, его фото и видео, лайки и комментарии будут удалены без возможности восстановления.
+              </Text>
+              <TouchableOpacity
+                style={[styles.deleteButton, deleting && styles.buttonDisabled]}
+                onPress={remove}
+                disabled={deleting}
+              >
+                {deleting ? (
+                  <ActivityIndicator size="small" color="white" />
+                ) : (
+                  <Text style={styles.deleteButtonText}>Удалить</Text>
+                )}
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={() => setConfirming(false)}
+                disabled={deleting}
+              >
+                <Text style={styles.cancelButtonText}>Отмена</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <>
+              <TouchableOpacity style={styles.option} onPress={edit}>
+                <Pencil size={20} color="#007AFF" />
+                <Text style={styles.optionText}>Редактировать</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.option} onPress={() => setConfirming(true)}>
+                <Trash2 size={20} color="#FF3B30" />
+                <Text style={[styles.optionText, styles.destructiveText]}>Удалить</Text>
+              </TouchableOpacity>
+            </>
+          )}
+
+          {error && (
+            <Text style={styles.errorText}>{error}</Text>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 32,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  optionText: {
+    fontSize: 16,
+    color: '#1C1C1E',
+    marginLeft: 12,
+  },
+  destructiveText: {
+    color: '#FF3B30',
+  },
+  confirmText: {
+    fontSize: 15,
+    color: '#8E8E93',
+    lineHeight: 20,
+    marginBottom: 20,
+  },
+  deleteButton: {
+    backgroundColor: '#FF3B30',
+    borderRadius: 12,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  deleteButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  cancelButton: {
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  cancelButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+  },
+  errorText: {
+    color: '#FF3B30',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,65 @@
+import { View, StyleSheet, TouchableOpacity, StyleProp, ViewStyle } from 'react-native';
+import { useState, useEffect } from 'react';
+import { useVideoPlayer, VideoView } from 'expo-video';
+import { Volume2, VolumeX } from 'lucide-react-native';
+
+interface PostVideoProps {
+  url: string;
+  active: boolean;
+  style?: StyleProp<ViewStyle>;
+}
+
+// Looping clip that starts muted and plays only while active, i.e. while it
+// is the current carousel page of a post in the viewport
+export default function PostVideo({ url, active, style }: PostVideoProps) {
+  const [muted, setMuted] = useState(true);
+  const player = useVideoPlayer(url, player => {
+    player.loop = true;
+    player.muted = true;
+  });
+
+  useEffect(() => {
+    if (active) {
+      player.play();
+    } else {
+      player.pause();
+    }
+  }, [active, player]);
+
+  function toggleMuted() {
+    player.muted = !muted;
+    setMuted(!muted);
+  }
+
+  return (
+    <View style={style}>
+      <VideoView
+        player={player}
+        style={StyleSheet.absoluteFill}
+        contentFit="cover"
+        nativeControls={false}
+      />
+      <TouchableOpacity style={styles.muteButton} onPress={toggleMuted}>
+        {muted ? (
+          <VolumeX size={18} color="white" />
+        ) : (
+          <Volume2 size={18} color="white" />
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  muteButton: {
+    position: 'absolute',
+    right: 12,
+    bottom: 12,
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
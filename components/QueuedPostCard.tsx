@@ -0,0 +1,122 @@
+import { View, Text, StyleSheet, Image, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { CloudOff, AlertCircle, RotateCcw, Trash2, Play } from 'lucide-react-native';
+import { QueuedPost } from '@/lib/postQueue';
+
+interface QueuedPostCardProps {
+  post: QueuedPost;
+  onRetry: (postId: string) => void;
+  onDiscard: (postId: string) => void;
+}
+
+const STATUS_LABELS: Record<QueuedPost['status'], string> = {
+  pending: 'Опубликуется, когда появится сеть',
+  publishing: 'Публикуется…',
+  failed: 'Не удалось опубликовать',
+};
+
+// Compact card for a post that hasn't reached the server yet
+export default function QueuedPostCard({ post, onRetry, onDiscard }: QueuedPostCardProps) {
+  const preview = post.media[0];
+
+  return (
+    <View style={[styles.container, post.status === 'failed' && styles.containerFailed]}>
+      {preview && (
+        preview.media_type === 'video' ? (
+          <View style={[styles.preview, styles.videoPreview]}>
+            <Play size={18} color="white" fill="white" />
+          </View>
+        ) : (
+          <Image source={{ uri: preview.uri }} style={styles.preview} />
+        )
+      )}
+
+      <View style={styles.body}>
+        <Text numberOfLines={2} style={styles.content}>
+          {post.content || `Фото и видео: ${post.media.length}`}
+        </Text>
+        <View style={styles.status}>
+          {post.status === 'publishing' ? (
+            <ActivityIndicator size="small" color="#007AFF" />
+          ) : post.status === 'failed' ? (
+            <AlertCircle size={14} color="#FF3B30" />
+          ) : (
+            <CloudOff size={14} color="#8E8E93" />
+          )}
+          <Text style={[styles.statusText, post.status === 'failed' && styles.statusTextFailed]}>
+            {STATUS_LABELS[post.status]}
+          </Text>
+        </View>
+      </View>
+
+      {post.status !== 'publishing' && (
+        <View style={styles.actions}>
+          {post.status === 'failed' && (
+            <TouchableOpacity style={styles.actionButton} onPress={() => onRetry(post.id)}>
+              <RotateCcw size={20} color="#007AFF" />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.actionButton} onPress={() => onDiscard(post.id)}>
+            <Trash2 size={20} color="#FF3B30" />
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    marginHorizontal: 16,
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#F2F2F7',
+    borderStyle: 'dashed',
+  },
+  containerFailed: {
+    borderColor: '#FF3B30',
+  },
+  preview: {
+    width: 48,
+    height: 48,
+    borderRadius: 8,
+    marginRight: 12,
+    backgroundColor: '#F2F2F7',
+  },
+  videoPreview: {
+    backgroundColor: '#1C1C1E',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  body: {
+    flex: 1,
+  },
+  content: {
+    fontSize: 15,
+    color: '#1C1C1E',
+  },
+  status: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  statusText: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginLeft: 6,
+  },
+  statusTextFailed: {
+    color: '#FF3B30',
+  },
+  actions: {
+    flexDirection: 'row',
+    marginLeft: 8,
+  },
+  actionButton: {
+    padding: 6,
+  },
+});
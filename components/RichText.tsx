@@ -0,0 +1,62 @@
+import { Text, StyleSheet, StyleProp, TextStyle } from 'react-native';
+import { useMemo } from 'react';
+import { useRouter } from 'expo-router';
+import { parseRichText } from '@/lib/richText';
+import { fetchProfileIdByUsername } from '@/lib/mentions';
+
+interface RichTextProps {
+  text: string;
+  style?: StyleProp<TextStyle>;
+  numberOfLines?: number;
+}
+
+// Text with tappable #hashtags and @mentions
+export default function RichText({ text, style, numberOfLines }: RichTextProps) {
+  const router = useRouter();
+  const segments = useMemo(() => parseRichText(text), [text]);
+
+  async function openProfile(username: string) {
+    const { profileId } = await fetchProfileIdByUsername(username);
+    if (profileId) {
+      router.push(`/${profileId}`);
+    }
+  }
+
+  return (
+    <Text style={style} numberOfLines={numberOfLines}>
+      {segments.map((segment, index) => {
+        if (segment.type === 'hashtag') {
+          return (
+            <Text
+              key={index}
+              style={styles.link}
+              onPress={() => router.push(`/tag/${encodeURIComponent(segment.tag)}`)}
+            >
+              {segment.text}
+            </Text>
+          );
+        }
+
+        if (segment.type === 'mention') {
+          return (
+            <Text
+              key={index}
+              style={styles.link}
+              onPress={() => openProfile(segment.username)}
+            >
+              {segment.text}
+            </Text>
+          );
+        }
+
+        return segment.text;
+      })}
+    </Text>
+  );
+}
+
+const styles = StyleSheet.create({
+  link: {
+    color: '#007AFF',
+  },
+});
@@ -0,0 +1,275 @@
+import { View, Text, StyleSheet, Image, TouchableOpacity, Modal, TextInput, ActivityIndicator } from 'react-native';
+import { useState } from 'react';
+import * as ImagePicker from 'expo-image-picker';
+import { Camera, X } from 'lucide-react-native';
+import { GeoPoint } from '@/lib/geo';
+import { SPOT_CATEGORIES, SpotCategory, createSpot } from '@/lib/spots';
+
+interface SpotFormProps {
+  coordinate: GeoPoint | null;
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+// Modal for adding a new spot at the long-pressed map coordinate
+export default function SpotForm({ coordinate, onClose, onCreated }: SpotFormProps) {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [category, setCategory] = useState<SpotCategory>('skatepark');
+  const [imageUri, setImageUri] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function reset() {
+    setTitle('');
+    setDescription('');
+    setCategory('skatepark');
+    setImageUri(null);
+    setError(null);
+  }
+
+  function handleClose() {
+    reset();
+    onClose();
+  }
+
+  async function pickImage() {
+    try {
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsEditing: true,
+        aspect: [4, 3],
+        quality: 0.8,
+      });
+
+      if (!result.canceled) {
+        setImageUri(result.assets[0].uri);
+      }
+    } catch (error) {
+      console.error('Error picking image:', error);
+    }
+  }
+
+  async function handleSave() {
+    if (!coordinate || !title.trim()) return;
+
+    setSaving(true);
+    setError(null);
+
+    const { error } = await createSpot({
+      title: title.trim(),
+      description: description.trim() || null,
+      category,
+      coordinate,
+      imageUri,
+    });
+
+    setSaving(false);
+
+    if (error) {
+      setError('Не удалось добавить место');
+      return;
+    }
+
+    reset();
+    onCreated();
+  }
+
+  return (
+    <Modal
+      visible={!!coordinate}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={handleClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Новое место</Text>
+            <TouchableOpacity onPress={handleClose} disabled={saving}>
+              <X size={24} color="#8E8E93" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.categories}>
+            {(Object.keys(SPOT_CATEGORIES) as SpotCategory[]).map((key) => (
+              <TouchableOpacity
+                key={key}
+                style={[
+                  styles.category,
+                  key === category && { backgroundColor: SPOT_CATEGORIES[key].color },
+                ]}
+                onPress={() => setCategory(key)}
+              >
+                <Text style={[styles.categoryText, key === category && styles.categoryTextActive]}>
+                  {SPOT_CATEGORIES[key].label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TextInput
+            style={styles.input}
+            placeholder="Название"
+            value={title}
+            onChangeText={setTitle}
+            placeholderTextColor="#8E8E93"
+            maxLength={100}
+          />
+          <TextInput
+            style={[styles.input, styles.inputMultiline]}
+            placeholder="Описание (необязательно)"
+            value={description}
+            onChangeText={setDescription}
+            placeholderTextColor="#8E8E93"
+            multiline
+          />
+
+          {imageUri ? (
+            <View style={styles.imagePreview}>
+              <Image source={{ uri: imageUri }} style={styles.image} />
+              <TouchableOpacity style={styles.removeImage} onPress={() => setImageUri(null)}>
+                <X size={16} color="white" />
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <TouchableOpacity style={styles.addPhoto} onPress={pickImage}>
+              <Camera size={20} color="#007AFF" />
+              <Text style={styles.addPhotoText}>Добавить фото</Text>
+            </TouchableOpacity>
+          )}
+
+          {error && (
+            <Text style={styles.error}>{error}</Text>
+          )}
+
+          <TouchableOpacity
+            style={[styles.saveButton, !title.trim() && styles.saveButtonDisabled]}
+            onPress={handleSave}
+            disabled={!title.trim() || saving}
+          >
+            {saving ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <Text style={styles.saveButtonText}>Добавить</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  content: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  categories: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  category: {
+    backgroundColor: '#F2F2F7',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  categoryText: {
+    fontSize: 14,
+    color: '#1C1C1E',
+  },
+  categoryTextActive: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    height: 48,
+    fontSize: 16,
+    color: '#1C1C1E',
+    marginTop: 12,
+  },
+  inputMultiline: {
+    height: 96,
+    paddingTop: 12,
+    textAlignVertical: 'top',
+  },
+  addPhoto: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    height: 48,
+    marginTop: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderStyle: 'dashed',
+  },
+  addPhotoText: {
+    marginLeft: 8,
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#007AFF',
+  },
+  imagePreview: {
+    marginTop: 12,
+  },
+  image: {
+    width: '100%',
+    height: 160,
+    borderRadius: 12,
+  },
+  removeImage: {
+    position: 'absolute',
+    top: 8,
+    right: 8,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderRadius: 12,
+    padding: 4,
+  },
+  error: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,239 @@
+import { View, Text, StyleSheet, Image, TouchableOpacity, Modal, ScrollView, ActivityIndicator } from 'react-native';
+import { useState, useEffect } from 'react';
+import { useRouter } from 'expo-router';
+import { X, MapPin } from 'lucide-react-native';
+import { formatDistance } from '@/lib/geo';
+import { SPOT_CATEGORIES, Spot, SpotPost, fetchSpotPosts } from '@/lib/spots';
+
+const DEFAULT_AVATAR = 'https://images.unsplash.com/photo-1535713875002-d1d0cf377fde?w=200';
+
+interface SpotSheetProps {
+  spot: Spot | null;
+  onClose: () => void;
+}
+
+// Bottom sheet with spot details and posts geotagged near the spot
+export default function SpotSheet({ spot, onClose }: SpotSheetProps) {
+  const [posts, setPosts] = useState<SpotPost[]>([]);
+  const [loadingPosts, setLoadingPosts] = useState(false);
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!spot) return;
+
+    setPosts([]);
+    setLoadingPosts(true);
+    fetchSpotPosts(spot.id).then(({ posts }) => {
+      setPosts(posts);
+      setLoadingPosts(false);
+    });
+  }, [spot]);
+
+  function openPost(postId: string) {
+    onClose();
+    router.push(`/post/${postId}`);
+  }
+
+  function openAuthor() {
+    if (!spot) return;
+    onClose();
+    router.push(`/${spot.user_id}`);
+  }
+
+  const category = spot ? SPOT_CATEGORIES[spot.category] : null;
+
+  return (
+    <Modal
+      visible={!!spot}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.sheet}>
+          {spot && category && (
+            <ScrollView showsVerticalScrollIndicator={false}>
+              <View style={styles.header}>
+                <View style={[styles.categoryBadge, { backgroundColor: category.color }]}>
+                  <Text style={styles.categoryText}>{category.label}</Text>
+                </View>
+                <TouchableOpacity onPress={onClose}>
+                  <X size={24} color="#8E8E93" />
+                </TouchableOpacity>
+              </View>
+
+              <Text style={styles.title}>{spot.title}</Text>
+              {spot.distance_km !== null && (
+                <View style={styles.distanceRow}>
+                  <MapPin size={14} color="#8E8E93" />
+                  <Text style={styles.distanceText}>{formatDistance(spot.distance_km * 1000)} от вас</Text>
+                </View>
+              )}
+
+              {spot.image_url && (
+                <Image source={{ uri: spot.image_url }} style={styles.image} />
+              )}
+              {spot.description && (
+                <Text style={styles.description}>{spot.description}</Text>
+              )}
+
+              {spot.user && (
+                <TouchableOpacity style={styles.author} onPress={openAuthor}>
+                  <Image
+                    source={{ uri: spot.user.avatar_url || DEFAULT_AVATAR }}
+                    style={styles.authorAvatar}
+                  />
+                  <Text style={styles.authorName}>
+                    Добавил(а) {spot.user.full_name || 'Роллер инкогнито'}
+                  </Text>
+                </TouchableOpacity>
+              )}
+
+              <Text style={styles.sectionTitle}>Посты рядом</Text>
+              {loadingPosts ? (
+                <ActivityIndicator color="#007AFF" style={styles.postsLoader} />
+              ) : posts.length === 0 ? (
+                <Text style={styles.emptyText}>Здесь ещё никто не публиковал посты</Text>
+              ) : (
+                posts.map((post) => (
+                  <TouchableOpacity
+                    key={post.id}
+                    style={styles.post}
+                    onPress={() => openPost(post.id)}
+                  >
+                    {post.image_url && (
+                      <Image source={{ uri: post.image_url }} style={styles.postImage} />
+                    )}
+                    <View style={styles.postContent}>
+                      <Text style={styles.postAuthor}>
+                        {post.user?.full_name || 'Роллер инкогнито'}
+                      </Text>
+                      <Text style={styles.postText} numberOfLines={2}>{post.content}</Text>
+                    </View>
+                  </TouchableOpacity>
+                ))
+              )}
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheet: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '80%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  categoryBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  categoryText: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#1C1C1E',
+    marginBottom: 4,
+  },
+  distanceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  distanceText: {
+    marginLeft: 4,
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  image: {
+    width: '100%',
+    height: 200,
+    borderRadius: 12,
+    marginBottom: 12,
+    backgroundColor: '#f2f2f7',
+  },
+  description: {
+    fontSize: 15,
+    color: '#3A3A3C',
+    lineHeight: 22,
+    marginBottom: 12,
+  },
+  author: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  authorAvatar: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    marginRight: 8,
+    backgroundColor: '#f2f2f7',
+  },
+  authorName: {
+    fontSize: 14,
+    color: '#1C1C1E',
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  postsLoader: {
+    marginVertical: 16,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#8E8E93',
+    marginBottom: 8,
+  },
+  post: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderColor: '#F2F2F7',
+  },
+  postImage: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+    marginRight: 12,
+    backgroundColor: '#f2f2f7',
+  },
+  postContent: {
+    flex: 1,
+  },
+  postAuthor: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 2,
+  },
+  postText: {
+    fontSize: 14,
+    color: '#3A3A3C',
+  },
+});
@@ -0,0 +1,125 @@
+import { View, Text, StyleSheet, Image, TouchableOpacity, ScrollView } from 'react-native';
+import { Plus } from 'lucide-react-native';
+import { StoryGroup } from '@/lib/stories';
+
+const DEFAULT_AVATAR = 'https://images.unsplash.com/photo-1535713875002-d1d0cf377fde?w=200';
+
+interface StoriesRailProps {
+  groups: StoryGroup[];
+  currentUserId: string | null;
+  currentUserAvatar: string | null;
+  onOpen: (index: number) => void;
+  onCreate: () => void;
+}
+
+// Horizontal list of users with active stories. Unseen stories get a
+// colored ring.
+export default function StoriesRail({ groups, currentUserId, currentUserAvatar, onOpen, onCreate }: StoriesRailProps) {
+  const hasOwnStories = groups[0]?.user_id === currentUserId;
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.container}
+      contentContainerStyle={styles.content}
+    >
+      {!hasOwnStories && (
+        <TouchableOpacity style={styles.item} onPress={onCreate}>
+          <View style={styles.ring}>
+            <Image
+              source={{ uri: currentUserAvatar || DEFAULT_AVATAR }}
+              style={styles.avatar}
+            />
+            <View style={styles.addBadge}>
+              <Plus size={12} color="white" />
+            </View>
+          </View>
+          <Text style={styles.name} numberOfLines={1}>Ваша история</Text>
+        </TouchableOpacity>
+      )}
+
+      {groups.map((group, index) => {
+        const isOwn = group.user_id === currentUserId;
+
+        return (
+          <TouchableOpacity
+            key={group.user_id}
+            style={styles.item}
+            onPress={() => onOpen(index)}
+            onLongPress={isOwn ? onCreate : undefined}
+          >
+            <View style={[styles.ring, group.has_unseen && styles.ringUnseen]}>
+              <Image
+                source={{ uri: group.avatar_url || DEFAULT_AVATAR }}
+                style={styles.avatar}
+              />
+              {isOwn && (
+                <TouchableOpacity style={styles.addBadge} onPress={onCreate}>
+                  <Plus size={12} color="white" />
+                </TouchableOpacity>
+              )}
+            </View>
+            <Text style={styles.name} numberOfLines={1}>
+              {isOwn ? 'Ваша история' : group.full_name || 'Роллер'}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 0,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderColor: '#F2F2F7',
+  },
+  content: {
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+  },
+  item: {
+    width: 72,
+    alignItems: 'center',
+    marginHorizontal: 4,
+  },
+  ring: {
+    width: 68,
+    height: 68,
+    borderRadius: 34,
+    borderWidth: 2,
+    borderColor: '#E5E5EA',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  ringUnseen: {
+    borderColor: '#FF2D55',
+  },
+  avatar: {
+    width: 58,
+    height: 58,
+    borderRadius: 29,
+    backgroundColor: '#f2f2f7',
+  },
+  addBadge: {
+    position: 'absolute',
+    right: 0,
+    bottom: 0,
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    backgroundColor: '#007AFF',
+    borderWidth: 2,
+    borderColor: 'white',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  name: {
+    fontSize: 12,
+    color: '#1C1C1E',
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,214 @@
+import { View, Text, StyleSheet, Image, TouchableOpacity, Modal, Pressable, Animated, Easing } from 'react-native';
+import { useState, useEffect, useRef } from 'react';
+import { X, Trash2 } from 'lucide-react-native';
+import { StoryGroup, deleteStory, markStorySeen } from '@/lib/stories';
+
+const DEFAULT_AVATAR = 'https://images.unsplash.com/photo-1535713875002-d1d0cf377fde?w=200';
+
+const STORY_DURATION_MS = 5000;
+
+interface StoryViewerProps {
+  groups: StoryGroup[];
+  initialGroupIndex: number | null;
+  currentUserId: string | null;
+  onClose: () => void;
+  onDeleted: () => void;
+}
+
+// Resume a group from its first unseen story
+function firstUnseenIndex(group: StoryGroup | undefined) {
+  const index = group?.stories.findIndex(story => !story.seen) ?? -1;
+  return index === -1 ? 0 : index;
+}
+
+// Full-screen viewer. Tapping the right side advances, the left side goes
+// back; each story advances on its own after STORY_DURATION_MS.
+// The starting position is read once on mount, so render it with
+// key={initialGroupIndex} to open another group.
+export default function StoryViewer({ groups, initialGroupIndex, currentUserId, onClose, onDeleted }: StoryViewerProps) {
+  const [groupIndex, setGroupIndex] = useState(initialGroupIndex ?? 0);
+  const [storyIndex, setStoryIndex] = useState(() =>
+    initialGroupIndex === null ? 0 : firstUnseenIndex(groups[initialGroupIndex])
+  );
+  const progress = useRef(new Animated.Value(0)).current;
+
+  const group = initialGroupIndex === null ? null : groups[groupIndex];
+  const story = group?.stories[storyIndex];
+
+  useEffect(() => {
+    if (!story) return;
+
+    markStorySeen(story.id);
+
+    progress.setValue(0);
+    const animation = Animated.timing(progress, {
+      toValue: 1,
+      duration: STORY_DURATION_MS,
+      easing: Easing.linear,
+      useNativeDriver: false,
+    });
+    animation.start(({ finished }) => {
+      if (finished) next();
+    });
+
+    return () => animation.stop();
+  }, [story?.id]);
+
+  function next() {
+    if (!group) return;
+
+    if (storyIndex < group.stories.length - 1) {
+      setStoryIndex(storyIndex + 1);
+    } else if (groupIndex < groups.length - 1) {
+      setGroupIndex(groupIndex + 1);
+      setStoryIndex(0);
+    } else {
+      onClose();
+    }
+  }
+
+  function previous() {
+    if (storyIndex > 0) {
+      setStoryIndex(storyIndex - 1);
+    } else if (groupIndex > 0) {
+      setGroupIndex(groupIndex - 1);
+      setStoryIndex(groups[groupIndex - 1].stories.length - 1);
+    } else {
+      progress.setValue(0);
+    }
+  }
+
+  async function handleDelete() {
+    if (!story) return;
+
+    const { error } = await deleteStory(story.id);
+    if (!error) {
+      onClose();
+      onDeleted();
+    }
+  }
+
+  return (
+    <Modal
+      visible={!!story}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      {group && story && (
+        <View style={styles.container}>
+          <Image
+            source={{ uri: story.image_url }}
+            style={styles.image}
+            resizeMode="contain"
+          />
+
+          <View style={styles.touchAreas}>
+            <Pressable style={styles.touchArea} onPress={previous} />
+            <Pressable style={styles.touchArea} onPress={next} />
+          </View>
+
+          <View style={styles.header}>
+            <View style={styles.progressBars}>
+              {group.stories.map((item, index) => (
+                <View key={item.id} style={styles.progressTrack}>
+                  <Animated.View
+                    style={[
+                      styles.progressFill,
+                      {
+                        width: index < storyIndex
+                          ? '100%'
+                          : index === storyIndex
+                            ? progress.interpolate({ inputRange: [0, 1], outputRange: ['0%', '100%'] })
+                            : '0%',
+                      },
+                    ]}
+                  />
+                </View>
+              ))}
+            </View>
+
+            <View style={styles.userRow}>
+              <Image
+                source={{ uri: group.avatar_url || DEFAULT_AVATAR }}
+                style={styles.avatar}
+              />
+              <Text style={styles.userName}>{group.full_name || 'Роллер'}</Text>
+              <View style={styles.headerActions}>
+                {group.user_id === currentUserId && (
+                  <TouchableOpacity onPress={handleDelete} style={styles.headerButton}>
+                    <Trash2 size={22} color="white" />
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+                  <X size={26} color="white" />
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        </View>
+      )}
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'black',
+  },
+  image: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  touchAreas: {
+    ...StyleSheet.absoluteFillObject,
+    flexDirection: 'row',
+  },
+  touchArea: {
+    flex: 1,
+  },
+  header: {
+    position: 'absolute',
+    top: 48,
+    left: 12,
+    right: 12,
+  },
+  progressBars: {
+    flexDirection: 'row',
+  },
+  progressTrack: {
+    flex: 1,
+    height: 3,
+    borderRadius: 2,
+    marginHorizontal: 2,
+    backgroundColor: 'rgba(255, 255, 255, 0.35)',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: 'white',
+  },
+  userRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  avatar: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    marginRight: 8,
+    backgroundColor: '#f2f2f7',
+  },
+  userName: {
+    flex: 1,
+    color: 'white',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  headerActions: {
+    flexDirection: 'row',
+  },
+  headerButton: {
+    marginLeft: 16,
+  },
+});
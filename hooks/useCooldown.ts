@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+
+// Seconds left before an action may be repeated, e.g. resending an email
+export function useCooldown(initialSeconds = 0) {
+  const [secondsLeft, setSecondsLeft] = useState(initialSeconds);
+
+  useEffect(() => {
+    if (secondsLeft <= 0) return;
+
+    const timeout = setTimeout(() => setSecondsLeft(seconds => seconds - 1), 1000);
+    return () => clearTimeout(timeout);
+  }, [secondsLeft]);
+
+  return {
+    secondsLeft,
+    start: (seconds: number) => setSecondsLeft(seconds),
+  };
+}
@@ -0,0 +1,61 @@
+import { useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import {
+  QueuedPost,
+  fetchQueuedPosts,
+  processPostQueue,
+  removeQueuedPost,
+  resetInterruptedPosts,
+  retryQueuedPost,
+  subscribeToPostQueue,
+} from '@/lib/postQueue';
+
+// Keeps the offline post queue in sync and publishes it whenever the device
+// comes back online. onPublished runs after at least one post went out.
+export function usePostQueue(onPublished?: () => void) {
+  const [queuedPosts, setQueuedPosts] = useState<QueuedPost[]>([]);
+  const onPublishedRef = useRef(onPublished);
+  onPublishedRef.current = onPublished;
+
+  useEffect(() => {
+    const unsubscribe = subscribeToPostQueue(setQueuedPosts);
+
+    resetInterruptedPosts()
+      .then(fetchQueuedPosts)
+      .then((posts) => {
+        setQueuedPosts(posts);
+        process();
+      });
+
+    const unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+      if (state.isConnected && state.isInternetReachable !== false) process();
+    });
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') process();
+    });
+
+    return () => {
+      unsubscribe();
+      unsubscribeNetInfo();
+      subscription.remove();
+    };
+  }, []);
+
+  async function process() {
+    const published = await processPostQueue();
+    if (published > 0) onPublishedRef.current?.();
+  }
+
+  async function retry(postId: string) {
+    const published = await retryQueuedPost(postId);
+    if (published > 0) onPublishedRef.current?.();
+  }
+
+  return {
+    queuedPosts,
+    retry,
+    discard: removeQueuedPost,
+  };
+}
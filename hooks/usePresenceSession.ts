@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import {
+  PresenceSession,
+  getPresenceSession,
+  isPresenceSupported,
+  startPresenceSession,
+  stopPresenceSession,
+} from '@/lib/presence';
+
+export function usePresenceSession() {
+  const [session, setSession] = useState<PresenceSession | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    refresh();
+
+    // The background task may have ended the session while the app was away
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') refresh();
+    });
+    return () => subscription.remove();
+  }, []);
+
+  async function refresh() {
+    setSession(await getPresenceSession());
+  }
+
+  async function start() {
+    setIsUpdating(true);
+    setError(null);
+
+    const { session, error } = await startPresenceSession();
+    if (error) {
+      setError('Для режима «Катаюсь сейчас» разрешите доступ к геолокации в фоне');
+    }
+    setSession(session);
+    setIsUpdating(false);
+  }
+
+  async function stop() {
+    setIsUpdating(true);
+    await stopPresenceSession();
+    setSession(null);
+    setIsUpdating(false);
+  }
+
+  return {
+    isSupported: isPresenceSupported,
+    isActive: !!session,
+    startedAt: session?.startedAt ?? null,
+    isUpdating,
+    error,
+    start,
+    stop,
+  };
+}
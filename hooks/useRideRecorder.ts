@@ -0,0 +1,163 @@
+import { useEffect, useRef, useState } from 'react';
+import * as Location from 'expo-location';
+import { trackDistance } from '@/lib/geo';
+import {
+  RideDraft,
+  RouteData,
+  TrackPoint,
+  clearRideDraft,
+  loadRideDraft,
+  saveRideDraft,
+} from '@/lib/routes';
+
+// Fixes less accurate than this are GPS noise and would inflate the distance
+const MAX_ACCURACY_M = 30;
+const DRAFT_SAVE_INTERVAL_MS = 10000;
+
+export function buildRouteData(points: TrackPoint[], startedAt: number, finishedAt: number): RouteData {
+  return {
+    points,
+    distance_m: Math.round(trackDistance(points)),
+    duration_s: Math.round((finishedAt - startedAt) / 1000),
+  };
+}
+
+export function useRideRecorder() {
+  const [isRecording, setIsRecording] = useState(false);
+  const [points, setPoints] = useState<TrackPoint[]>([]);
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [pendingDraft, setPendingDraft] = useState<RideDraft | null>(null);
+  const subscription = useRef<Location.LocationSubscription | null>(null);
+  const pointsRef = useRef<TrackPoint[]>([]);
+  const startedAtRef = useRef<number | null>(null);
+  const lastDraftSave = useRef(0);
+  const starting = useRef(false);
+
+  useEffect(() => {
+    // A draft left behind means the app was killed mid-ride
+    loadRideDraft().then((draft) => {
+      if (draft && draft.points.length > 0) {
+        setPendingDraft(draft);
+      }
+    });
+
+    return () => {
+      subscription.current?.remove();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isRecording) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isRecording]);
+
+  // Returns false if location access was denied. A call while a ride is being
+  // recorded or started does nothing.
+  async function start(draft?: RideDraft) {
+    if (isRecording || starting.current) return true;
+
+    starting.current = true;
+    try {
+      return await startWatching(draft);
+    } finally {
+      starting.current = false;
+    }
+  }
+
+  async function startWatching(draft?: RideDraft) {
+    const { status } = await Location.requestForegroundPermissionsAsync();
+    if (status !== 'granted') return false;
+
+    const rideStartedAt = draft?.startedAt ?? Date.now();
+    pointsRef.current = draft?.points ?? [];
+    startedAtRef.current = rideStartedAt;
+
+    setPoints(pointsRef.current);
+    setStartedAt(rideStartedAt);
+    setNow(Date.now());
+    setPendingDraft(null);
+    setIsRecording(true);
+
+    await saveRideDraft({ startedAt: rideStartedAt, points: pointsRef.current });
+    lastDraftSave.current = Date.now();
+
+    const watch = await Location.watchPositionAsync(
+      {
+        accuracy: Location.Accuracy.BestForNavigation,
+        timeInterval: 2000,
+        distanceInterval: 5,
+      },
+      (location) => {
+        if (location.coords.accuracy && location.coords.accuracy > MAX_ACCURACY_M) return;
+
+        pointsRef.current = [
+          ...pointsRef.current,
+          {
+            latitude: location.coords.latitude,
+            longitude: location.coords.longitude,
+            timestamp: location.timestamp,
+          },
+        ];
+        setPoints(pointsRef.current);
+
+        if (Date.now() - lastDraftSave.current > DRAFT_SAVE_INTERVAL_MS) {
+          lastDraftSave.current = Date.now();
+          saveRideDraft({ startedAt: rideStartedAt, points: pointsRef.current });
+        }
+      }
+    );
+
+    subscription.current?.remove();
+    subscription.current = watch;
+
+    return true;
+  }
+
+  // Stops tracking but keeps the draft until the ride is saved or discarded
+  function stop(): RouteData | null {
+    subscription.current?.remove();
+    subscription.current = null;
+    setIsRecording(false);
+
+    if (!startedAtRef.current) return null;
+
+    // Offered again if the finished ride is closed without saving
+    const draft = { startedAt: startedAtRef.current, points: pointsRef.current };
+    saveRideDraft(draft);
+    setPendingDraft(draft.points.length > 0 ? draft : null);
+    return buildRouteData(pointsRef.current, startedAtRef.current, Date.now());
+  }
+
+  async function discard() {
+    subscription.current?.remove();
+    subscription.current = null;
+    pointsRef.current = [];
+    startedAtRef.current = null;
+
+    setIsRecording(false);
+    setPoints([]);
+    setStartedAt(null);
+    setPendingDraft(null);
+
+    await clearRideDraft();
+  }
+
+  const distance = trackDistance(points);
+  const duration = startedAt ? Math.max(0, (now - startedAt) / 1000) : 0;
+  const averageSpeed = duration > 0 ? distance / duration : 0;
+
+  return {
+    isRecording,
+    points,
+    distance,
+    duration,
+    averageSpeed,
+    pendingDraft,
+    start,
+    stop,
+    discard,
+  };
+}
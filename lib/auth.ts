@@ -1,16 +1,65 @@
 import * as SecureStore from 'expo-secure-store';
+import * as WebBrowser from 'expo-web-browser';
+import * as Linking from 'expo-linking';
+import { makeRedirectUri } from 'expo-auth-session';
 import { router } from 'expo-router';
+import { UserIdentity } from '@supabase/supabase-js';
 import { supabase } from './supabase';
 
+export type OAuthProvider = 'google' | 'apple';
+
+// Providers enabled in the Supabase dashboard. Supabase Auth has no VK
+// provider, so VK sign-in would need its own Edge Function like Telegram.
+export const OAUTH_PROVIDERS: Record<OAuthProvider, string> = {
+  google: 'Google',
+  apple: 'Apple',
+};
+
+// OAuth, magic link and email confirmation redirects. Handled by
+// app/auth-callback.tsx when they arrive as a deep link.
+const AUTH_REDIRECT_URL = makeRedirectUri({ scheme: 'myapp', path: 'auth-callback' });
+// The recovery link opens app/reset-password.tsx to choose a new password
+const PASSWORD_RESET_REDIRECT_URL = makeRedirectUri({ scheme: 'myapp', path: 'reset-password' });
+
+// Supabase refuses to send another email to the same address within a minute
+export const EMAIL_RESEND_COOLDOWN_S = 60;
+
+// Fields returned by the Telegram Login Widget, verified by the `telegram-auth` Edge Function
+export interface TelegramAuthData {
+  id: number;
+  first_name?: string;
+  last_name?: string;
+  username?: string;
+  photo_url?: string;
+  auth_date: number;
+  hash: string;
+}
+
+// The signed-in user's own profile, shared through AuthProvider
+export interface CurrentProfile {
+  id: string;
+  full_name: string | null;
+  username: string | null;
+  avatar_url: string | null;
+  avatar_thumbnail_url: string | null;
+}
+
+const TELEGRAM_BOT_ID = process.env.EXPO_PUBLIC_TELEGRAM_BOT_ID;
+// The domain registered for the bot with /setdomain. Telegram only redirects
+// there, so the web build is deployed on it to serve app/telegram-auth.tsx,
+// which forwards the `#tgAuthResult` fragment to the app. See README.md.
+const TELEGRAM_AUTH_ORIGIN = process.env.EXPO_PUBLIC_TELEGRAM_AUTH_ORIGIN;
+
 export async function signUp(email: string, password: string) {
   try {
-    const { data: { user }, error: signUpError } = await supabase.auth.signUp({
+    const { data: { user, session }, error: signUpError } = await supabase.auth.signUp({
       email,
       password,
       options: {
         data: {
           email: email,
         },
+        emailRedirectTo: AUTH_REDIRECT_URL,
       },
     });
 
@@ -18,30 +67,12 @@ export async function signUp(email: string, password: string) {
 
     if (!user) throw new Error('No user data returned');
 
-    // Create initial profile
-    const { error: profileError } = await supabase
-      .from('profiles')
-      .upsert({
-        id: user.id,
-        email: email,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      });
-
-    if (profileError) {
-      console.error('Error creating profile:', profileError);
-      // Still proceed since the user was created
+    // Email confirmation is required: the link from the email signs the user in
+    if (!session) {
+      router.replace({ pathname: '/verify-email', params: { email } });
+      return { user, error: null };
     }
 
-    // Automatically sign in after registration
-    const { error: signInError } = await supabase.auth.signInWithPassword({
-      email,
-      password,
-    });
-
-    if (signInError) throw signInError;
-
-    router.replace('/(tabs)');
     return { user, error: null };
   } catch (error: any) {
     console.error('Sign up error:', error);
@@ -57,8 +88,6 @@ export async function signIn(email: string, password: string) {
     });
 
     if (error) throw error;
-
-    router.replace('/(tabs)');
     return { user, error: null };
   } catch (error: any) {
     console.error('Sign in error:', error);
@@ -66,12 +95,77 @@ export async function signIn(email: string, password: string) {
   }
 }
 
+export async function resendVerification(email: string) {
+  try {
+    const { error } = await supabase.auth.resend({
+      type: 'signup',
+      email,
+      options: {
+        emailRedirectTo: AUTH_REDIRECT_URL,
+      },
+    });
+
+    if (error) throw error;
+    return { error: null };
+  } catch (error: any) {
+    console.error('Resend verification error:', error);
+    return { error };
+  }
+}
+
+// Passwordless sign-in. Only existing accounts get a link, new users sign up
+// so they choose a password.
+export async function sendMagicLink(email: string) {
+  try {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        emailRedirectTo: AUTH_REDIRECT_URL,
+        shouldCreateUser: false,
+      },
+    });
+
+    if (error) throw error;
+    return { error: null };
+  } catch (error: any) {
+    console.error('Magic link error:', error);
+    return { error };
+  }
+}
+
+export async function requestPasswordReset(email: string) {
+  try {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: PASSWORD_RESET_REDIRECT_URL,
+    });
+
+    if (error) throw error;
+    return { error: null };
+  } catch (error: any) {
+    console.error('Password reset error:', error);
+    return { error };
+  }
+}
+
+// Sets a new password for the user signed in by the recovery link
+export async function updatePassword(password: string) {
+  try {
+    const { error } = await supabase.auth.updateUser({ password });
+    if (error) throw error;
+
+    router.replace('/(tabs)');
+    return { error: null };
+  } catch (error: any) {
+    console.error('Update password error:', error);
+    return { error };
+  }
+}
+
 export async function signOut() {
   try {
+    // The root layout sends the user to the sign-in screen
     const { error } = await supabase.auth.signOut();
     if (error) throw error;
-    
-    router.replace('/auth');
   } catch (error) {
     console.error('Sign out error:', error);
   }
@@ -86,4 +180,231 @@ export async function getCurrentUser() {
     console.error('Get current user error:', error);
     return null;
   }
-}
\ No newline at end of file
+}
+
+function parseTelegramAuthResult(url: string): TelegramAuthData | null {
+  const match = url.match(/[#?&]tgAuthResult=([^&]+)/);
+  if (!match) return null;
+
+  const base64 = decodeURIComponent(match[1]).replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  // atob() gives one char per byte; percent-encode them to decode the UTF-8 names
+  const json = decodeURIComponent(
+    Array.from(atob(padded), char => '%' + char.charCodeAt(0).toString(16).padStart(2, '0')).join('')
+  );
+  const data = JSON.parse(json);
+
+  return data && data.id && data.hash ? data : null;
+}
+
+// The app's own deep link for the Telegram relay page; Expo Go links only in
+// development, since their host could be anyone's project
+const TELEGRAM_REDIRECT_URL = 'myapp://telegram-auth';
+const EXPO_GO_TELEGRAM_REDIRECT = /^exps?:\/\/[^/?#]+\/--\/telegram-auth$/;
+
+// Whether app/telegram-auth.tsx may forward the signed login data to `uri`.
+// Anything else would hand it to whoever crafted the link.
+export function isTelegramRedirectUrl(uri: string) {
+  return uri === TELEGRAM_REDIRECT_URL || (__DEV__ && EXPO_GO_TELEGRAM_REDIRECT.test(uri));
+}
+
+// Opens the Telegram login page. Resolves to null if the user closes it.
+async function requestTelegramAuth() {
+  if (!TELEGRAM_BOT_ID || !TELEGRAM_AUTH_ORIGIN) {
+    throw new Error('Missing Telegram environment variables. Please check your .env file.');
+  }
+
+  const redirectUrl = Linking.createURL('telegram-auth');
+  const returnTo = `${TELEGRAM_AUTH_ORIGIN}/telegram-auth?redirect_uri=${encodeURIComponent(redirectUrl)}`;
+  const authUrl = 'https://oauth.telegram.org/auth' +
+    `?bot_id=${TELEGRAM_BOT_ID}` +
+    `&origin=${encodeURIComponent(TELEGRAM_AUTH_ORIGIN)}` +
+    '&request_access=write' +
+    `&return_to=${encodeURIComponent(returnTo)}`;
+
+  const result = await WebBrowser.openAuthSessionAsync(authUrl, redirectUrl);
+  if (result.type !== 'success') return null;
+
+  const auth = parseTelegramAuthResult(result.url);
+  if (!auth) throw new Error('Telegram returned no auth data');
+  return auth;
+}
+
+export async function signInWithTelegram() {
+  try {
+    const auth = await requestTelegramAuth();
+    if (!auth) return { user: null, cancelled: true, error: null };
+
+    const { data, error: functionError } = await supabase.functions.invoke('telegram-auth', {
+      body: { mode: 'sign_in', auth },
+    });
+
+    if (functionError) throw functionError;
+
+    const { data: { user }, error } = await supabase.auth.verifyOtp({
+      type: 'magiclink',
+      token_hash: data.token_hash,
+    });
+
+    if (error) throw error;
+    return { user, cancelled: false, error: null };
+  } catch (error: any) {
+    console.error('Telegram sign in error:', error);
+    return { user: null, cancelled: false, error };
+  }
+}
+
+// Links Telegram to the signed-in account so it can also sign in through Telegram
+export async function linkTelegram() {
+  try {
+    const auth = await requestTelegramAuth();
+    if (!auth) return { linked: false, error: null };
+
+    const { error } = await supabase.functions.invoke('telegram-auth', {
+      body: { mode: 'link', auth },
+    });
+
+    if (error?.context?.status === 409) {
+      throw new Error('Telegram already linked to another account');
+    }
+    if (error) throw error;
+    return { linked: true, error: null };
+  } catch (error: any) {
+    console.error('Telegram link error:', error);
+    return { linked: false, error };
+  }
+}
+
+// The same redirect can arrive both as the auth session result and as a deep
+// link, and a PKCE code can only be exchanged once
+const codeExchanges = new Map<string, ReturnType<typeof supabase.auth.exchangeCodeForSession>>();
+
+// Profiles are created by handle_new_user() in the database. This repairs
+// accounts where that failed and fills the name and avatar from a newly
+// linked OAuth provider, see ensure_profile().
+export async function ensureProfile() {
+  try {
+    const { error } = await supabase.rpc('ensure_profile');
+    if (error) throw error;
+    return { error: null };
+  } catch (error: any) {
+    console.error('Error ensuring profile:', error);
+    return { error };
+  }
+}
+
+// Loads the signed-in user's profile and repairs it if it's missing, e.g. for
+// a session restored from storage whose profile handle_new_user() couldn't create
+export async function fetchCurrentProfile(userId: string) {
+  try {
+    const select = 'id, full_name, username, avatar_url, avatar_thumbnail_url';
+    let { data, error } = await supabase
+      .from('profiles')
+      .select(select)
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!data) {
+      await ensureProfile();
+      ({ data, error } = await supabase
+        .from('profiles')
+        .select(select)
+        .eq('id', userId)
+        .maybeSingle());
+
+      if (error) throw error;
+    }
+
+    return { profile: data as CurrentProfile | null, error: null };
+  } catch (error: any) {
+    console.error('Error fetching current profile:', error);
+    return { profile: null, error };
+  }
+}
+
+// Finishes an OAuth sign-in, identity link or email link from the redirect URL
+export async function completeAuthRedirect(url: string) {
+  const { queryParams } = Linking.parse(url);
+  const errorDescription = queryParams?.error_description ?? queryParams?.error;
+  if (errorDescription) throw new Error(String(errorDescription));
+
+  const code = queryParams?.code;
+  if (typeof code !== 'string') throw new Error('No auth code in redirect');
+
+  let exchange = codeExchanges.get(code);
+  if (!exchange) {
+    exchange = supabase.auth.exchangeCodeForSession(code);
+    codeExchanges.set(code, exchange);
+  }
+
+  const { data: { user }, error } = await exchange;
+  if (error) throw error;
+
+  await ensureProfile();
+  return user;
+}
+
+async function openOAuthSession(url: string) {
+  const result = await WebBrowser.openAuthSessionAsync(url, AUTH_REDIRECT_URL);
+  if (result.type !== 'success') return null;
+
+  return completeAuthRedirect(result.url);
+}
+
+// An existing account with the same verified email is signed in instead of
+// creating a new one; Supabase links the provider to it automatically
+export async function signInWithProvider(provider: OAuthProvider) {
+  try {
+    const { data, error } = await supabase.auth.signInWithOAuth({
+      provider,
+      options: {
+        redirectTo: AUTH_REDIRECT_URL,
+        skipBrowserRedirect: true,
+      },
+    });
+
+    if (error) throw error;
+
+    const user = await openOAuthSession(data.url);
+    if (!user) return { user: null, cancelled: true, error: null };
+    return { user, cancelled: false, error: null };
+  } catch (error: any) {
+    console.error('OAuth sign in error:', error);
+    return { user: null, cancelled: false, error };
+  }
+}
+
+export async function fetchIdentities() {
+  try {
+    const { data, error } = await supabase.auth.getUserIdentities();
+    if (error) throw error;
+    return { identities: data.identities, error: null };
+  } catch (error: any) {
+    console.error('Error fetching identities:', error);
+    return { identities: [] as UserIdentity[], error };
+  }
+}
+
+// Adds a provider to the signed-in account, e.g. Google for a user who
+// registered with an email that Google doesn't know
+export async function linkProvider(provider: OAuthProvider) {
+  try {
+    const { data, error } = await supabase.auth.linkIdentity({
+      provider,
+      options: {
+        redirectTo: AUTH_REDIRECT_URL,
+        skipBrowserRedirect: true,
+      },
+    });
+
+    if (error) throw error;
+
+    const user = await openOAuthSession(data.url);
+    return { linked: !!user, error: null };
+  } catch (error: any) {
+    console.error('OAuth link error:', error);
+    return { linked: false, error };
+  }
+}
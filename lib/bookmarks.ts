@@ -0,0 +1,151 @@
+import { getSessionUser, supabase } from './supabase';
+
+export interface BookmarkCollection {
+  id: string;
+  name: string;
+  created_at: string;
+}
+
+export interface SavedPost {
+  id: string;
+  content: string;
+  image_url: string | null;
+  thumbnail_url: string | null;
+  likes: number;
+  created_at: string;
+  collection_id: string | null;
+}
+
+export async function fetchCollections() {
+  try {
+    const { data, error } = await supabase
+      .from('bookmark_collections')
+      .select('id, name, created_at')
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return { collections: (data || []) as BookmarkCollection[], error: null };
+  } catch (error: any) {
+    console.error('Error fetching collections:', error);
+    return { collections: [] as BookmarkCollection[], error };
+  }
+}
+
+export async function createCollection(name: string) {
+  try {
+    const user = await getSessionUser();
+    if (!user) throw new Error('No user found');
+
+    const { data, error } = await supabase
+      .from('bookmark_collections')
+      .insert({ user_id: user.id, name: name.trim() })
+      .select('id, name, created_at')
+      .single();
+
+    if (error) throw error;
+    return { collection: data as BookmarkCollection, error: null };
+  } catch (error: any) {
+    console.error('Error creating collection:', error);
+    return { collection: null, error };
+  }
+}
+
+// Bookmarks in the collection stay saved, they just lose their collection
+export async function deleteCollection(collectionId: string) {
+  try {
+    const { error } = await supabase
+      .from('bookmark_collections')
+      .delete()
+      .eq('id', collectionId);
+
+    if (error) throw error;
+    return { error: null };
+  } catch (error: any) {
+    console.error('Error deleting collection:', error);
+    return { error };
+  }
+}
+
+export async function setBookmark(postId: string, bookmarked: boolean) {
+  try {
+    const user = await getSessionUser();
+    if (!user) throw new Error('No user found');
+
+    const { error } = bookmarked
+      ? await supabase
+        .from('bookmarks')
+        .upsert(
+          { post_id: postId, user_id: user.id },
+          { onConflict: 'user_id,post_id', ignoreDuplicates: true }
+        )
+      : await supabase
+        .from('bookmarks')
+        .delete()
+        .eq('post_id', postId)
+        .eq('user_id', user.id);
+
+    if (error) throw error;
+    return { error: null };
+  } catch (error: any) {
+    console.error('Error updating bookmark:', error);
+    return { error };
+  }
+}
+
+// Saves the post if needed and moves it into the collection (null for none)
+export async function saveToCollection(postId: string, collectionId: string | null) {
+  try {
+    const user = await getSessionUser();
+    if (!user) throw new Error('No user found');
+
+    const { error } = await supabase
+      .from('bookmarks')
+      .upsert(
+        { post_id: postId, user_id: user.id, collection_id: collectionId },
+        { onConflict: 'user_id,post_id' }
+      );
+
+    if (error) throw error;
+    return { error: null };
+  } catch (error: any) {
+    console.error('Error saving to collection:', error);
+    return { error };
+  }
+}
+
+// Most recently saved first. Pass a collection id to filter by collection.
+export async function fetchSavedPosts(collectionId?: string) {
+  try {
+    let query = supabase
+      .from('bookmarks')
+      .select(`
+        collection_id,
+        post:posts(id, content, image_url, thumbnail_url, created_at, likes(count))
+      `)
+      .order('created_at', { ascending: false });
+
+    if (collectionId) {
+      query = query.eq('collection_id', collectionId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const posts: SavedPost[] = (data || [])
+      .filter((bookmark: any) => bookmark.post)
+      .map(({ collection_id, post }: any) => ({
+        id: post.id,
+        content: post.content,
+        image_url: post.image_url,
+        thumbnail_url: post.thumbnail_url,
+        created_at: post.created_at,
+        likes: post.likes?.[0]?.count || 0,
+        collection_id,
+      }));
+
+    return { posts, error: null };
+  } catch (error: any) {
+    console.error('Error fetching saved posts:', error);
+    return { posts: [] as SavedPost[], error };
+  }
+}
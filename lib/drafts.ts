@@ -0,0 +1,96 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { GeoPoint } from './geo';
+import { PickedMedia } from './postMedia';
+
+// Unpublished posts are kept on the device: drafts the composer autosaves and
+// the files they reference.
+
+export interface PostDraft {
+  id: string;
+  content: string;
+  location: GeoPoint | null;
+  media: PickedMedia[];
+  updated_at: number;
+}
+
+const POST_DRAFTS_KEY = 'post_drafts';
+
+// The picker hands out files in the cache directory, which the OS may clear
+const DRAFT_MEDIA_DIRECTORY = `${FileSystem.documentDirectory}post-drafts/`;
+
+export const createDraftId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const isDraftEmpty = (draft: Pick<PostDraft, 'content' | 'media'>) =>
+  !draft.content.trim() && draft.media.length === 0;
+
+// Most recently edited first
+export async function fetchDrafts(): Promise<PostDraft[]> {
+  try {
+    const value = await AsyncStorage.getItem(POST_DRAFTS_KEY);
+    const drafts: PostDraft[] = value ? JSON.parse(value) : [];
+    return drafts.sort((a, b) => b.updated_at - a.updated_at);
+  } catch (error) {
+    console.error('Error loading drafts:', error);
+    return [];
+  }
+}
+
+// Inserts or replaces the draft with the same id
+export async function saveDraft(draft: PostDraft) {
+  try {
+    const drafts = await fetchDrafts();
+    await AsyncStorage.setItem(POST_DRAFTS_KEY, JSON.stringify([
+      draft,
+      ...drafts.filter(existing => existing.id !== draft.id),
+    ]));
+  } catch (error) {
+    console.error('Error saving draft:', error);
+  }
+}
+
+// Removes the draft only; its files may still be needed, see discardDraftMedia
+export async function deleteDraft(draftId: string) {
+  try {
+    const drafts = await fetchDrafts();
+    await AsyncStorage.setItem(POST_DRAFTS_KEY, JSON.stringify(
+      drafts.filter(draft => draft.id !== draftId)
+    ));
+  } catch (error) {
+    console.error('Error deleting draft:', error);
+  }
+}
+
+// Copies a picked file next to the drafts so it survives cache cleanup. On
+// web there is no file system and the original URI is kept.
+export async function persistDraftMedia(item: PickedMedia): Promise<PickedMedia> {
+  if (Platform.OS === 'web' || item.uri.startsWith(DRAFT_MEDIA_DIRECTORY)) return item;
+
+  try {
+    await FileSystem.makeDirectoryAsync(DRAFT_MEDIA_DIRECTORY, { intermediates: true });
+
+    const fileName = `${createDraftId()}-${item.uri.split('/').pop()}`;
+    const uri = `${DRAFT_MEDIA_DIRECTORY}${fileName}`;
+    await FileSystem.copyAsync({ from: item.uri, to: uri });
+
+    return { ...item, uri };
+  } catch (error) {
+    console.error('Error saving draft media:', error);
+    return item;
+  }
+}
+
+export async function discardDraftMedia(media: PickedMedia[]) {
+  if (Platform.OS === 'web') return;
+
+  for (const item of media) {
+    if (!item.uri.startsWith(DRAFT_MEDIA_DIRECTORY)) continue;
+
+    try {
+      await FileSystem.deleteAsync(item.uri, { idempotent: true });
+    } catch (error) {
+      console.error('Error deleting draft media:', error);
+    }
+  }
+}
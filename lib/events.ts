@@ -0,0 +1,99 @@
+import { getSessionUser, supabase } from './supabase';
+import { GeoPoint } from './geo';
+
+export type SkillLevel = 'any' | 'beginner' | 'intermediate' | 'advanced';
+
+// Keep in sync with the skill_level check on `events` in the database
+export const SKILL_LEVELS: Record<SkillLevel, string> = {
+  any: 'Любой уровень',
+  beginner: 'Новички',
+  intermediate: 'Средний',
+  advanced: 'Продвинутые',
+};
+
+export interface RideEvent {
+  id: string;
+  organizer_id: string;
+  title: string;
+  description: string | null;
+  starts_at: string;
+  meeting_latitude: number;
+  meeting_longitude: number;
+  route_id: string | null;
+  skill_level: SkillLevel;
+  created_at: string;
+  organizer: {
+    full_name: string;
+    avatar_url: string;
+  } | null;
+}
+
+export function formatEventTime(startsAt: string) {
+  return new Date(startsAt).toLocaleString('ru-RU', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export async function createEvent(event: {
+  title: string;
+  description: string | null;
+  startsAt: Date;
+  meetingPoint: GeoPoint;
+  routeId: string | null;
+  skillLevel: SkillLevel;
+}) {
+  try {
+    const user = await getSessionUser();
+    if (!user) throw new Error('No user found');
+
+    // The organizer is added to attendees and followers are notified by the
+    // handle_new_event() trigger
+    const { data, error } = await supabase
+      .from('events')
+      .insert({
+        organizer_id: user.id,
+        title: event.title,
+        description: event.description,
+        starts_at: event.startsAt.toISOString(),
+        meeting_latitude: event.meetingPoint.latitude,
+        meeting_longitude: event.meetingPoint.longitude,
+        route_id: event.routeId,
+        skill_level: event.skillLevel,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { event: data, error: null };
+  } catch (error: any) {
+    console.error('Error creating event:', error);
+    return { event: null, error };
+  }
+}
+
+export async function setAttendance(eventId: string, going: boolean) {
+  try {
+    const user = await getSessionUser();
+    if (!user) throw new Error('No user found');
+
+    const { error } = going
+      ? await supabase
+        .from('event_attendees')
+        .insert({ event_id: eventId, user_id: user.id })
+      : await supabase
+        .from('event_attendees')
+        .delete()
+        .eq('event_id', eventId)
+        .eq('user_id', user.id);
+
+    if (error) throw error;
+    return { error: null };
+  } catch (error: any) {
+    console.error('Error updating attendance:', error);
+    return { error };
+  }
+}
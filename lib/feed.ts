@@ -0,0 +1,184 @@
+import { supabase } from './supabase';
+import { GeoPoint } from './geo';
+import { PostMedia } from './postMedia';
+
+export type FeedMode = 'following' | 'nearby' | 'top' | 'all';
+
+export const FEED_MODES: Record<FeedMode, string> = {
+  following: 'Подписки',
+  nearby: 'Рядом',
+  top: 'Топ',
+  all: 'Все',
+};
+
+export type TopWindow = 'today' | 'week' | 'month';
+
+export const TOP_WINDOWS: Record<TopWindow, string> = {
+  today: 'Сегодня',
+  week: 'Неделя',
+  month: 'Месяц',
+};
+
+export const NEARBY_FEED_RADIUS_KM = 10;
+
+export interface FeedPost {
+  id: string;
+  user_id: string;
+  content: string;
+  image_url: string | null;
+  likes: number;
+  comments_count: number;
+  latitude?: number;
+  longitude?: number;
+  created_at: string;
+  updated_at: string;
+  user: {
+    full_name: string;
+    avatar_url: string;
+  } | null;
+  liked_by_user: boolean;
+  bookmarked_by_user: boolean;
+  media: PostMedia[];
+}
+
+// Position after the last loaded post. Chronological pages are ordered by
+// (created_at, id), the top feed by (score, id).
+export interface FeedCursor {
+  created_at: string;
+  id: string;
+  score?: number;
+}
+
+export interface FeedOptions {
+  // Required for the nearby feed
+  origin?: GeoPoint;
+  topWindow?: TopWindow;
+}
+
+export const FEED_PAGE_SIZE = 20;
+
+// Maps a post_feed row to the shape the feed renders
+function toFeedPost(row: any): FeedPost {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    content: row.content,
+    image_url: row.image_url,
+    latitude: row.latitude ?? undefined,
+    longitude: row.longitude ?? undefined,
+    created_at: row.created_at,
+    updated_at: row.updated_at ?? row.created_at,
+    user: row.user_id ? { full_name: row.full_name, avatar_url: row.avatar_url } : null,
+    likes: row.like_count,
+    comments_count: row.comment_count,
+    liked_by_user: row.liked_by_me,
+    bookmarked_by_user: row.bookmarked_by_me,
+    media: row.media ?? [],
+  };
+}
+
+export async function fetchFeedPage(mode: FeedMode, cursor: FeedCursor | null, options: FeedOptions = {}) {
+  try {
+    const page = {
+      cursor_created_at: cursor?.created_at ?? null,
+      cursor_id: cursor?.id ?? null,
+      page_size: FEED_PAGE_SIZE,
+    };
+
+    let request;
+    if (mode === 'following') {
+      request = supabase.rpc('following_feed_page', page);
+    } else if (mode === 'nearby') {
+      if (!options.origin) throw new Error('Location is required for the nearby feed');
+      request = supabase.rpc('nearby_feed_page', {
+        lat: options.origin.latitude,
+        lng: options.origin.longitude,
+        radius_km: NEARBY_FEED_RADIUS_KM,
+        ...page,
+      });
+    } else if (mode === 'top') {
+      request = supabase.rpc('top_feed_page', {
+        time_window: options.topWindow ?? 'week',
+        cursor_score: cursor?.score ?? null,
+        cursor_id: cursor?.id ?? null,
+        page_size: FEED_PAGE_SIZE,
+      });
+    } else {
+      request = supabase.rpc('feed_page', page);
+    }
+
+    const { data, error } = await request;
+
+    if (error) throw error;
+
+    const rows: any[] = data || [];
+    const posts: FeedPost[] = rows.map(toFeedPost);
+    const last = rows[rows.length - 1];
+    const nextCursor: FeedCursor | null = rows.length === FEED_PAGE_SIZE
+      ? { created_at: last.created_at, id: last.id, score: last.score }
+      : null;
+
+    return { posts, nextCursor, error: null };
+  } catch (error: any) {
+    console.error('Error fetching feed:', error);
+    return { posts: [] as FeedPost[], nextCursor: null, error };
+  }
+}
+
+// Reloads a single post, e.g. after it was edited. Returns null if it's gone.
+export async function fetchFeedPost(postId: string) {
+  try {
+    const { data, error } = await supabase
+      .from('post_feed')
+      .select('*')
+      .eq('id', postId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return { post: data ? toFeedPost(data) : null, error: null };
+  } catch (error: any) {
+    console.error('Error fetching post:', error);
+    return { post: null, error };
+  }
+}
+
+export async function fetchHashtagPage(tag: string, cursor: FeedCursor | null) {
+  try {
+    const { data, error } = await supabase.rpc('hashtag_feed_page', {
+      tag,
+      cursor_created_at: cursor?.created_at ?? null,
+      cursor_id: cursor?.id ?? null,
+      page_size: FEED_PAGE_SIZE,
+    });
+
+    if (error) throw error;
+
+    const rows: any[] = data || [];
+    const posts: FeedPost[] = rows.map(toFeedPost);
+    const last = rows[rows.length - 1];
+    const nextCursor: FeedCursor | null = rows.length === FEED_PAGE_SIZE
+      ? { created_at: last.created_at, id: last.id }
+      : null;
+
+    return { posts, nextCursor, error: null };
+  } catch (error: any) {
+    console.error('Error fetching hashtag posts:', error);
+    return { posts: [] as FeedPost[], nextCursor: null, error };
+  }
+}
+
+// Best full-text matches first, see search_posts() in the database
+export async function searchPosts(query: string, limit: number) {
+  try {
+    const { data, error } = await supabase.rpc('search_posts', {
+      query,
+      result_limit: limit,
+    });
+
+    if (error) throw error;
+    return { posts: ((data || []) as any[]).map(toFeedPost), error: null };
+  } catch (error: any) {
+    console.error('Error searching posts:', error);
+    return { posts: [] as FeedPost[], error };
+  }
+}
@@ -0,0 +1,143 @@
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_M = 6371000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance between two points in meters (haversine formula)
+export function distanceBetween(a: GeoPoint, b: GeoPoint) {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h));
+}
+
+// Total length of a track in meters
+export function trackDistance(points: GeoPoint[]) {
+  let distance = 0;
+  for (let i = 1; i < points.length; i++) {
+    distance += distanceBetween(points[i - 1], points[i]);
+  }
+  return distance;
+}
+
+export function formatDistance(meters: number) {
+  if (meters < 1000) return `${Math.round(meters)} м`;
+  return `${(meters / 1000).toFixed(1)} км`;
+}
+
+export function formatDuration(seconds: number) {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+
+  if (hours > 0) return `${hours}:${pad(minutes)}:${pad(secs)}`;
+  return `${pad(minutes)}:${pad(secs)}`;
+}
+
+export function formatSpeed(metersPerSecond: number) {
+  return `${(metersPerSecond * 3.6).toFixed(1)} км/ч`;
+}
+
+// Distance in meters from a point to the nearest segment of a track. Uses a
+// local equirectangular projection, which is accurate at city scale.
+export function distanceToTrack(point: GeoPoint, track: GeoPoint[]) {
+  if (track.length === 0) return Infinity;
+  if (track.length === 1) return distanceBetween(point, track[0]);
+
+  const metersPerDegree = (EARTH_RADIUS_M * Math.PI) / 180;
+  const cosLat = Math.cos(toRadians(point.latitude));
+  const project = (p: GeoPoint) => ({
+    x: (p.longitude - point.longitude) * cosLat * metersPerDegree,
+    y: (p.latitude - point.latitude) * metersPerDegree,
+  });
+
+  let minDistance = Infinity;
+  for (let i = 1; i < track.length; i++) {
+    const a = project(track[i - 1]);
+    const b = project(track[i]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared));
+    const distance = Math.hypot(a.x + t * dx, a.y + t * dy);
+    minDistance = Math.min(minDistance, distance);
+  }
+  return minDistance;
+}
+
+// Map region that fits all points with some padding around them
+export function regionForPoints(points: GeoPoint[]) {
+  const latitudes = points.map(p => p.latitude);
+  const longitudes = points.map(p => p.longitude);
+  const minLat = Math.min(...latitudes);
+  const maxLat = Math.max(...latitudes);
+  const minLng = Math.min(...longitudes);
+  const maxLng = Math.max(...longitudes);
+
+  return {
+    latitude: (minLat + maxLat) / 2,
+    longitude: (minLng + maxLng) / 2,
+    latitudeDelta: Math.max((maxLat - minLat) * 1.4, 0.01),
+    longitudeDelta: Math.max((maxLng - minLng) * 1.4, 0.01),
+  };
+}
+
+export interface Cluster<T extends GeoPoint> extends GeoPoint {
+  key: string;
+  items: T[];
+}
+
+// Groups points into a grid of `cellsPerScreen` cells across the visible
+// region. Each cluster is placed at the average position of its items.
+export function clusterPoints<T extends GeoPoint>(
+  points: T[],
+  region: { latitudeDelta: number; longitudeDelta: number },
+  cellsPerScreen = 8
+) {
+  const cellLat = region.latitudeDelta / cellsPerScreen;
+  const cellLng = region.longitudeDelta / cellsPerScreen;
+  const cells = new Map<string, T[]>();
+
+  for (const point of points) {
+    const key = `${Math.floor(point.latitude / cellLat)}:${Math.floor(point.longitude / cellLng)}`;
+    const items = cells.get(key);
+    if (items) {
+      items.push(point);
+    } else {
+      cells.set(key, [point]);
+    }
+  }
+
+  return [...cells.entries()].map(([key, items]): Cluster<T> => ({
+    key,
+    items,
+    latitude: items.reduce((sum, p) => sum + p.latitude, 0) / items.length,
+    longitude: items.reduce((sum, p) => sum + p.longitude, 0) / items.length,
+  }));
+}
+
+const METERS_PER_DEGREE_LAT = 111320;
+
+// Snaps a point to a grid of roughly `precisionMeters` cells. Mirrors
+// fuzz_athlete_location() in the database so the exact position never
+// leaves the device.
+export function snapToGrid(point: GeoPoint, precisionMeters: number): GeoPoint {
+  if (precisionMeters <= 0) return point;
+
+  const latStep = precisionMeters / METERS_PER_DEGREE_LAT;
+  const latitude = Math.round(point.latitude / latStep) * latStep;
+  const lngStep = precisionMeters / (METERS_PER_DEGREE_LAT * Math.max(Math.cos(toRadians(latitude)), 0.01));
+  const longitude = Math.round(point.longitude / lngStep) * lngStep;
+
+  return { latitude, longitude };
+}
@@ -0,0 +1,90 @@
+import { getSessionUser, supabase } from './supabase';
+import { GeoPoint, snapToGrid } from './geo';
+
+export type LocationVisibility = 'everyone' | 'followers' | 'nobody';
+
+export interface LocationSettings {
+  location_visibility: LocationVisibility;
+  location_precision_m: number;
+  location_invisible: boolean;
+}
+
+export const LOCATION_VISIBILITY_OPTIONS: { value: LocationVisibility; label: string; description: string }[] = [
+  { value: 'everyone', label: 'Все', description: 'Вас видят все роллеры поблизости' },
+  { value: 'followers', label: 'Подписчики', description: 'Вас видят только ваши подписчики' },
+  { value: 'nobody', label: 'Никто', description: 'Ваше местоположение не передаётся' },
+];
+
+export const LOCATION_PRECISION_OPTIONS = [0, 100, 500, 1000];
+
+export const isLocationShared = (settings: LocationSettings) =>
+  !settings.location_invisible && settings.location_visibility !== 'nobody';
+
+export async function fetchLocationSettings(): Promise<{ settings: LocationSettings | null; error: any }> {
+  try {
+    const user = await getSessionUser();
+    if (!user) throw new Error('No user found');
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('location_visibility, location_precision_m, location_invisible')
+      .eq('id', user.id)
+      .single();
+
+    if (error) throw error;
+    return { settings: data, error: null };
+  } catch (error: any) {
+    console.error('Error fetching location settings:', error);
+    return { settings: null, error };
+  }
+}
+
+// Hiding the location also removes the stored position, see
+// apply_location_settings() in the database
+export async function updateLocationSettings(settings: Partial<LocationSettings>) {
+  try {
+    const user = await getSessionUser();
+    if (!user) throw new Error('No user found');
+
+    const { error } = await supabase
+      .from('profiles')
+      .update(settings)
+      .eq('id', user.id);
+
+    if (error) throw error;
+    return { error: null };
+  } catch (error: any) {
+    console.error('Error updating location settings:', error);
+    return { error };
+  }
+}
+
+// Stores the user's position for the map, honouring their privacy settings.
+// Returns whether the position was published.
+export async function publishLocation(point: GeoPoint) {
+  try {
+    const user = await getSessionUser();
+    if (!user) throw new Error('No user found');
+
+    // Without the user's settings nothing is published
+    const { settings, error: settingsError } = await fetchLocationSettings();
+    if (settingsError) throw settingsError;
+    if (!settings || !isLocationShared(settings)) return { published: false, error: null };
+
+    const { latitude, longitude } = snapToGrid(point, settings.location_precision_m);
+    const { error } = await supabase
+      .from('athlete_locations')
+      .upsert({
+        user_id: user.id,
+        latitude,
+        longitude,
+        last_updated: new Date().toISOString(),
+      }, { onConflict: 'user_id' });
+
+    if (error) throw error;
+    return { published: true, error: null };
+  } catch (error: any) {
+    console.error('Error publishing location:', error);
+    return { published: false, error };
+  }
+}
@@ -0,0 +1,76 @@
+import { supabase } from './supabase';
+
+export interface MentionCandidate {
+  id: string;
+  username: string;
+  full_name: string | null;
+  avatar_url: string | null;
+}
+
+// The @word being typed at the cursor, if any
+export interface MentionQuery {
+  start: number;
+  end: number;
+  query: string;
+}
+
+const MENTION_SUGGESTIONS_LIMIT = 5;
+
+export function findMentionQuery(text: string, cursor: number): MentionQuery | null {
+  const match = text.slice(0, cursor).match(/(^|[^0-9A-Za-z_@.])@([A-Za-z0-9_]{0,30})$/);
+  if (!match) return null;
+
+  return {
+    start: cursor - match[2].length - 1,
+    end: cursor,
+    query: match[2],
+  };
+}
+
+// Replaces the @word being typed with the full username and a trailing space
+export function insertMention(text: string, mention: MentionQuery, username: string) {
+  const inserted = `@${username} `;
+  return {
+    text: text.slice(0, mention.start) + inserted + text.slice(mention.end).replace(/^ /, ''),
+    cursor: mention.start + inserted.length,
+  };
+}
+
+export async function searchMentionCandidates(query: string) {
+  try {
+    let request = supabase
+      .from('profiles')
+      .select('id, username, full_name, avatar_url')
+      .not('username', 'is', null)
+      .order('username', { ascending: true })
+      .limit(MENTION_SUGGESTIONS_LIMIT);
+
+    if (query) {
+      request = request.ilike('username', `${query.replace(/_/g, '\\_')}%`);
+    }
+
+    const { data, error } = await request;
+
+    if (error) throw error;
+    return { candidates: (data || []) as MentionCandidate[], error: null };
+  } catch (error: any) {
+    console.error('Error searching usernames:', error);
+    return { candidates: [] as MentionCandidate[], error };
+  }
+}
+
+export async function fetchProfileIdByUsername(username: string) {
+  try {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id')
+      .ilike('username', username.replace(/_/g, '\\_'))
+      .maybeSingle();
+
+    if (error) throw error;
+    return { profileId: (data?.id as string | undefined) ?? null, error: null };
+  } catch (error: any) {
+    console.error('Error resolving username:', error);
+    return { profileId: null, error };
+  }
+}
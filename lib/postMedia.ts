@@ -0,0 +1,220 @@
+import { Platform } from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import { getSessionUser, supabase } from './supabase';
+import { GeoPoint } from './geo';
+import { FULL_IMAGE, THUMBNAIL_IMAGE, compressImage, uploadFile } from './upload';
+
+export type MediaType = 'image' | 'video';
+
+export interface PostMedia {
+  id: string;
+  media_type: MediaType;
+  url: string;
+  thumbnail_url: string | null;
+  width: number | null;
+  height: number | null;
+  duration_ms: number | null;
+}
+
+// A photo or clip picked from the library, not uploaded yet
+export interface PickedMedia {
+  uri: string;
+  media_type: MediaType;
+  mime_type: string;
+  width: number | null;
+  height: number | null;
+  duration_ms: number | null;
+}
+
+export interface UploadedPostMedia extends PickedMedia {
+  url: string;
+  thumbnail_url: string | null;
+}
+
+export const MAX_POST_MEDIA = 10;
+export const MAX_VIDEO_DURATION_MS = 60_000;
+
+const POST_MEDIA_BUCKET = 'post-media';
+const MAX_UPLOAD_ATTEMPTS = 3;
+
+// Returns the picked items and how many clips were skipped for being too long
+export async function pickPostMedia(limit: number) {
+  const result = await ImagePicker.launchImageLibraryAsync({
+    mediaTypes: ImagePicker.MediaTypeOptions.All,
+    allowsMultipleSelection: true,
+    selectionLimit: limit,
+    quality: 0.8,
+  });
+
+  if (result.canceled) {
+    return { media: [] as PickedMedia[], skipped: 0 };
+  }
+
+  const media: PickedMedia[] = result.assets.map(asset => ({
+    uri: asset.uri,
+    media_type: asset.type === 'video' ? 'video' : 'image',
+    mime_type: asset.mimeType || (asset.type === 'video' ? 'video/mp4' : 'image/jpeg'),
+    width: asset.width || null,
+    height: asset.height || null,
+    duration_ms: asset.duration ?? null,
+  }));
+
+  const accepted = media
+    .filter(item => item.media_type === 'image' || (item.duration_ms ?? 0) <= MAX_VIDEO_DURATION_MS)
+    .slice(0, limit);
+
+  return { media: accepted, skipped: media.length - accepted.length };
+}
+
+function extensionFor(mimeType: string) {
+  switch (mimeType) {
+    case 'image/png': return 'png';
+    case 'image/webp': return 'webp';
+    case 'video/quicktime': return 'mov';
+    case 'video/mp4': return 'mp4';
+    default: return 'jpg';
+  }
+}
+
+// supabase-js can't report upload progress, so the file is sent with
+// XMLHttpRequest to a signed upload URL instead
+async function uploadWithProgress(
+  signedUrl: string,
+  uri: string,
+  mimeType: string,
+  fileName: string,
+  onProgress: (progress: number) => void
+) {
+  const body = new FormData();
+  body.append('cacheControl', '3600');
+
+  if (Platform.OS === 'web') {
+    const response = await fetch(uri);
+    const blob = await response.blob();
+    body.append('', blob, fileName);
+  } else {
+    body.append('', {
+      uri,
+      name: fileName,
+      type: mimeType,
+    } as any);
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const request = new XMLHttpRequest();
+    request.open('PUT', signedUrl);
+    request.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress(event.loaded / event.total);
+      }
+    };
+    request.onload = () => {
+      if (request.status >= 200 && request.status < 300) {
+        resolve();
+      } else {
+        reject(new Error(`Upload failed with status ${request.status}`));
+      }
+    };
+    request.onerror = () => reject(new Error('Network error during upload'));
+    request.send(body);
+  });
+}
+
+// Uploads one item, retrying transient failures, and returns its public URL.
+// Photos are compressed first and get a thumbnail; clips are sent as picked.
+export async function uploadPostMedia(item: PickedMedia, onProgress: (progress: number) => void) {
+  try {
+    const user = await getSessionUser();
+    if (!user) throw new Error('No user found');
+
+    // Storage policies only allow uploads into the user's own folder
+    const baseName = `${user.id}/${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+    let uri = item.uri;
+    let mimeType = item.mime_type;
+    let thumbnailUrl: string | null = null;
+
+    if (item.media_type === 'image') {
+      const [full, thumbnail] = await Promise.all([
+        compressImage(item.uri, FULL_IMAGE),
+        compressImage(item.uri, THUMBNAIL_IMAGE),
+      ]);
+      uri = full.uri;
+      mimeType = 'image/jpeg';
+      thumbnailUrl = await uploadFile(POST_MEDIA_BUCKET, `${baseName}-thumb.jpg`, thumbnail.uri, mimeType);
+    }
+
+    const fileName = `${baseName}.${extensionFor(mimeType)}`;
+
+    let lastError: any = null;
+    for (let attempt = 1; attempt <= MAX_UPLOAD_ATTEMPTS; attempt++) {
+      try {
+        const { data, error } = await supabase.storage
+          .from(POST_MEDIA_BUCKET)
+          .createSignedUploadUrl(fileName);
+
+        if (error) throw error;
+
+        onProgress(0);
+        await uploadWithProgress(data.signedUrl, uri, mimeType, fileName, onProgress);
+        onProgress(1);
+
+        const { data: { publicUrl } } = supabase.storage
+          .from(POST_MEDIA_BUCKET)
+          .getPublicUrl(fileName);
+
+        return { url: publicUrl, thumbnailUrl, error: null };
+      } catch (error) {
+        lastError = error;
+        if (attempt < MAX_UPLOAD_ATTEMPTS) {
+          await new Promise(resolve => setTimeout(resolve, attempt * 1000));
+        }
+      }
+    }
+
+    throw lastError;
+  } catch (error: any) {
+    console.error('Error uploading post media:', error);
+    return { url: null, thumbnailUrl: null, error };
+  }
+}
+
+// Random v4 UUID for a post that isn't published yet. Publishing again with
+// the same id doesn't create a second post.
+export const createPostId = () =>
+  'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = Math.floor(Math.random() * 16);
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+
+// Media must be uploaded before calling this. The post and its media are
+// created in one transaction, see create_post_with_media() in the database.
+export async function createPostWithMedia(post: {
+  id: string;
+  content: string;
+  location: GeoPoint | null;
+  media: UploadedPostMedia[];
+}) {
+  try {
+    const { data: created, error } = await supabase.rpc('create_post_with_media', {
+      new_post_id: post.id,
+      post_content: post.content,
+      post_latitude: post.location?.latitude ?? null,
+      post_longitude: post.location?.longitude ?? null,
+      media_items: post.media.map(item => ({
+        media_type: item.media_type,
+        url: item.url,
+        thumbnail_url: item.thumbnail_url,
+        width: item.width,
+        height: item.height,
+        duration_ms: item.duration_ms,
+      })),
+    });
+
+    if (error) throw error;
+    return { post: created, error: null };
+  } catch (error: any) {
+    console.error('Error creating post:', error);
+    return { post: null, error };
+  }
+}
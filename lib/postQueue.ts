@@ -0,0 +1,186 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { GeoPoint } from './geo';
+import { PickedMedia, UploadedPostMedia, createPostId, createPostWithMedia, uploadPostMedia } from './postMedia';
+import { createDraftId, discardDraftMedia } from './drafts';
+
+// Posts written without a connection wait here and are published in order
+// once the device is back online.
+
+export type QueuedPostStatus = 'pending' | 'publishing' | 'failed';
+
+export interface QueuedPost {
+  id: string;
+  // Sent with every publish attempt so a retry can't create a second post
+  post_id: string;
+  content: string;
+  location: GeoPoint | null;
+  media: PickedMedia[];
+  // Files that were already uploaded, by local URI, so retries skip them
+  uploaded: Record<string, { url: string; thumbnail_url: string | null }>;
+  status: QueuedPostStatus;
+  created_at: number;
+}
+
+const POST_QUEUE_KEY = 'post_queue';
+
+type QueueListener = (posts: QueuedPost[]) => void;
+
+const listeners = new Set<QueueListener>();
+let processing: Promise<number> | null = null;
+let queueWrites: Promise<unknown> = Promise.resolve();
+
+export async function isOnline() {
+  const state = await NetInfo.fetch();
+  return !!state.isConnected && state.isInternetReachable !== false;
+}
+
+export async function fetchQueuedPosts(): Promise<QueuedPost[]> {
+  try {
+    const value = await AsyncStorage.getItem(POST_QUEUE_KEY);
+    return value ? JSON.parse(value) : [];
+  } catch (error) {
+    console.error('Error loading post queue:', error);
+    return [];
+  }
+}
+
+async function saveQueue(posts: QueuedPost[]) {
+  try {
+    await AsyncStorage.setItem(POST_QUEUE_KEY, JSON.stringify(posts));
+  } catch (error) {
+    console.error('Error saving post queue:', error);
+  }
+  listeners.forEach(listener => listener(posts));
+}
+
+// Read-modify-writes of the stored queue run one at a time, so a post queued
+// while a publish run updates the queue isn't overwritten. Resolves with the
+// queue as it was before the change.
+function changeQueue(change: (posts: QueuedPost[]) => QueuedPost[]) {
+  const write = queueWrites.then(async () => {
+    const posts = await fetchQueuedPosts();
+    const next = change(posts);
+    if (next !== posts) await saveQueue(next);
+    return posts;
+  });
+  queueWrites = write.catch(() => {});
+  return write;
+}
+
+async function updateQueuedPost(postId: string, changes: Partial<QueuedPost>) {
+  await changeQueue(posts => posts.map(post => post.id === postId ? { ...post, ...changes } : post));
+}
+
+// Called with the whole queue whenever it changes. Returns an unsubscribe
+// function.
+export function subscribeToPostQueue(listener: QueueListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Media should be persisted with persistDraftMedia first so it survives until
+// the upload. Pass files the composer already uploaded to skip them, and the
+// post id of an attempt that may have reached the server.
+export async function enqueuePost(post: {
+  content: string;
+  location: GeoPoint | null;
+  media: PickedMedia[];
+}, uploaded: QueuedPost['uploaded'] = {}, postId = createPostId()) {
+  await changeQueue(posts => [...posts, {
+    ...post,
+    id: createDraftId(),
+    post_id: postId,
+    uploaded,
+    status: 'pending',
+    created_at: Date.now(),
+  }]);
+}
+
+export async function removeQueuedPost(postId: string) {
+  const posts = await changeQueue(queue => queue.filter(item => item.id !== postId));
+  const post = posts.find(item => item.id === postId);
+
+  if (post) {
+    await discardDraftMedia(post.media);
+  }
+}
+
+export async function retryQueuedPost(postId: string) {
+  await updateQueuedPost(postId, { status: 'pending' });
+  return processPostQueue();
+}
+
+async function publishQueuedPost(post: QueuedPost) {
+  const uploaded = { ...post.uploaded };
+  const media: UploadedPostMedia[] = [];
+
+  for (const item of post.media) {
+    if (!uploaded[item.uri]) {
+      const { url, thumbnailUrl, error } = await uploadPostMedia(item, () => {});
+      if (!url) {
+        await updateQueuedPost(post.id, { uploaded });
+        throw error;
+      }
+      uploaded[item.uri] = { url, thumbnail_url: thumbnailUrl };
+    }
+    media.push({ ...item, ...uploaded[item.uri] });
+  }
+
+  const { error } = await createPostWithMedia({
+    id: post.post_id,
+    content: post.content,
+    location: post.location,
+    media,
+  });
+
+  if (error) {
+    await updateQueuedPost(post.id, { uploaded });
+    throw error;
+  }
+}
+
+// Publishes pending posts one by one and returns how many went out. Posts that
+// fail while online are marked failed and wait for a manual retry; if the
+// connection dropped they stay pending. Concurrent calls share one run, which
+// also picks up posts queued or retried while it is going.
+export function processPostQueue() {
+  if (!processing) {
+    processing = (async () => {
+      let published = 0;
+
+      while (await isOnline()) {
+        const post = (await fetchQueuedPosts()).find(item => item.status === 'pending');
+        if (!post) break;
+
+        await updateQueuedPost(post.id, { status: 'publishing' });
+
+        try {
+          await publishQueuedPost(post);
+          await removeQueuedPost(post.id);
+          published++;
+        } catch (error) {
+          console.error('Error publishing queued post:', error);
+          await updateQueuedPost(post.id, { status: await isOnline() ? 'failed' : 'pending' });
+        }
+      }
+
+      return published;
+    })().finally(() => {
+      processing = null;
+    });
+  }
+
+  return processing;
+}
+
+// A post left "publishing" by an app that was killed mid-upload is pending again
+export async function resetInterruptedPosts() {
+  await changeQueue(posts => (
+    posts.some(post => post.status === 'publishing') && !processing
+      ? posts.map(post => post.status === 'publishing' ? { ...post, status: 'pending' } : post)
+      : posts
+  ));
+}
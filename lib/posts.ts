@@ -0,0 +1,82 @@
+import { supabase } from './supabase';
+import { GeoPoint } from './geo';
+import { PostMedia, UploadedPostMedia } from './postMedia';
+import { removeUploadedFiles } from './upload';
+
+// updated_at is also touched when the row is created, so allow some slack
+const EDIT_THRESHOLD_MS = 1000;
+
+export function isEdited(post: { created_at: string; updated_at?: string | null }) {
+  if (!post.updated_at) return false;
+  return new Date(post.updated_at).getTime() - new Date(post.created_at).getTime() > EDIT_THRESHOLD_MS;
+}
+
+// Deletes the post and then its uploaded files. Likes, comments, bookmarks and
+// media rows go with the post through ON DELETE CASCADE.
+export async function deletePost(postId: string) {
+  try {
+    const { data: post, error: fetchError } = await supabase
+      .from('posts')
+      .select('image_url, thumbnail_url, media:post_media(url, thumbnail_url)')
+      .eq('id', postId)
+      .single();
+
+    if (fetchError) throw fetchError;
+
+    const { error } = await supabase
+      .from('posts')
+      .delete()
+      .eq('id', postId);
+
+    if (error) throw error;
+
+    await removeUploadedFiles([
+      post.image_url,
+      post.thumbnail_url,
+      ...(post.media || []).flatMap((item: any) => [item.url, item.thumbnail_url]),
+    ]);
+
+    return { error: null };
+  } catch (error: any) {
+    console.error('Error deleting post:', error);
+    return { error };
+  }
+}
+
+// New media must be uploaded before calling this. It is appended after the
+// media the post keeps. The post and its media change in one transaction, see
+// update_post_with_media() in the database; removed files are deleted from
+// storage only once that succeeded.
+export async function updatePost(postId: string, changes: {
+  content: string;
+  location: GeoPoint | null;
+  removedMedia: PostMedia[];
+  newMedia: UploadedPostMedia[];
+}) {
+  try {
+    const { data: updated, error } = await supabase.rpc('update_post_with_media', {
+      target_post_id: postId,
+      post_content: changes.content,
+      post_latitude: changes.location?.latitude ?? null,
+      post_longitude: changes.location?.longitude ?? null,
+      removed_ids: changes.removedMedia.map(item => item.id),
+      media_items: changes.newMedia.map(item => ({
+        media_type: item.media_type,
+        url: item.url,
+        thumbnail_url: item.thumbnail_url,
+        width: item.width,
+        height: item.height,
+        duration_ms: item.duration_ms,
+      })),
+    });
+
+    if (error) throw error;
+
+    await removeUploadedFiles(changes.removedMedia.flatMap(item => [item.url, item.thumbnail_url]));
+
+    return { post: updated, error: null };
+  } catch (error: any) {
+    console.error('Error updating post:', error);
+    return { post: null, error };
+  }
+}
@@ -0,0 +1,212 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Location from 'expo-location';
+import * as TaskManager from 'expo-task-manager';
+import { getSessionUser, supabase } from './supabase';
+import { GeoPoint, distanceBetween } from './geo';
+import { publishLocation } from './location';
+
+// "I'm skating now" session: while active, a background location task keeps
+// `athlete_locations` fresh so the user shows up as online.
+
+export const PRESENCE_TASK = 'presence-location-updates';
+
+const PRESENCE_SESSION_KEY = 'presence_session';
+
+// A user counts as online if their location was refreshed within this window
+export const ONLINE_WINDOW_MS = 10 * 60 * 1000;
+
+// Moving farther than this between fixes counts as skating
+const MOVEMENT_THRESHOLD_M = 50;
+// Without movement for this long the user is considered to have stopped
+const IDLE_AFTER_MS = 2 * 60 * 1000;
+// The session ends by itself after this long without movement
+const AUTO_STOP_AFTER_MS = 20 * 60 * 1000;
+
+// Moving users are refreshed often, idle ones rarely and with coarse GPS to
+// save battery
+const UPDATE_MODES = {
+  moving: {
+    publishIntervalMs: 30 * 1000,
+    options: {
+      accuracy: Location.Accuracy.Balanced,
+      timeInterval: 15 * 1000,
+      distanceInterval: 25,
+    },
+  },
+  idle: {
+    publishIntervalMs: 5 * 60 * 1000,
+    options: {
+      accuracy: Location.Accuracy.Low,
+      timeInterval: 60 * 1000,
+      // Keep updates coming while standing still so the session can auto-stop
+      distanceInterval: 0,
+    },
+  },
+};
+
+type UpdateMode = keyof typeof UPDATE_MODES;
+
+export interface PresenceSession {
+  startedAt: number;
+  lastMovedAt: number;
+  lastPublishedAt: number;
+  lastPoint: GeoPoint | null;
+  mode: UpdateMode;
+}
+
+export const isPresenceSupported = Platform.OS !== 'web';
+
+async function loadSession(): Promise<PresenceSession | null> {
+  try {
+    const value = await AsyncStorage.getItem(PRESENCE_SESSION_KEY);
+    return value ? JSON.parse(value) : null;
+  } catch (error) {
+    console.error('Error loading presence session:', error);
+    return null;
+  }
+}
+
+async function saveSession(session: PresenceSession) {
+  try {
+    await AsyncStorage.setItem(PRESENCE_SESSION_KEY, JSON.stringify(session));
+  } catch (error) {
+    console.error('Error saving presence session:', error);
+  }
+}
+
+async function startUpdates(mode: UpdateMode) {
+  await Location.startLocationUpdatesAsync(PRESENCE_TASK, {
+    ...UPDATE_MODES[mode].options,
+    pausesUpdatesAutomatically: false,
+    activityType: Location.ActivityType.Fitness,
+    showsBackgroundLocationIndicator: true,
+    foregroundService: {
+      notificationTitle: 'Катаюсь сейчас',
+      notificationBody: 'Роллеры поблизости видят, что вы на прокате',
+      notificationColor: '#007AFF',
+    },
+  });
+}
+
+// Returns the active session, or null when there is none
+export async function getPresenceSession() {
+  if (!isPresenceSupported) return null;
+
+  const session = await loadSession();
+  if (!session) return null;
+
+  // The OS may have killed the task, e.g. after the permission was revoked
+  const running = await Location.hasStartedLocationUpdatesAsync(PRESENCE_TASK);
+  if (!running || Date.now() - session.lastMovedAt > AUTO_STOP_AFTER_MS) {
+    await stopPresenceSession();
+    return null;
+  }
+  return session;
+}
+
+export async function startPresenceSession() {
+  if (!isPresenceSupported) return { session: null, error: new Error('Not supported on web') };
+
+  try {
+    const foreground = await Location.requestForegroundPermissionsAsync();
+    if (foreground.status !== 'granted') throw new Error('Foreground location permission denied');
+
+    const background = await Location.requestBackgroundPermissionsAsync();
+    if (background.status !== 'granted') throw new Error('Background location permission denied');
+
+    const now = Date.now();
+    const session: PresenceSession = {
+      startedAt: now,
+      lastMovedAt: now,
+      lastPublishedAt: 0,
+      lastPoint: null,
+      mode: 'moving',
+    };
+
+    await saveSession(session);
+    await startUpdates(session.mode);
+    return { session, error: null };
+  } catch (error: any) {
+    console.error('Error starting presence session:', error);
+    return { session: null, error };
+  }
+}
+
+export async function stopPresenceSession() {
+  try {
+    await AsyncStorage.removeItem(PRESENCE_SESSION_KEY);
+
+    if (await Location.hasStartedLocationUpdatesAsync(PRESENCE_TASK)) {
+      await Location.stopLocationUpdatesAsync(PRESENCE_TASK);
+    }
+
+    // Drop the stored position so the user goes offline right away
+    const user = await getSessionUser();
+    if (user) {
+      await supabase
+        .from('athlete_locations')
+        .delete()
+        .eq('user_id', user.id);
+    }
+  } catch (error) {
+    console.error('Error stopping presence session:', error);
+  }
+}
+
+async function handleLocationUpdate(location: Location.LocationObject) {
+  const session = await loadSession();
+  if (!session) {
+    await Location.stopLocationUpdatesAsync(PRESENCE_TASK);
+    return;
+  }
+
+  const now = location.timestamp || Date.now();
+  const point = {
+    latitude: location.coords.latitude,
+    longitude: location.coords.longitude,
+  };
+
+  if (!session.lastPoint || distanceBetween(session.lastPoint, point) > MOVEMENT_THRESHOLD_M) {
+    session.lastMovedAt = now;
+    session.lastPoint = point;
+  }
+
+  if (now - session.lastMovedAt > AUTO_STOP_AFTER_MS) {
+    await stopPresenceSession();
+    return;
+  }
+
+  const mode: UpdateMode = now - session.lastMovedAt > IDLE_AFTER_MS ? 'idle' : 'moving';
+
+  if (now - session.lastPublishedAt >= UPDATE_MODES[mode].publishIntervalMs) {
+    const { published } = await publishLocation(point);
+    if (published) {
+      session.lastPublishedAt = now;
+    }
+  }
+
+  // Restarting the task with new options switches GPS accuracy and frequency
+  if (mode !== session.mode) {
+    session.mode = mode;
+    await startUpdates(mode);
+  }
+
+  await saveSession(session);
+}
+
+// Task definitions must run at module load, so this module is imported by the
+// root layout
+if (isPresenceSupported) {
+  TaskManager.defineTask<{ locations: Location.LocationObject[] }>(PRESENCE_TASK, async ({ data, error }) => {
+    if (error) {
+      console.error('Presence task error:', error);
+      return;
+    }
+
+    const latest = data?.locations?.[data.locations.length - 1];
+    if (latest) {
+      await handleLocationUpdate(latest);
+    }
+  });
+}
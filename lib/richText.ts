@@ -0,0 +1,44 @@
+// Splits post and comment text into plain runs, #hashtags and @mentions.
+// Keep the patterns in sync with extract_hashtags() and extract_mentions() in
+// the database.
+
+export type RichTextSegment =
+  | { type: 'text'; text: string }
+  | { type: 'hashtag'; text: string; tag: string }
+  | { type: 'mention'; text: string; username: string };
+
+const TAG_CHARS = '0-9A-Za-zА-Яа-яЁё_';
+
+const HASHTAG_PATTERN = `(^|[^${TAG_CHARS}])#([${TAG_CHARS}]{1,50})`;
+const MENTION_PATTERN = '(^|[^0-9A-Za-z_@.])@([A-Za-z0-9_]{3,30})';
+const TOKEN_PATTERN = new RegExp(`${HASHTAG_PATTERN}|${MENTION_PATTERN}`, 'g');
+
+export const USERNAME_PATTERN = /^[A-Za-z0-9_]{3,30}$/;
+
+export function parseRichText(text: string): RichTextSegment[] {
+  const segments: RichTextSegment[] = [];
+  let plainStart = 0;
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const prefix = match[1] ?? match[3] ?? '';
+    const start = match.index! + prefix.length;
+
+    if (start > plainStart) {
+      segments.push({ type: 'text', text: text.slice(plainStart, start) });
+    }
+
+    if (match[2] !== undefined) {
+      segments.push({ type: 'hashtag', text: `#${match[2]}`, tag: match[2].toLowerCase() });
+    } else {
+      segments.push({ type: 'mention', text: `@${match[4]}`, username: match[4].toLowerCase() });
+    }
+
+    plainStart = match.index! + match[0].length;
+  }
+
+  if (plainStart < text.length) {
+    segments.push({ type: 'text', text: text.slice(plainStart) });
+  }
+
+  return segments;
+}
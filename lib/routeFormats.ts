@@ -0,0 +1,220 @@
+import { Platform } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { trackDistance } from './geo';
+import { RouteData, TrackPoint, isValidRouteData } from './routes';
+
+export type RouteFileFormat = 'gpx' | 'geojson';
+
+function buildImportedRouteData(points: TrackPoint[]): RouteData {
+  const first = points[0]?.timestamp;
+  const last = points[points.length - 1]?.timestamp;
+
+  const routeData = {
+    points,
+    distance_m: Math.round(trackDistance(points)),
+    duration_s: first && last && last > first ? Math.round((last - first) / 1000) : 0,
+  };
+
+  if (!isValidRouteData(routeData)) {
+    throw new Error('Route file does not contain a valid track');
+  }
+  return routeData;
+}
+
+const getAttribute = (tag: string, name: string) => {
+  const match = tag.match(new RegExp(`${name}\\s*=\\s*["']([^"']+)["']`));
+  return match ? parseFloat(match[1]) : NaN;
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const unescapeXml = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+export function parseGpx(xml: string) {
+  // Track points first, fall back to planned route points
+  let matches = [...xml.matchAll(/<trkpt\b([^>]*?)(?:\/>|>([\s\S]*?)<\/trkpt>)/g)];
+  if (matches.length === 0) {
+    matches = [...xml.matchAll(/<rtept\b([^>]*?)(?:\/>|>([\s\S]*?)<\/rtept>)/g)];
+  }
+
+  const points: TrackPoint[] = matches.map((match) => {
+    const time = match[2]?.match(/<time>([^<]+)<\/time>/)?.[1];
+    const timestamp = time ? Date.parse(time) : NaN;
+
+    return {
+      latitude: getAttribute(match[1], 'lat'),
+      longitude: getAttribute(match[1], 'lon'),
+      ...(Number.isNaN(timestamp) ? {} : { timestamp }),
+    };
+  });
+
+  const name = xml.match(/<name>([\s\S]*?)<\/name>/)?.[1]?.trim();
+
+  return {
+    title: name ? unescapeXml(name) : null,
+    routeData: buildImportedRouteData(points),
+  };
+}
+
+export function parseGeoJson(text: string) {
+  const json = JSON.parse(text);
+  const features = json.type === 'FeatureCollection'
+    ? json.features
+    : json.type === 'Feature'
+      ? [json]
+      : [{ type: 'Feature', geometry: json, properties: {} }];
+
+  const feature = features.find((f: any) =>
+    f?.geometry?.type === 'LineString' || f?.geometry?.type === 'MultiLineString'
+  );
+  if (!feature) {
+    throw new Error('GeoJSON does not contain a LineString');
+  }
+
+  const lines: number[][][] = feature.geometry.type === 'LineString'
+    ? [feature.geometry.coordinates]
+    : feature.geometry.coordinates;
+  const times: unknown[] = feature.properties?.coordinateProperties?.times
+    || feature.properties?.coordTimes
+    || [];
+
+  const points: TrackPoint[] = lines.flat().map(([longitude, latitude], index) => {
+    const time = times[index];
+    const timestamp = typeof time === 'number' ? time : typeof time === 'string' ? Date.parse(time) : NaN;
+
+    return {
+      latitude,
+      longitude,
+      ...(Number.isNaN(timestamp) ? {} : { timestamp }),
+    };
+  });
+
+  return {
+    title: typeof feature.properties?.name === 'string' ? feature.properties.name : null,
+    routeData: buildImportedRouteData(points),
+  };
+}
+
+export function toGpx(title: string, routeData: RouteData) {
+  const points = routeData.points
+    .map((point) => {
+      const time = point.timestamp
+        ? `<time>${new Date(point.timestamp).toISOString()}</time>`
+        : '';
+      return `      <trkpt lat="${point.latitude}" lon="${point.longitude}">${time}</trkpt>`;
+    })
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="RollerMate" xmlns="http://www.topografix.com/GPX/1/1">
+  <trk>
+    <name>${escapeXml(title)}</name>
+    <trkseg>
+${points}
+    </trkseg>
+  </trk>
+</gpx>
+`;
+}
+
+export function toGeoJson(title: string, routeData: RouteData) {
+  const hasTimes = routeData.points.every(point => point.timestamp);
+
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    features: [{
+      type: 'Feature',
+      properties: {
+        name: title,
+        distance_m: routeData.distance_m,
+        duration_s: routeData.duration_s,
+        ...(hasTimes && {
+          coordinateProperties: {
+            times: routeData.points.map(point => new Date(point.timestamp!).toISOString()),
+          },
+        }),
+      },
+      geometry: {
+        type: 'LineString',
+        coordinates: routeData.points.map(point => [point.longitude, point.latitude]),
+      },
+    }],
+  }, null, 2);
+}
+
+const FILE_TYPES: Record<RouteFileFormat, { extension: string; mimeType: string; uti: string }> = {
+  gpx: { extension: 'gpx', mimeType: 'application/gpx+xml', uti: 'com.topografix.gpx' },
+  geojson: { extension: 'geojson', mimeType: 'application/geo+json', uti: 'public.json' },
+};
+
+export async function exportRoute(title: string, routeData: RouteData, format: RouteFileFormat) {
+  try {
+    const { extension, mimeType, uti } = FILE_TYPES[format];
+    const content = format === 'gpx' ? toGpx(title, routeData) : toGeoJson(title, routeData);
+    const fileName = `${title.replace(/[\\/:*?"<>|\s]+/g, '_') || 'route'}.${extension}`;
+
+    if (Platform.OS === 'web') {
+      const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+      return { error: null };
+    }
+
+    const uri = `${FileSystem.cacheDirectory}${fileName}`;
+    await FileSystem.writeAsStringAsync(uri, content);
+    await Sharing.shareAsync(uri, { mimeType, UTI: uti, dialogTitle: title });
+    return { error: null };
+  } catch (error: any) {
+    console.error('Error exporting route:', error);
+    return { error };
+  }
+}
+
+// Lets the user pick a .gpx or .geojson file and parses it into route data
+export async function importRouteFile() {
+  try {
+    // GPX and GeoJSON have no reliable MIME types across platforms, so any
+    // file is accepted and the format is detected from its content
+    const result = await DocumentPicker.getDocumentAsync({
+      type: '*/*',
+      copyToCacheDirectory: true,
+    });
+
+    if (result.canceled) return { route: null, error: null };
+
+    const asset = result.assets[0];
+    const content = Platform.OS === 'web'
+      ? await (await fetch(asset.uri)).text()
+      : await FileSystem.readAsStringAsync(asset.uri);
+
+    const isGpx = asset.name.toLowerCase().endsWith('.gpx') || content.trimStart().startsWith('<');
+    const { title, routeData } = isGpx ? parseGpx(content) : parseGeoJson(content);
+
+    return {
+      route: {
+        title: title || asset.name.replace(/\.[^.]+$/, ''),
+        routeData,
+      },
+      error: null,
+    };
+  } catch (error: any) {
+    console.error('Error importing route:', error);
+    return { route: null, error };
+  }
+}
@@ -0,0 +1,105 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getSessionUser, supabase } from './supabase';
+import { GeoPoint } from './geo';
+
+export interface TrackPoint extends GeoPoint {
+  timestamp?: number;
+}
+
+// Shape of `map_routes.route_data`, validated by is_valid_route_data() in the database
+export interface RouteData {
+  points: TrackPoint[];
+  distance_m: number;
+  duration_s: number;
+}
+
+export interface RideDraft {
+  startedAt: number;
+  points: TrackPoint[];
+}
+
+const RIDE_DRAFT_KEY = 'ride_draft';
+
+// Typical recreational inline skating pace, used for time estimates
+const ESTIMATED_SPEED_KMH = 12;
+
+export function estimateDuration(distanceMeters: number) {
+  return distanceMeters / (ESTIMATED_SPEED_KMH / 3.6);
+}
+
+// Keep in sync with is_valid_route_data() in the database
+const MIN_POINTS = 2;
+const MAX_POINTS = 20000;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+export function isValidRouteData(value: unknown): value is RouteData {
+  if (!value || typeof value !== 'object') return false;
+
+  const data = value as Record<string, unknown>;
+  if (!Array.isArray(data.points)) return false;
+  if (data.points.length < MIN_POINTS || data.points.length > MAX_POINTS) return false;
+  if (!isFiniteNumber(data.distance_m) || data.distance_m < 0) return false;
+  if (!isFiniteNumber(data.duration_s) || data.duration_s < 0) return false;
+
+  return data.points.every((point: any) =>
+    point &&
+    isFiniteNumber(point.latitude) &&
+    isFiniteNumber(point.longitude) &&
+    Math.abs(point.latitude) <= 90 &&
+    Math.abs(point.longitude) <= 180 &&
+    (point.timestamp === undefined || isFiniteNumber(point.timestamp))
+  );
+}
+
+export async function saveRoute(title: string, description: string | null, routeData: RouteData) {
+  try {
+    const user = await getSessionUser();
+    if (!user) throw new Error('No user found');
+    if (!isValidRouteData(routeData)) throw new Error('Invalid route data');
+
+    const { data, error } = await supabase
+      .from('map_routes')
+      .insert({
+        user_id: user.id,
+        title,
+        description,
+        route_data: routeData,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { route: data, error: null };
+  } catch (error: any) {
+    console.error('Error saving route:', error);
+    return { route: null, error };
+  }
+}
+
+export async function saveRideDraft(draft: RideDraft) {
+  try {
+    await AsyncStorage.setItem(RIDE_DRAFT_KEY, JSON.stringify(draft));
+  } catch (error) {
+    console.error('Error saving ride draft:', error);
+  }
+}
+
+export async function loadRideDraft(): Promise<RideDraft | null> {
+  try {
+    const value = await AsyncStorage.getItem(RIDE_DRAFT_KEY);
+    return value ? JSON.parse(value) : null;
+  } catch (error) {
+    console.error('Error loading ride draft:', error);
+    return null;
+  }
+}
+
+export async function clearRideDraft() {
+  try {
+    await AsyncStorage.removeItem(RIDE_DRAFT_KEY);
+  } catch (error) {
+    console.error('Error clearing ride draft:', error);
+  }
+}
@@ -0,0 +1,109 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from './supabase';
+import { FeedPost, searchPosts } from './feed';
+import { Spot, searchSpots } from './spots';
+
+export interface ProfileSearchResult {
+  id: string;
+  full_name: string | null;
+  username: string | null;
+  avatar_url: string | null;
+  city: string | null;
+  bio: string | null;
+}
+
+export interface SearchResults {
+  profiles: ProfileSearchResult[];
+  posts: FeedPost[];
+  spots: Spot[];
+}
+
+export const EMPTY_SEARCH_RESULTS: SearchResults = { profiles: [], posts: [], spots: [] };
+
+const RECENT_SEARCHES_KEY = 'recent_searches';
+const MAX_RECENT_SEARCHES = 10;
+
+// Results per group on the search screen
+export const SEARCH_GROUP_LIMIT = 5;
+
+export async function searchProfiles(query: string, limit: number) {
+  try {
+    const { data, error } = await supabase.rpc('search_profiles', {
+      query,
+      result_limit: limit,
+    });
+
+    if (error) throw error;
+    return { profiles: (data || []) as ProfileSearchResult[], error: null };
+  } catch (error: any) {
+    console.error('Error searching profiles:', error);
+    return { profiles: [] as ProfileSearchResult[], error };
+  }
+}
+
+// Searches people, posts and spots at once. A group that fails comes back
+// empty so the others are still shown; `error` is set only if all failed.
+export async function searchAll(query: string, limit = SEARCH_GROUP_LIMIT) {
+  const [profiles, posts, spots] = await Promise.all([
+    searchProfiles(query, limit),
+    searchPosts(query, limit),
+    searchSpots(query, limit),
+  ]);
+
+  const results: SearchResults = {
+    profiles: profiles.profiles,
+    posts: posts.posts,
+    spots: spots.spots,
+  };
+  const error = profiles.error && posts.error && spots.error ? profiles.error : null;
+
+  return { results, error };
+}
+
+export async function fetchRecentSearches(): Promise<string[]> {
+  try {
+    const raw = await AsyncStorage.getItem(RECENT_SEARCHES_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (error) {
+    console.error('Error reading recent searches:', error);
+    return [];
+  }
+}
+
+// Moves the query to the top of the history, ignoring case when deduplicating
+export async function addRecentSearch(query: string) {
+  const trimmed = query.trim();
+  if (!trimmed) return fetchRecentSearches();
+
+  const recent = await fetchRecentSearches();
+  const next = [
+    trimmed,
+    ...recent.filter(item => item.toLowerCase() !== trimmed.toLowerCase()),
+  ].slice(0, MAX_RECENT_SEARCHES);
+
+  try {
+    await AsyncStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.error('Error saving recent search:', error);
+  }
+  return next;
+}
+
+export async function removeRecentSearch(query: string) {
+  const next = (await fetchRecentSearches()).filter(item => item !== query);
+
+  try {
+    await AsyncStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.error('Error removing recent search:', error);
+  }
+  return next;
+}
+
+export async function clearRecentSearches() {
+  try {
+    await AsyncStorage.removeItem(RECENT_SEARCHES_KEY);
+  } catch (error) {
+    console.error('Error clearing recent searches:', error);
+  }
+}
@@ -0,0 +1,144 @@
+import { getSessionUser, supabase } from './supabase';
+import { GeoPoint } from './geo';
+import { FULL_IMAGE, compressImage, uploadFile } from './upload';
+
+export type SpotCategory = 'skatepark' | 'asphalt' | 'rental' | 'repair';
+
+// Keep in sync with map_locations_category_check in the database
+export const SPOT_CATEGORIES: Record<SpotCategory, { label: string; color: string }> = {
+  skatepark: { label: 'Скейтпарк', color: '#AF52DE' },
+  asphalt: { label: 'Ровный асфальт', color: '#34C759' },
+  rental: { label: 'Прокат', color: '#FF9500' },
+  repair: { label: 'Ремонт', color: '#FF3B30' },
+};
+
+export interface Spot extends GeoPoint {
+  id: string;
+  user_id: string;
+  title: string;
+  description: string | null;
+  image_url: string | null;
+  category: SpotCategory;
+  created_at: string;
+  // Null when the spot wasn't loaded relative to a position, e.g. in search
+  distance_km: number | null;
+  user: {
+    full_name: string;
+    avatar_url: string;
+  } | null;
+}
+
+export interface SpotPost {
+  id: string;
+  user_id: string;
+  content: string;
+  image_url: string | null;
+  created_at: string;
+  distance_m: number;
+  user: {
+    full_name: string;
+    avatar_url: string;
+  } | null;
+}
+
+const SPOT_IMAGES_BUCKET = 'spot-images';
+
+export async function fetchNearbySpots(center: GeoPoint, radiusKm: number) {
+  try {
+    const { data, error } = await supabase.rpc('nearby_spots', {
+      lat: center.latitude,
+      lng: center.longitude,
+      radius_km: radiusKm,
+    });
+
+    if (error) throw error;
+
+    const spots: Spot[] = (data || []).map(({ full_name, avatar_url, ...row }: any) => ({
+      ...row,
+      user: { full_name, avatar_url },
+    }));
+    return { spots, error: null };
+  } catch (error: any) {
+    console.error('Error fetching spots:', error);
+    return { spots: [] as Spot[], error };
+  }
+}
+
+export async function searchSpots(query: string, limit: number) {
+  try {
+    const { data, error } = await supabase.rpc('search_spots', {
+      query,
+      result_limit: limit,
+    });
+
+    if (error) throw error;
+
+    const spots: Spot[] = (data || []).map(({ full_name, avatar_url, ...row }: any) => ({
+      ...row,
+      user: { full_name, avatar_url },
+    }));
+    return { spots, error: null };
+  } catch (error: any) {
+    console.error('Error searching spots:', error);
+    return { spots: [] as Spot[], error };
+  }
+}
+
+export async function fetchSpotPosts(spotId: string) {
+  try {
+    const { data, error } = await supabase.rpc('spot_posts', { spot_id: spotId });
+
+    if (error) throw error;
+
+    const posts: SpotPost[] = (data || []).map(({ full_name, avatar_url, ...row }: any) => ({
+      ...row,
+      user: { full_name, avatar_url },
+    }));
+    return { posts, error: null };
+  } catch (error: any) {
+    console.error('Error fetching spot posts:', error);
+    return { posts: [] as SpotPost[], error };
+  }
+}
+
+async function uploadSpotImage(userId: string, uri: string) {
+  const image = await compressImage(uri, FULL_IMAGE);
+
+  // Storage policies only allow uploads into the user's own folder
+  return uploadFile(SPOT_IMAGES_BUCKET, `${userId}/spot-${Date.now()}.jpg`, image.uri, 'image/jpeg');
+}
+
+export async function createSpot(spot: {
+  title: string;
+  description: string | null;
+  category: SpotCategory;
+  coordinate: GeoPoint;
+  imageUri: string | null;
+}) {
+  try {
+    const user = await getSessionUser();
+    if (!user) throw new Error('No user found');
+
+    const imageUrl = spot.imageUri ? await uploadSpotImage(user.id, spot.imageUri) : null;
+
+    const { data, error } = await supabase
+      .from('map_locations')
+      .insert({
+        user_id: user.id,
+        title: spot.title,
+        description: spot.description,
+        category: spot.category,
+        image_url: imageUrl,
+        latitude: spot.coordinate.latitude,
+        longitude: spot.coordinate.longitude,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { spot: data, error: null };
+  } catch (error: any) {
+    console.error('Error creating spot:', error);
+    return { spot: null, error };
+  }
+}
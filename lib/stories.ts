@@ -0,0 +1,115 @@
+import { getSessionUser, supabase } from './supabase';
+import { FULL_IMAGE, compressImage, uploadFile } from './upload';
+
+export interface Story {
+  id: string;
+  user_id: string;
+  image_url: string;
+  created_at: string;
+  expires_at: string;
+  seen: boolean;
+}
+
+// All unexpired stories of one user, oldest first
+export interface StoryGroup {
+  user_id: string;
+  full_name: string;
+  avatar_url: string;
+  stories: Story[];
+  has_unseen: boolean;
+}
+
+const STORIES_BUCKET = 'stories';
+
+// Own stories come first, then users with unseen stories, then the rest
+export async function fetchStoryGroups(currentUserId: string) {
+  try {
+    const { data, error } = await supabase.rpc('story_feed');
+    if (error) throw error;
+
+    const groups = new Map<string, StoryGroup>();
+    for (const { full_name, avatar_url, ...story } of data || []) {
+      let group = groups.get(story.user_id);
+      if (!group) {
+        group = { user_id: story.user_id, full_name, avatar_url, stories: [], has_unseen: false };
+        groups.set(story.user_id, group);
+      }
+      group.stories.push(story);
+      group.has_unseen = group.has_unseen || !story.seen;
+    }
+
+    const latest = (group: StoryGroup) => group.stories[group.stories.length - 1].created_at;
+    const sorted = [...groups.values()].sort((a, b) => {
+      if (a.user_id === currentUserId) return -1;
+      if (b.user_id === currentUserId) return 1;
+      if (a.has_unseen !== b.has_unseen) return a.has_unseen ? -1 : 1;
+      return latest(b).localeCompare(latest(a));
+    });
+
+    return { groups: sorted, error: null };
+  } catch (error: any) {
+    console.error('Error fetching stories:', error);
+    return { groups: [] as StoryGroup[], error };
+  }
+}
+
+export async function markStorySeen(storyId: string) {
+  try {
+    const user = await getSessionUser();
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('story_views')
+      .upsert(
+        { story_id: storyId, viewer_id: user.id },
+        { onConflict: 'story_id,viewer_id', ignoreDuplicates: true }
+      );
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error marking story as seen:', error);
+  }
+}
+
+export async function createStory(uri: string) {
+  try {
+    const user = await getSessionUser();
+    if (!user) throw new Error('No user found');
+
+    const image = await compressImage(uri, FULL_IMAGE);
+
+    // Storage policies only allow uploads into the user's own folder
+    const publicUrl = await uploadFile(STORIES_BUCKET, `${user.id}/story-${Date.now()}.jpg`, image.uri, 'image/jpeg');
+
+    // expires_at defaults to 24 hours from now in the database
+    const { data, error } = await supabase
+      .from('stories')
+      .insert({
+        user_id: user.id,
+        image_url: publicUrl,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { story: data, error: null };
+  } catch (error: any) {
+    console.error('Error creating story:', error);
+    return { story: null, error };
+  }
+}
+
+export async function deleteStory(storyId: string) {
+  try {
+    const { error } = await supabase
+      .from('stories')
+      .delete()
+      .eq('id', storyId);
+
+    if (error) throw error;
+    return { error: null };
+  } catch (error: any) {
+    console.error('Error deleting story:', error);
+    return { error };
+  }
+}
@@ -58,6 +58,8 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
     autoRefreshToken: true,
     persistSession: true,
     detectSessionInUrl: false,
+    // OAuth redirects come back to the app with a code exchanged in lib/auth.ts
+    flowType: 'pkce',
   },
   global: {
     headers: {
@@ -66,6 +68,13 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   },
 });
 
+// The signed-in user from the stored session. Unlike auth.getUser() this
+// makes no network request; the database still checks the token.
+export async function getSessionUser() {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user ?? null;
+}
+
 // Enhanced fetch error handling
 const originalFetch = window.fetch;
 window.fetch = async function(...args) {
@@ -0,0 +1,103 @@
+import { Platform } from 'react-native';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { supabase } from './supabase';
+
+export interface ImageVariant {
+  // Longest side in pixels
+  maxSize: number;
+  // JPEG quality between 0 and 1
+  compress: number;
+}
+
+export const FULL_IMAGE: ImageVariant = { maxSize: 1600, compress: 0.8 };
+export const THUMBNAIL_IMAGE: ImageVariant = { maxSize: 400, compress: 0.7 };
+
+export interface UploadedImage {
+  url: string;
+  thumbnailUrl: string;
+}
+
+// Scales the image down to the variant's size and re-encodes it as JPEG.
+// Re-encoding drops all EXIF metadata, including the GPS position.
+export async function compressImage(uri: string, variant: ImageVariant) {
+  const context = ImageManipulator.manipulate(uri);
+  const original = await context.renderAsync();
+
+  if (Math.max(original.width, original.height) > variant.maxSize) {
+    context.resize(original.width >= original.height
+      ? { width: variant.maxSize }
+      : { height: variant.maxSize });
+  }
+
+  const image = await context.renderAsync();
+  return image.saveAsync({ compress: variant.compress, format: SaveFormat.JPEG });
+}
+
+// Uploads a local file and returns its public URL. Throws on failure.
+export async function uploadFile(bucket: string, path: string, uri: string, contentType: string) {
+  let file;
+  if (Platform.OS === 'web') {
+    const response = await fetch(uri);
+    const blob = await response.blob();
+    file = new File([blob], path.split('/').pop()!, { type: contentType });
+  } else {
+    file = {
+      uri,
+      name: path.split('/').pop(),
+      type: contentType,
+    };
+  }
+
+  const { error } = await supabase.storage
+    .from(bucket)
+    .upload(path, file as any, { contentType });
+
+  if (error) throw error;
+
+  const { data: { publicUrl } } = supabase.storage
+    .from(bucket)
+    .getPublicUrl(path);
+
+  return publicUrl;
+}
+
+// Compresses a picked image and uploads it as `<path>.jpg` together with a
+// `<path>-thumb.jpg` thumbnail. Throws on failure.
+export async function uploadImage(bucket: string, path: string, uri: string): Promise<UploadedImage> {
+  const [full, thumbnail] = await Promise.all([
+    compressImage(uri, FULL_IMAGE),
+    compressImage(uri, THUMBNAIL_IMAGE),
+  ]);
+
+  const url = await uploadFile(bucket, `${path}.jpg`, full.uri, 'image/jpeg');
+  const thumbnailUrl = await uploadFile(bucket, `${path}-thumb.jpg`, thumbnail.uri, 'image/jpeg');
+
+  return { url, thumbnailUrl };
+}
+
+const PUBLIC_OBJECT_PATH = '/storage/v1/object/public/';
+
+// Removes files by their public URLs. URLs that don't point at this project's
+// storage are ignored. Best effort: failures are logged, not thrown.
+export async function removeUploadedFiles(urls: (string | null | undefined)[]) {
+  const pathsByBucket = new Map<string, string[]>();
+
+  for (const url of urls) {
+    const index = url?.indexOf(PUBLIC_OBJECT_PATH) ?? -1;
+    if (!url || index === -1) continue;
+
+    const [bucket, ...rest] = url.slice(index + PUBLIC_OBJECT_PATH.length).split('?')[0].split('/');
+    if (!bucket || rest.length === 0) continue;
+
+    const paths = pathsByBucket.get(bucket) || [];
+    paths.push(decodeURIComponent(rest.join('/')));
+    pathsByBucket.set(bucket, paths);
+  }
+
+  for (const [bucket, paths] of pathsByBucket) {
+    const { error } = await supabase.storage.from(bucket).remove(paths);
+    if (error) {
+      console.error('Error removing uploaded files:', error);
+    }
+  }
+}
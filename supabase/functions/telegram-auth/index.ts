@@ -0,0 +1,224 @@
+// Verifies Telegram Login Widget data and signs the user in or links Telegram
+// to the signed-in account.
+//
+// Secrets: TELEGRAM_BOT_TOKEN (SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are
+// provided by the platform)
+
+// Deno resolves npm: specifiers, the app's tooling doesn't
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+interface TelegramAuthData {
+  id: number;
+  first_name?: string;
+  last_name?: string;
+  username?: string;
+  photo_url?: string;
+  auth_date: number;
+  hash: string;
+}
+
+type Mode = 'sign_in' | 'link';
+
+const BOT_TOKEN = Deno.env.get('TELEGRAM_BOT_TOKEN') ?? '';
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+// The app sends the login data right after the user approves it, so anything
+// older is a replay of captured data
+const MAX_AUTH_AGE_S = 5 * 60;
+
+// Keep in sync with profiles_username_format in the database
+const USERNAME_PATTERN = /^[A-Za-z0-9_]{3,30}$/;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function toHex(buffer: ArrayBuffer) {
+  return Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function safeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+// https://core.telegram.org/widgets/login#checking-authorization
+async function isValidTelegramAuth(data: Record<string, unknown>) {
+  const { hash, ...fields } = data;
+  if (typeof hash !== 'string' || !BOT_TOKEN) return false;
+
+  const checkString = Object.keys(fields)
+    .filter(key => fields[key] !== undefined && fields[key] !== null)
+    .sort()
+    .map(key => `${key}=${fields[key]}`)
+    .join('\n');
+
+  const encoder = new TextEncoder();
+  const secret = await crypto.subtle.digest('SHA-256', encoder.encode(BOT_TOKEN));
+  const key = await crypto.subtle.importKey('raw', secret, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(checkString));
+
+  return safeEqual(toHex(signature), hash.toLowerCase());
+}
+
+// Accounts created through Telegram have no real email, but Supabase Auth
+// needs one to issue a sign-in link. This address never receives mail.
+function telegramEmail(telegramId: number) {
+  return `telegram-${telegramId}@users.noreply.rollermate.app`;
+}
+
+function telegramFullName(auth: TelegramAuthData) {
+  return [auth.first_name, auth.last_name].filter(Boolean).join(' ') || null;
+}
+
+// Stores the Telegram id on the profile and fills in whatever the user hasn't
+// set yet. Existing names, avatars and usernames are never overwritten.
+// `createdByTelegram` marks accounts this function created, whose profile
+// handle_new_user() filled with the placeholder email.
+async function linkProfile(
+  admin: SupabaseClient,
+  userId: string,
+  auth: TelegramAuthData,
+  createdByTelegram = false
+) {
+  const { data: profile, error: profileError } = await admin
+    .from('profiles')
+    .select('full_name, avatar_url, username, auth_provider')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (profileError) throw profileError;
+
+  const telegramUsername = auth.username && USERNAME_PATTERN.test(auth.username) ? auth.username : null;
+  const values = {
+    id: userId,
+    telegram_id: auth.id,
+    auth_provider: createdByTelegram ? 'telegram' : profile?.auth_provider ?? 'email',
+    ...(createdByTelegram ? { email: null } : {}),
+    full_name: profile?.full_name || telegramFullName(auth),
+    avatar_url: profile?.avatar_url || auth.photo_url || null,
+    username: profile?.username || telegramUsername,
+    updated_at: new Date().toISOString(),
+  };
+
+  let { error } = await admin.from('profiles').upsert(values);
+
+  // The Telegram username may already belong to someone else here
+  if (error?.code === '23505' && values.username && !profile?.username) {
+    ({ error } = await admin.from('profiles').upsert({ ...values, username: null }));
+  }
+
+  if (error) throw error;
+}
+
+async function signIn(admin: SupabaseClient, auth: TelegramAuthData) {
+  const { data: linked, error: linkedError } = await admin
+    .from('profiles')
+    .select('id')
+    .eq('telegram_id', auth.id)
+    .maybeSingle();
+
+  if (linkedError) throw linkedError;
+
+  let email = telegramEmail(auth.id);
+
+  if (linked) {
+    const { data, error } = await admin.auth.admin.getUserById(linked.id);
+    if (error) throw error;
+    email = data.user.email ?? email;
+  } else {
+    const { error } = await admin.auth.admin.createUser({
+      email,
+      email_confirm: true,
+      user_metadata: {
+        telegram_id: auth.id,
+        full_name: telegramFullName(auth),
+        avatar_url: auth.photo_url ?? null,
+      },
+    });
+
+    // A previous attempt may have created the user but not the profile
+    if (error && error.code !== 'email_exists') throw error;
+  }
+
+  const { data: link, error: linkError } = await admin.auth.admin.generateLink({
+    type: 'magiclink',
+    email,
+  });
+
+  if (linkError) throw linkError;
+
+  await linkProfile(admin, link.user.id, auth, link.user.email === telegramEmail(auth.id));
+
+  // The app exchanges the token for a session with verifyOtp()
+  return { token_hash: link.properties.hashed_token };
+}
+
+async function link(admin: SupabaseClient, req: Request, auth: TelegramAuthData) {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer /, '');
+  if (!token) return json({ error: 'unauthorized' }, 401);
+
+  const { data: { user }, error: userError } = await admin.auth.getUser(token);
+  if (userError || !user) return json({ error: 'unauthorized' }, 401);
+
+  const { data: linked, error: linkedError } = await admin
+    .from('profiles')
+    .select('id')
+    .eq('telegram_id', auth.id)
+    .maybeSingle();
+
+  if (linkedError) throw linkedError;
+  if (linked && linked.id !== user.id) {
+    return json({ error: 'telegram_already_linked' }, 409);
+  }
+
+  await linkProfile(admin, user.id, auth);
+  return json({ linked: true });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { mode = 'sign_in', auth } = await req.json() as { mode?: Mode; auth?: TelegramAuthData };
+
+    if (!auth || !(await isValidTelegramAuth(auth as unknown as Record<string, unknown>))) {
+      return json({ error: 'invalid_telegram_hash' }, 401);
+    }
+
+    if (Date.now() / 1000 - Number(auth.auth_date) > MAX_AUTH_AGE_S) {
+      return json({ error: 'telegram_auth_expired' }, 401);
+    }
+
+    const admin = createClient(SUPABASE_URL, SERVICE_ROLE_KEY, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+
+    if (mode === 'link') {
+      return await link(admin, req, auth);
+    }
+
+    return json(await signIn(admin, auth));
+  } catch (error) {
+    console.error('Telegram auth error:', error);
+    return json({ error: 'internal_error' }, 500);
+  }
+});
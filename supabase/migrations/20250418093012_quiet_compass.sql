@@ -0,0 +1,70 @@
+/*
+  # Proximity search for nearby athletes
+
+  1. Extensions
+    - Enable `cube` and `earthdistance` for great-circle distance queries
+
+  2. Changes
+    - Keep a single row per user in `athlete_locations` (the most recent one)
+    - Add unique constraint on `athlete_locations.user_id` so the client can upsert by user
+    - Add GiST index on `ll_to_earth(latitude, longitude)` for radius lookups
+    - Add index on `athlete_locations.last_updated`
+
+  3. Functions
+    - `nearby_athletes(lat, lng, radius_km, active_minutes)` returns active athletes
+      within the radius of the given point, sorted by distance, excluding the caller
+*/
+
+CREATE EXTENSION IF NOT EXISTS cube;
+CREATE EXTENSION IF NOT EXISTS earthdistance;
+
+-- Remove duplicate location rows, keeping the latest update per user
+DELETE FROM athlete_locations a
+USING athlete_locations b
+WHERE a.user_id = b.user_id
+AND (a.last_updated, a.id) < (b.last_updated, b.id);
+
+ALTER TABLE athlete_locations
+ADD CONSTRAINT athlete_locations_user_id_key UNIQUE (user_id);
+
+CREATE INDEX IF NOT EXISTS idx_athlete_locations_earth
+  ON athlete_locations USING gist (ll_to_earth(latitude, longitude));
+
+CREATE INDEX IF NOT EXISTS idx_athlete_locations_last_updated
+  ON athlete_locations(last_updated);
+
+CREATE OR REPLACE FUNCTION nearby_athletes(
+  lat double precision,
+  lng double precision,
+  radius_km double precision DEFAULT 5,
+  active_minutes integer DEFAULT 30
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  latitude double precision,
+  longitude double precision,
+  last_updated timestamptz,
+  distance_km double precision,
+  full_name text,
+  avatar_url text
+) AS $$
+  SELECT
+    al.id,
+    al.user_id,
+    al.latitude,
+    al.longitude,
+    al.last_updated,
+    earth_distance(ll_to_earth(lat, lng), ll_to_earth(al.latitude, al.longitude)) / 1000,
+    p.full_name,
+    p.avatar_url
+  FROM athlete_locations al
+  JOIN profiles p ON p.id = al.user_id
+  WHERE earth_box(ll_to_earth(lat, lng), radius_km * 1000) @> ll_to_earth(al.latitude, al.longitude)
+  AND earth_distance(ll_to_earth(lat, lng), ll_to_earth(al.latitude, al.longitude)) <= radius_km * 1000
+  AND al.last_updated >= now() - make_interval(mins => active_minutes)
+  AND al.user_id IS DISTINCT FROM auth.uid()
+  ORDER BY 6;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION nearby_athletes(double precision, double precision, double precision, integer) TO authenticated;
@@ -0,0 +1,83 @@
+/*
+  # Route library
+
+  1. Changes
+    - Add `start_latitude`, `start_longitude` and `distance_m` to `map_routes`,
+      derived from `route_data` by a trigger so routes can be searched by distance
+    - Backfill the new columns for existing routes
+    - Add GiST index on the route start point
+
+  2. Functions
+    - `nearby_routes(lat, lng, radius_km)` returns routes starting within the radius
+      of the given point with their author, sorted by distance
+*/
+
+ALTER TABLE map_routes
+ADD COLUMN IF NOT EXISTS start_latitude double precision,
+ADD COLUMN IF NOT EXISTS start_longitude double precision,
+ADD COLUMN IF NOT EXISTS distance_m double precision;
+
+CREATE OR REPLACE FUNCTION set_map_route_summary()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.start_latitude := (NEW.route_data -> 'points' -> 0 ->> 'latitude')::double precision;
+  NEW.start_longitude := (NEW.route_data -> 'points' -> 0 ->> 'longitude')::double precision;
+  NEW.distance_m := (NEW.route_data ->> 'distance_m')::double precision;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_map_route_summary ON map_routes;
+
+CREATE TRIGGER set_map_route_summary
+  BEFORE INSERT OR UPDATE OF route_data ON map_routes
+  FOR EACH ROW
+  EXECUTE FUNCTION set_map_route_summary();
+
+-- Fire the trigger for existing rows
+UPDATE map_routes SET route_data = route_data;
+
+CREATE INDEX IF NOT EXISTS idx_map_routes_start_earth
+  ON map_routes USING gist (ll_to_earth(start_latitude, start_longitude));
+
+CREATE INDEX IF NOT EXISTS idx_map_routes_user_id ON map_routes(user_id);
+
+CREATE OR REPLACE FUNCTION nearby_routes(
+  lat double precision,
+  lng double precision,
+  radius_km double precision DEFAULT 25
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  title text,
+  description text,
+  distance_m double precision,
+  start_latitude double precision,
+  start_longitude double precision,
+  created_at timestamptz,
+  distance_km double precision,
+  full_name text,
+  avatar_url text
+) AS $$
+  SELECT
+    r.id,
+    r.user_id,
+    r.title,
+    r.description,
+    r.distance_m,
+    r.start_latitude,
+    r.start_longitude,
+    r.created_at,
+    earth_distance(ll_to_earth(lat, lng), ll_to_earth(r.start_latitude, r.start_longitude)) / 1000,
+    p.full_name,
+    p.avatar_url
+  FROM map_routes r
+  LEFT JOIN profiles p ON p.id = r.user_id
+  WHERE r.start_latitude IS NOT NULL
+  AND earth_box(ll_to_earth(lat, lng), radius_km * 1000) @> ll_to_earth(r.start_latitude, r.start_longitude)
+  AND earth_distance(ll_to_earth(lat, lng), ll_to_earth(r.start_latitude, r.start_longitude)) <= radius_km * 1000
+  ORDER BY 9;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION nearby_routes(double precision, double precision, double precision) TO authenticated;
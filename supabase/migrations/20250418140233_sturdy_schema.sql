@@ -0,0 +1,63 @@
+/*
+  # Validate route_data
+
+  1. Functions
+    - `is_valid_route_data(data)` checks the `route_data` schema:
+      - `points`: array of 2..20000 objects with numeric `latitude` (-90..90),
+        `longitude` (-180..180) and optional numeric `timestamp`
+      - `distance_m`, `duration_s`: non-negative numbers
+
+  2. Changes
+    - Add CHECK constraints on `map_routes.route_data` and `user_routes.route_data`.
+      Constraints are NOT VALID so existing rows are kept, but every new or
+      updated row must match the schema
+*/
+
+CREATE OR REPLACE FUNCTION is_valid_route_data(data jsonb)
+RETURNS boolean AS $$
+DECLARE
+  point jsonb;
+BEGIN
+  IF jsonb_typeof(data) IS DISTINCT FROM 'object' THEN
+    RETURN false;
+  END IF;
+
+  IF jsonb_typeof(data -> 'points') IS DISTINCT FROM 'array'
+    OR jsonb_typeof(data -> 'distance_m') IS DISTINCT FROM 'number'
+    OR jsonb_typeof(data -> 'duration_s') IS DISTINCT FROM 'number' THEN
+    RETURN false;
+  END IF;
+
+  IF jsonb_array_length(data -> 'points') NOT BETWEEN 2 AND 20000
+    OR (data ->> 'distance_m')::numeric < 0
+    OR (data ->> 'duration_s')::numeric < 0 THEN
+    RETURN false;
+  END IF;
+
+  FOR point IN SELECT value FROM jsonb_array_elements(data -> 'points') LOOP
+    IF jsonb_typeof(point -> 'latitude') IS DISTINCT FROM 'number'
+      OR jsonb_typeof(point -> 'longitude') IS DISTINCT FROM 'number' THEN
+      RETURN false;
+    END IF;
+
+    IF abs((point ->> 'latitude')::numeric) > 90
+      OR abs((point ->> 'longitude')::numeric) > 180 THEN
+      RETURN false;
+    END IF;
+
+    IF point ? 'timestamp' AND jsonb_typeof(point -> 'timestamp') IS DISTINCT FROM 'number' THEN
+      RETURN false;
+    END IF;
+  END LOOP;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+ALTER TABLE map_routes
+ADD CONSTRAINT map_routes_route_data_check
+CHECK (is_valid_route_data(route_data)) NOT VALID;
+
+ALTER TABLE user_routes
+ADD CONSTRAINT user_routes_route_data_check
+CHECK (is_valid_route_data(route_data)) NOT VALID;
@@ -0,0 +1,144 @@
+/*
+  # Skate spots
+
+  1. Changes
+    - Add `category` to `map_locations`: skatepark, asphalt, rental or repair
+    - Add GiST index on `ll_to_earth(latitude, longitude)` for radius lookups
+    - Add GiST index on post coordinates to find posts made near a spot
+
+  2. Storage
+    - Public `spot-images` bucket; authenticated users upload into their own
+      `<user_id>/` folder
+
+  3. Functions
+    - `nearby_spots(lat, lng, radius_km)` returns spots within the radius with
+      their author, sorted by distance
+    - `spot_posts(spot_id, radius_m)` returns posts geotagged within `radius_m`
+      of the spot, newest first
+*/
+
+ALTER TABLE map_locations
+ADD COLUMN IF NOT EXISTS category text NOT NULL DEFAULT 'skatepark';
+
+DO $$ BEGIN
+  ALTER TABLE map_locations
+  ADD CONSTRAINT map_locations_category_check
+  CHECK (category IN ('skatepark', 'asphalt', 'rental', 'repair'));
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_map_locations_earth
+  ON map_locations USING gist (ll_to_earth(latitude, longitude));
+
+CREATE INDEX IF NOT EXISTS idx_posts_earth
+  ON posts USING gist (ll_to_earth(latitude, longitude))
+  WHERE latitude IS NOT NULL AND longitude IS NOT NULL;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('spot-images', 'spot-images', true)
+ON CONFLICT (id) DO NOTHING;
+
+DO $$ BEGIN
+  CREATE POLICY "Spot images are viewable by everyone"
+    ON storage.objects
+    FOR SELECT
+    USING (bucket_id = 'spot-images');
+
+  CREATE POLICY "Users can upload spot images"
+    ON storage.objects
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+      bucket_id = 'spot-images'
+      AND (storage.foldername(name))[1] = auth.uid()::text
+    );
+
+  CREATE POLICY "Users can delete own spot images"
+    ON storage.objects
+    FOR DELETE
+    TO authenticated
+    USING (
+      bucket_id = 'spot-images'
+      AND (storage.foldername(name))[1] = auth.uid()::text
+    );
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE OR REPLACE FUNCTION nearby_spots(
+  lat double precision,
+  lng double precision,
+  radius_km double precision DEFAULT 25
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  title text,
+  description text,
+  image_url text,
+  category text,
+  latitude double precision,
+  longitude double precision,
+  created_at timestamptz,
+  distance_km double precision,
+  full_name text,
+  avatar_url text
+) AS $$
+  SELECT
+    l.id,
+    l.user_id,
+    l.title,
+    l.description,
+    l.image_url,
+    l.category,
+    l.latitude,
+    l.longitude,
+    l.created_at,
+    earth_distance(ll_to_earth(lat, lng), ll_to_earth(l.latitude, l.longitude)) / 1000,
+    p.full_name,
+    p.avatar_url
+  FROM map_locations l
+  LEFT JOIN profiles p ON p.id = l.user_id
+  WHERE earth_box(ll_to_earth(lat, lng), radius_km * 1000) @> ll_to_earth(l.latitude, l.longitude)
+  AND earth_distance(ll_to_earth(lat, lng), ll_to_earth(l.latitude, l.longitude)) <= radius_km * 1000
+  ORDER BY 10;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION spot_posts(
+  spot_id uuid,
+  radius_m double precision DEFAULT 200
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  image_url text,
+  created_at timestamptz,
+  distance_m double precision,
+  full_name text,
+  avatar_url text
+) AS $$
+  SELECT
+    po.id,
+    po.user_id,
+    po.content,
+    po.image_url,
+    po.created_at,
+    earth_distance(ll_to_earth(l.latitude, l.longitude), ll_to_earth(po.latitude, po.longitude)),
+    p.full_name,
+    p.avatar_url
+  FROM map_locations l
+  JOIN posts po
+    ON po.latitude IS NOT NULL
+    AND po.longitude IS NOT NULL
+    AND earth_box(ll_to_earth(l.latitude, l.longitude), radius_m) @> ll_to_earth(po.latitude, po.longitude)
+    AND earth_distance(ll_to_earth(l.latitude, l.longitude), ll_to_earth(po.latitude, po.longitude)) <= radius_m
+  LEFT JOIN profiles p ON p.id = po.user_id
+  WHERE l.id = spot_id
+  ORDER BY po.created_at DESC
+  LIMIT 50;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION nearby_spots(double precision, double precision, double precision) TO authenticated;
+GRANT EXECUTE ON FUNCTION spot_posts(uuid, double precision) TO authenticated;
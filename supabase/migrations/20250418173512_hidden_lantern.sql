@@ -0,0 +1,151 @@
+/*
+  # Location privacy
+
+  1. Changes
+    - Add location sharing settings to `profiles`:
+      - `location_visibility`: who can see the user on the map
+        (`everyone`, `followers` or `nobody`)
+      - `location_precision_m`: coordinates are snapped to a grid of this size
+        before they are stored, 0 keeps the exact position
+      - `location_invisible`: temporarily hides the user regardless of visibility
+    - Coordinates in `athlete_locations` are fuzzed by a trigger, so exact
+      positions are never stored even if a client sends them
+    - Hiding the location deletes the stored position, changing the precision
+      re-fuzzes it
+
+  2. Security
+    - Replace the world-readable SELECT policy on `athlete_locations` with one
+      that honours the owner's visibility setting
+    - Only allow writing a location while sharing is enabled
+    - Allow users to delete their own location
+*/
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS location_visibility text NOT NULL DEFAULT 'everyone',
+ADD COLUMN IF NOT EXISTS location_precision_m integer NOT NULL DEFAULT 100,
+ADD COLUMN IF NOT EXISTS location_invisible boolean NOT NULL DEFAULT false;
+
+DO $$ BEGIN
+  ALTER TABLE profiles
+  ADD CONSTRAINT profiles_location_visibility_check
+  CHECK (location_visibility IN ('everyone', 'followers', 'nobody'));
+
+  ALTER TABLE profiles
+  ADD CONSTRAINT profiles_location_precision_m_check
+  CHECK (location_precision_m BETWEEN 0 AND 5000);
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- Whether the owner currently shares their location with anyone
+CREATE OR REPLACE FUNCTION is_location_shared(owner uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = owner
+    AND NOT p.location_invisible
+    AND p.location_visibility <> 'nobody'
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Whether the current user may see the owner's location
+CREATE OR REPLACE FUNCTION can_view_location(owner uuid)
+RETURNS boolean AS $$
+  SELECT owner = auth.uid() OR EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = owner
+    AND NOT p.location_invisible
+    AND (
+      p.location_visibility = 'everyone'
+      OR (
+        p.location_visibility = 'followers'
+        AND EXISTS (
+          SELECT 1 FROM follows f
+          WHERE f.follower_id = auth.uid()
+          AND f.following_id = owner
+        )
+      )
+    )
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Snap coordinates to a grid of the owner's precision. Longitude cells are
+-- widened by latitude so cells stay roughly square in meters.
+CREATE OR REPLACE FUNCTION fuzz_athlete_location()
+RETURNS TRIGGER AS $$
+DECLARE
+  precision_m integer;
+  lat_step double precision;
+  lng_step double precision;
+BEGIN
+  SELECT location_precision_m INTO precision_m
+  FROM profiles
+  WHERE id = NEW.user_id;
+
+  IF COALESCE(precision_m, 0) > 0 THEN
+    lat_step := precision_m / 111320.0;
+    NEW.latitude := round(NEW.latitude / lat_step) * lat_step;
+    lng_step := precision_m / (111320.0 * greatest(cos(radians(NEW.latitude)), 0.01));
+    NEW.longitude := round(NEW.longitude / lng_step) * lng_step;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS fuzz_athlete_location ON athlete_locations;
+
+CREATE TRIGGER fuzz_athlete_location
+  BEFORE INSERT OR UPDATE OF latitude, longitude ON athlete_locations
+  FOR EACH ROW
+  EXECUTE FUNCTION fuzz_athlete_location();
+
+-- Drop the stored position as soon as the user stops sharing it and re-fuzz
+-- it when the precision changes
+CREATE OR REPLACE FUNCTION apply_location_settings()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT is_location_shared(NEW.id) THEN
+    DELETE FROM athlete_locations WHERE user_id = NEW.id;
+  ELSIF NEW.location_precision_m IS DISTINCT FROM OLD.location_precision_m THEN
+    UPDATE athlete_locations SET latitude = latitude WHERE user_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS apply_location_settings ON profiles;
+
+CREATE TRIGGER apply_location_settings
+  AFTER UPDATE OF location_visibility, location_invisible, location_precision_m ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_location_settings();
+
+-- Re-fuzz stored positions with the current precision
+UPDATE athlete_locations SET latitude = latitude;
+
+DROP POLICY IF EXISTS "Locations are viewable by everyone" ON public.athlete_locations;
+DROP POLICY IF EXISTS "Users can insert own location" ON public.athlete_locations;
+DROP POLICY IF EXISTS "Users can modify own location" ON public.athlete_locations;
+
+CREATE POLICY "Locations are viewable according to owner settings"
+  ON public.athlete_locations FOR SELECT
+  TO authenticated
+  USING (can_view_location(user_id));
+
+CREATE POLICY "Users can insert own location while sharing"
+  ON public.athlete_locations FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND is_location_shared(user_id));
+
+CREATE POLICY "Users can modify own location while sharing"
+  ON public.athlete_locations FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id AND is_location_shared(user_id));
+
+CREATE POLICY "Users can delete own location"
+  ON public.athlete_locations FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,141 @@
+/*
+  # Group rides
+
+  1. New Tables
+    - `events`
+      - `id` (uuid, primary key)
+      - `organizer_id` (uuid, references profiles)
+      - `title` (text)
+      - `description` (text, optional)
+      - `starts_at` (timestamp)
+      - `meeting_latitude`, `meeting_longitude` (double precision)
+      - `route_id` (uuid, optional, references map_routes)
+      - `skill_level` (text): any, beginner, intermediate or advanced
+      - `created_at`, `updated_at` (timestamp)
+
+    - `event_attendees`
+      - `id` (uuid, primary key)
+      - `event_id` (uuid, references events)
+      - `user_id` (uuid, references profiles)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on both tables
+    - Everyone can view events and attendees
+    - Organizers manage their own events, users manage their own attendance
+
+  3. Triggers
+    - The organizer automatically attends their event
+    - Followers of the organizer get an `event` notification
+*/
+
+CREATE TABLE IF NOT EXISTS events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organizer_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  title text NOT NULL,
+  description text,
+  starts_at timestamptz NOT NULL,
+  meeting_latitude double precision NOT NULL,
+  meeting_longitude double precision NOT NULL,
+  route_id uuid REFERENCES map_routes(id) ON DELETE SET NULL,
+  skill_level text NOT NULL DEFAULT 'any'
+    CHECK (skill_level IN ('any', 'beginner', 'intermediate', 'advanced')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS event_attendees (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(event_id, user_id)
+);
+
+ALTER TABLE events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_attendees ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "Events are viewable by everyone"
+    ON events
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+  CREATE POLICY "Users can create events"
+    ON events
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (auth.uid() = organizer_id);
+
+  CREATE POLICY "Organizers can update own events"
+    ON events
+    FOR UPDATE
+    TO authenticated
+    USING (auth.uid() = organizer_id);
+
+  CREATE POLICY "Organizers can delete own events"
+    ON events
+    FOR DELETE
+    TO authenticated
+    USING (auth.uid() = organizer_id);
+
+  CREATE POLICY "Attendees are viewable by everyone"
+    ON event_attendees
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+  CREATE POLICY "Users can join events"
+    ON event_attendees
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (auth.uid() = user_id);
+
+  CREATE POLICY "Users can leave events"
+    ON event_attendees
+    FOR DELETE
+    TO authenticated
+    USING (auth.uid() = user_id);
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_events_starts_at ON events(starts_at);
+CREATE INDEX IF NOT EXISTS idx_events_organizer_id ON events(organizer_id);
+CREATE INDEX IF NOT EXISTS idx_event_attendees_user_id ON event_attendees(user_id);
+
+CREATE TRIGGER update_events_updated_at
+  BEFORE UPDATE ON events
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION handle_new_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO event_attendees (event_id, user_id)
+  VALUES (NEW.id, NEW.organizer_id)
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO notifications (user_id, type, data)
+  SELECT
+    f.follower_id,
+    'event',
+    jsonb_build_object(
+      'event_id', NEW.id,
+      'organizer_id', NEW.organizer_id,
+      'title', NEW.title,
+      'starts_at', NEW.starts_at
+    )
+  FROM follows f
+  WHERE f.following_id = NEW.organizer_id
+  AND f.follower_id != NEW.organizer_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER handle_new_event
+  AFTER INSERT ON events
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_new_event();
@@ -0,0 +1,146 @@
+/*
+  # Stories
+
+  1. Changes
+    - Stories expire 24 hours after creation by default
+
+  2. New Tables
+    - `story_views`
+      - `id` (uuid, primary key)
+      - `story_id` (uuid, references stories)
+      - `viewer_id` (uuid, references profiles)
+      - `viewed_at` (timestamp)
+
+  3. Storage
+    - Public `stories` bucket; authenticated users upload into their own
+      `<user_id>/` folder
+
+  4. Functions
+    - `story_feed()` returns unexpired stories of the current user and the
+      users they follow, with the viewer's seen state
+    - Schedule `cleanup_expired_stories()` every 15 minutes with pg_cron
+
+  5. Security
+    - Viewers record their own views; story owners can see who viewed
+*/
+
+ALTER TABLE stories
+ALTER COLUMN expires_at SET DEFAULT now() + interval '24 hours';
+
+CREATE INDEX IF NOT EXISTS idx_stories_user_id ON stories(user_id);
+
+CREATE TABLE IF NOT EXISTS story_views (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  story_id uuid REFERENCES stories(id) ON DELETE CASCADE NOT NULL,
+  viewer_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  viewed_at timestamptz DEFAULT now(),
+  UNIQUE(story_id, viewer_id)
+);
+
+ALTER TABLE story_views ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "Users can view own story views"
+    ON story_views
+    FOR SELECT
+    TO authenticated
+    USING (
+      auth.uid() = viewer_id
+      OR EXISTS (
+        SELECT 1 FROM stories s
+        WHERE s.id = story_id
+        AND s.user_id = auth.uid()
+      )
+    );
+
+  CREATE POLICY "Users can mark stories as seen"
+    ON story_views
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (auth.uid() = viewer_id);
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('stories', 'stories', true)
+ON CONFLICT (id) DO NOTHING;
+
+DO $$ BEGIN
+  CREATE POLICY "Story images are viewable by everyone"
+    ON storage.objects
+    FOR SELECT
+    USING (bucket_id = 'stories');
+
+  CREATE POLICY "Users can upload story images"
+    ON storage.objects
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+      bucket_id = 'stories'
+      AND (storage.foldername(name))[1] = auth.uid()::text
+    );
+
+  CREATE POLICY "Users can delete own story images"
+    ON storage.objects
+    FOR DELETE
+    TO authenticated
+    USING (
+      bucket_id = 'stories'
+      AND (storage.foldername(name))[1] = auth.uid()::text
+    );
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE OR REPLACE FUNCTION story_feed()
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  image_url text,
+  created_at timestamptz,
+  expires_at timestamptz,
+  seen boolean,
+  full_name text,
+  avatar_url text
+) AS $$
+  SELECT
+    s.id,
+    s.user_id,
+    s.image_url,
+    s.created_at,
+    s.expires_at,
+    EXISTS (
+      SELECT 1 FROM story_views v
+      WHERE v.story_id = s.id
+      AND v.viewer_id = auth.uid()
+    ),
+    p.full_name,
+    p.avatar_url
+  FROM stories s
+  LEFT JOIN profiles p ON p.id = s.user_id
+  WHERE s.expires_at > now()
+  AND (
+    s.user_id = auth.uid()
+    OR s.user_id IN (
+      SELECT f.following_id FROM follows f
+      WHERE f.follower_id = auth.uid()
+    )
+  )
+  ORDER BY s.user_id, s.created_at;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION story_feed() TO authenticated;
+
+-- Expired stories were never removed because nothing called the cleanup
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.unschedule(jobid)
+FROM cron.job
+WHERE jobname = 'cleanup-expired-stories';
+
+SELECT cron.schedule(
+  'cleanup-expired-stories',
+  '*/15 * * * *',
+  'SELECT cleanup_expired_stories()'
+);
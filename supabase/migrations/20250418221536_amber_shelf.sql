@@ -0,0 +1,106 @@
+/*
+  # Bookmark collections
+
+  1. New Tables
+    - `bookmark_collections`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `name` (text, unique per user)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `bookmarks.collection_id` optionally groups a saved post into a
+      collection; deleting a collection keeps its bookmarks
+
+  3. Security
+    - Users manage only their own collections
+    - Bookmarks can be moved between collections by their owner, and only
+      into the owner's own collections
+*/
+
+CREATE TABLE IF NOT EXISTS bookmark_collections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 50),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, name)
+);
+
+ALTER TABLE bookmark_collections ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE bookmarks
+ADD COLUMN IF NOT EXISTS collection_id uuid REFERENCES bookmark_collections(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bookmark_collections_user_id ON bookmark_collections(user_id);
+CREATE INDEX IF NOT EXISTS idx_bookmarks_collection_id ON bookmarks(collection_id);
+CREATE INDEX IF NOT EXISTS idx_bookmarks_user_created ON bookmarks(user_id, created_at DESC);
+
+DO $$ BEGIN
+  CREATE POLICY "Users can view own collections"
+    ON bookmark_collections
+    FOR SELECT
+    TO authenticated
+    USING (auth.uid() = user_id);
+
+  CREATE POLICY "Users can create collections"
+    ON bookmark_collections
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (auth.uid() = user_id);
+
+  CREATE POLICY "Users can rename own collections"
+    ON bookmark_collections
+    FOR UPDATE
+    TO authenticated
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+  CREATE POLICY "Users can delete own collections"
+    ON bookmark_collections
+    FOR DELETE
+    TO authenticated
+    USING (auth.uid() = user_id);
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- Recreate the insert policy so a bookmark can't point at someone else's
+-- collection, and allow owners to move bookmarks between collections
+DROP POLICY IF EXISTS "Users can create bookmarks" ON bookmarks;
+
+DO $$ BEGIN
+  CREATE POLICY "Users can create bookmarks"
+    ON bookmarks
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+      auth.uid() = user_id
+      AND (
+        collection_id IS NULL
+        OR EXISTS (
+          SELECT 1 FROM bookmark_collections c
+          WHERE c.id = collection_id
+          AND c.user_id = auth.uid()
+        )
+      )
+    );
+
+  CREATE POLICY "Users can update own bookmarks"
+    ON bookmarks
+    FOR UPDATE
+    TO authenticated
+    USING (auth.uid() = user_id)
+    WITH CHECK (
+      auth.uid() = user_id
+      AND (
+        collection_id IS NULL
+        OR EXISTS (
+          SELECT 1 FROM bookmark_collections c
+          WHERE c.id = collection_id
+          AND c.user_id = auth.uid()
+        )
+      )
+    );
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,73 @@
+/*
+  # Paginated feed
+
+  1. Changes
+    - `posts.created_at` is now NOT NULL so it can be used as a cursor
+    - Index on `posts (created_at DESC, id DESC)` for keyset pagination
+
+  2. Views
+    - `post_feed` exposes posts with author fields, `like_count`,
+      `comment_count`, `liked_by_me` and `bookmarked_by_me` so clients no
+      longer download every like row. Runs with the caller's permissions.
+
+  3. Functions
+    - `feed_page(cursor_created_at, cursor_id, page_size)` returns the next
+      page of `post_feed` older than the `(created_at, id)` cursor, newest
+      first. Passing no cursor returns the first page.
+*/
+
+UPDATE posts SET created_at = now() WHERE created_at IS NULL;
+
+ALTER TABLE posts
+ALTER COLUMN created_at SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_posts_created_at_id ON posts(created_at DESC, id DESC);
+
+CREATE OR REPLACE VIEW post_feed
+WITH (security_invoker = true)
+AS
+SELECT
+  p.id,
+  p.user_id,
+  p.content,
+  p.image_url,
+  p.latitude,
+  p.longitude,
+  p.created_at,
+  pr.full_name,
+  pr.avatar_url,
+  (SELECT count(*) FROM likes l WHERE l.post_id = p.id)::integer AS like_count,
+  (SELECT count(*) FROM comments c WHERE c.post_id = p.id)::integer AS comment_count,
+  EXISTS (
+    SELECT 1 FROM likes l
+    WHERE l.post_id = p.id
+    AND l.user_id = auth.uid()
+  ) AS liked_by_me,
+  EXISTS (
+    SELECT 1 FROM bookmarks b
+    WHERE b.post_id = p.id
+    AND b.user_id = auth.uid()
+  ) AS bookmarked_by_me
+FROM posts p
+LEFT JOIN profiles pr ON pr.id = p.user_id;
+
+GRANT SELECT ON post_feed TO authenticated;
+
+CREATE OR REPLACE FUNCTION feed_page(
+  cursor_created_at timestamptz DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 20
+)
+RETURNS SETOF post_feed
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT *
+  FROM post_feed f
+  WHERE cursor_created_at IS NULL
+  OR (f.created_at, f.id) < (cursor_created_at, cursor_id)
+  ORDER BY f.created_at DESC, f.id DESC
+  LIMIT LEAST(page_size, 50);
+$$;
+
+GRANT EXECUTE ON FUNCTION feed_page(timestamptz, uuid, integer) TO authenticated;
@@ -0,0 +1,73 @@
+/*
+  # Feed modes
+
+  1. Functions
+    - `following_feed_page(cursor_created_at, cursor_id, page_size)` returns
+      posts by the current user and the accounts they follow
+    - `nearby_feed_page(lat, lng, radius_km, cursor_created_at, cursor_id,
+      page_size)` returns geotagged posts within `radius_km` of a point
+    - Both page through `post_feed` with the same `(created_at, id)` cursor
+      as `feed_page`
+
+  2. Indexes
+    - `posts (user_id, created_at DESC, id DESC)` for the following feed
+    - `follows (follower_id)` to look up followed accounts
+*/
+
+CREATE INDEX IF NOT EXISTS idx_posts_user_created_at_id ON posts(user_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_follows_follower_id ON follows(follower_id);
+
+CREATE OR REPLACE FUNCTION following_feed_page(
+  cursor_created_at timestamptz DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 20
+)
+RETURNS SETOF post_feed
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT *
+  FROM post_feed f
+  WHERE (
+    f.user_id = auth.uid()
+    OR f.user_id IN (
+      SELECT following_id FROM follows
+      WHERE follower_id = auth.uid()
+    )
+  )
+  AND (
+    cursor_created_at IS NULL
+    OR (f.created_at, f.id) < (cursor_created_at, cursor_id)
+  )
+  ORDER BY f.created_at DESC, f.id DESC
+  LIMIT LEAST(page_size, 50);
+$$;
+
+CREATE OR REPLACE FUNCTION nearby_feed_page(
+  lat double precision,
+  lng double precision,
+  radius_km double precision DEFAULT 10,
+  cursor_created_at timestamptz DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 20
+)
+RETURNS SETOF post_feed
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT *
+  FROM post_feed f
+  WHERE f.latitude IS NOT NULL
+  AND f.longitude IS NOT NULL
+  AND earth_box(ll_to_earth(lat, lng), radius_km * 1000) @> ll_to_earth(f.latitude, f.longitude)
+  AND earth_distance(ll_to_earth(lat, lng), ll_to_earth(f.latitude, f.longitude)) <= radius_km * 1000
+  AND (
+    cursor_created_at IS NULL
+    OR (f.created_at, f.id) < (cursor_created_at, cursor_id)
+  )
+  ORDER BY f.created_at DESC, f.id DESC
+  LIMIT LEAST(page_size, 50);
+$$;
+
+GRANT EXECUTE ON FUNCTION following_feed_page(timestamptz, uuid, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION nearby_feed_page(double precision, double precision, double precision, timestamptz, uuid, integer) TO authenticated;
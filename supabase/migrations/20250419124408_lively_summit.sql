@@ -0,0 +1,104 @@
+/*
+  # Top feed
+
+  1. Materialized Views
+    - `post_scores` holds engagement counts of posts from the last 30 days
+      and a time-decayed `score`:
+        (likes + 2 * comments + 2 * replies + 3 * bookmarks)
+          / (hours since posting + 2) ^ 1.5
+    - Refreshed every 10 minutes with pg_cron, so scores are stable between
+      refreshes and can be used as a pagination cursor
+
+  2. Functions
+    - `top_feed_page(time_window, cursor_score, cursor_id, page_size)` returns
+      `post_feed` rows of posts from the last day, week or month ranked by
+      score, with the score as an extra column
+    - `refresh_post_scores()` refreshes the materialized view
+*/
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS post_scores AS
+SELECT
+  p.id AS post_id,
+  p.created_at,
+  l.count AS like_count,
+  c.count AS comment_count,
+  r.count AS reply_count,
+  b.count AS bookmark_count,
+  (l.count + 2 * c.count + 2 * r.count + 3 * b.count)::double precision
+    / power(extract(epoch FROM now() - p.created_at) / 3600 + 2, 1.5) AS score
+FROM posts p
+CROSS JOIN LATERAL (SELECT count(*) FROM likes WHERE likes.post_id = p.id) l
+CROSS JOIN LATERAL (SELECT count(*) FROM comments WHERE comments.post_id = p.id) c
+CROSS JOIN LATERAL (
+  SELECT count(*) FROM comment_replies cr
+  JOIN comments pc ON pc.id = cr.parent_id
+  WHERE pc.post_id = p.id
+) r
+CROSS JOIN LATERAL (SELECT count(*) FROM bookmarks WHERE bookmarks.post_id = p.id) b
+WHERE p.created_at > now() - interval '30 days';
+
+-- Required for REFRESH ... CONCURRENTLY
+CREATE UNIQUE INDEX IF NOT EXISTS idx_post_scores_post_id ON post_scores(post_id);
+CREATE INDEX IF NOT EXISTS idx_post_scores_score ON post_scores(score DESC, post_id DESC);
+
+-- Only aggregate counts are exposed, individual bookmarks stay private
+GRANT SELECT ON post_scores TO authenticated;
+
+CREATE OR REPLACE FUNCTION refresh_post_scores()
+RETURNS void AS $$
+BEGIN
+  REFRESH MATERIALIZED VIEW CONCURRENTLY post_scores;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION refresh_post_scores() FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION top_feed_page(
+  time_window text DEFAULT 'week',
+  cursor_score double precision DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  image_url text,
+  latitude double precision,
+  longitude double precision,
+  created_at timestamptz,
+  full_name text,
+  avatar_url text,
+  like_count integer,
+  comment_count integer,
+  liked_by_me boolean,
+  bookmarked_by_me boolean,
+  score double precision
+) AS $$
+  SELECT f.*, s.score
+  FROM post_scores s
+  JOIN post_feed f ON f.id = s.post_id
+  WHERE s.created_at > now() - CASE time_window
+    WHEN 'today' THEN interval '1 day'
+    WHEN 'month' THEN interval '30 days'
+    ELSE interval '7 days'
+  END
+  AND (
+    cursor_score IS NULL
+    OR (s.score, s.post_id) < (cursor_score, cursor_id)
+  )
+  ORDER BY s.score DESC, s.post_id DESC
+  LIMIT LEAST(page_size, 50);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION top_feed_page(text, double precision, uuid, integer) TO authenticated;
+
+SELECT cron.unschedule(jobid)
+FROM cron.job
+WHERE jobname = 'refresh-post-scores';
+
+SELECT cron.schedule(
+  'refresh-post-scores',
+  '*/10 * * * *',
+  'SELECT refresh_post_scores()'
+);
@@ -0,0 +1,208 @@
+/*
+  # Post media
+
+  1. New Tables
+    - `post_media`
+      - `id` (uuid, primary key)
+      - `post_id` (uuid, references posts)
+      - `user_id` (uuid, references profiles)
+      - `media_type` (text, image or video)
+      - `url` (text)
+      - `position` (integer, order in the carousel)
+      - `width`, `height` (integer, optional)
+      - `duration_ms` (integer, videos only)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - Existing `posts.image_url` values are copied into `post_media`;
+      `image_url` keeps the first image for older clients
+    - `post_feed` gets a `media` column with the post's media ordered by
+      position; `top_feed_page` is recreated to return it
+
+  3. Storage
+    - Public `post-media` bucket limited to 50 MB images and videos;
+      authenticated users upload into their own `<user_id>/` folder
+
+  4. Security
+    - Media is viewable by everyone; authors add and remove media of their
+      own posts
+*/
+
+CREATE TABLE IF NOT EXISTS post_media (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id uuid REFERENCES posts(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  media_type text NOT NULL CHECK (media_type IN ('image', 'video')),
+  url text NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  width integer,
+  height integer,
+  duration_ms integer,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE post_media ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_post_media_post_id ON post_media(post_id, position);
+
+DO $$ BEGIN
+  CREATE POLICY "Post media is viewable by everyone"
+    ON post_media
+    FOR SELECT
+    USING (true);
+
+  CREATE POLICY "Users can add media to own posts"
+    ON post_media
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+      auth.uid() = user_id
+      AND EXISTS (
+        SELECT 1 FROM posts p
+        WHERE p.id = post_id
+        AND p.user_id = auth.uid()
+      )
+    );
+
+  CREATE POLICY "Users can delete own post media"
+    ON post_media
+    FOR DELETE
+    TO authenticated
+    USING (auth.uid() = user_id);
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+INSERT INTO post_media (post_id, user_id, media_type, url, position)
+SELECT p.id, p.user_id, 'image', p.image_url, 0
+FROM posts p
+WHERE p.image_url IS NOT NULL
+AND p.user_id IS NOT NULL
+AND NOT EXISTS (
+  SELECT 1 FROM post_media m
+  WHERE m.post_id = p.id
+);
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'post-media',
+  'post-media',
+  true,
+  52428800,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'video/mp4', 'video/quicktime']
+)
+ON CONFLICT (id) DO NOTHING;
+
+DO $$ BEGIN
+  CREATE POLICY "Post media files are viewable by everyone"
+    ON storage.objects
+    FOR SELECT
+    USING (bucket_id = 'post-media');
+
+  CREATE POLICY "Users can upload post media"
+    ON storage.objects
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+      bucket_id = 'post-media'
+      AND (storage.foldername(name))[1] = auth.uid()::text
+    );
+
+  CREATE POLICY "Users can delete own post media files"
+    ON storage.objects
+    FOR DELETE
+    TO authenticated
+    USING (
+      bucket_id = 'post-media'
+      AND (storage.foldername(name))[1] = auth.uid()::text
+    );
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE OR REPLACE VIEW post_feed
+WITH (security_invoker = true)
+AS
+SELECT
+  p.id,
+  p.user_id,
+  p.content,
+  p.image_url,
+  p.latitude,
+  p.longitude,
+  p.created_at,
+  pr.full_name,
+  pr.avatar_url,
+  (SELECT count(*) FROM likes l WHERE l.post_id = p.id)::integer AS like_count,
+  (SELECT count(*) FROM comments c WHERE c.post_id = p.id)::integer AS comment_count,
+  EXISTS (
+    SELECT 1 FROM likes l
+    WHERE l.post_id = p.id
+    AND l.user_id = auth.uid()
+  ) AS liked_by_me,
+  EXISTS (
+    SELECT 1 FROM bookmarks b
+    WHERE b.post_id = p.id
+    AND b.user_id = auth.uid()
+  ) AS bookmarked_by_me,
+  COALESCE((
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'id', m.id,
+        'media_type', m.media_type,
+        'url', m.url,
+        'width', m.width,
+        'height', m.height,
+        'duration_ms', m.duration_ms
+      )
+      ORDER BY m.position
+    )
+    FROM post_media m
+    WHERE m.post_id = p.id
+  ), '[]'::jsonb) AS media
+FROM posts p
+LEFT JOIN profiles pr ON pr.id = p.user_id;
+
+-- The return type changes, so the function has to be dropped first
+DROP FUNCTION IF EXISTS top_feed_page(text, double precision, uuid, integer);
+
+CREATE FUNCTION top_feed_page(
+  time_window text DEFAULT 'week',
+  cursor_score double precision DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  image_url text,
+  latitude double precision,
+  longitude double precision,
+  created_at timestamptz,
+  full_name text,
+  avatar_url text,
+  like_count integer,
+  comment_count integer,
+  liked_by_me boolean,
+  bookmarked_by_me boolean,
+  media jsonb,
+  score double precision
+) AS $$
+  SELECT f.*, s.score
+  FROM post_scores s
+  JOIN post_feed f ON f.id = s.post_id
+  WHERE s.created_at > now() - CASE time_window
+    WHEN 'today' THEN interval '1 day'
+    WHEN 'month' THEN interval '30 days'
+    ELSE interval '7 days'
+  END
+  AND (
+    cursor_score IS NULL
+    OR (s.score, s.post_id) < (cursor_score, cursor_id)
+  )
+  ORDER BY s.score DESC, s.post_id DESC
+  LIMIT LEAST(page_size, 50);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION top_feed_page(text, double precision, uuid, integer) TO authenticated;
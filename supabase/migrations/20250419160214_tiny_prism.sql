@@ -0,0 +1,62 @@
+/*
+  # Image thumbnails
+
+  1. Changes
+    - `posts.thumbnail_url` and `post_media.thumbnail_url` store a small
+      variant of the uploaded image for grids and previews
+    - `profiles.avatar_thumbnail_url` stores a small variant of the avatar
+    - `post_feed.media` items include `thumbnail_url`
+*/
+
+ALTER TABLE posts
+ADD COLUMN IF NOT EXISTS thumbnail_url text;
+
+ALTER TABLE post_media
+ADD COLUMN IF NOT EXISTS thumbnail_url text;
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS avatar_thumbnail_url text;
+
+CREATE OR REPLACE VIEW post_feed
+WITH (security_invoker = true)
+AS
+SELECT
+  p.id,
+  p.user_id,
+  p.content,
+  p.image_url,
+  p.latitude,
+  p.longitude,
+  p.created_at,
+  pr.full_name,
+  pr.avatar_url,
+  (SELECT count(*) FROM likes l WHERE l.post_id = p.id)::integer AS like_count,
+  (SELECT count(*) FROM comments c WHERE c.post_id = p.id)::integer AS comment_count,
+  EXISTS (
+    SELECT 1 FROM likes l
+    WHERE l.post_id = p.id
+    AND l.user_id = auth.uid()
+  ) AS liked_by_me,
+  EXISTS (
+    SELECT 1 FROM bookmarks b
+    WHERE b.post_id = p.id
+    AND b.user_id = auth.uid()
+  ) AS bookmarked_by_me,
+  COALESCE((
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'id', m.id,
+        'media_type', m.media_type,
+        'url', m.url,
+        'thumbnail_url', m.thumbnail_url,
+        'width', m.width,
+        'height', m.height,
+        'duration_ms', m.duration_ms
+      )
+      ORDER BY m.position
+    )
+    FROM post_media m
+    WHERE m.post_id = p.id
+  ), '[]'::jsonb) AS media
+FROM posts p
+LEFT JOIN profiles pr ON pr.id = p.user_id;
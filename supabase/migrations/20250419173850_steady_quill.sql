@@ -0,0 +1,111 @@
+/*
+  # Edit and delete posts
+
+  1. Changes
+    - `post_feed` gets `updated_at` so clients can mark edited posts;
+      `top_feed_page` is recreated to return it
+
+  2. Security
+    - Authors can delete their own posts. Likes, comments, bookmarks and
+      media rows are removed by the existing ON DELETE CASCADE references;
+      the client removes the uploaded files from storage.
+*/
+
+DO $$ BEGIN
+  CREATE POLICY "Users can delete own posts"
+    ON posts
+    FOR DELETE
+    TO authenticated
+    USING (auth.uid() = user_id);
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE OR REPLACE VIEW post_feed
+WITH (security_invoker = true)
+AS
+SELECT
+  p.id,
+  p.user_id,
+  p.content,
+  p.image_url,
+  p.latitude,
+  p.longitude,
+  p.created_at,
+  pr.full_name,
+  pr.avatar_url,
+  (SELECT count(*) FROM likes l WHERE l.post_id = p.id)::integer AS like_count,
+  (SELECT count(*) FROM comments c WHERE c.post_id = p.id)::integer AS comment_count,
+  EXISTS (
+    SELECT 1 FROM likes l
+    WHERE l.post_id = p.id
+    AND l.user_id = auth.uid()
+  ) AS liked_by_me,
+  EXISTS (
+    SELECT 1 FROM bookmarks b
+    WHERE b.post_id = p.id
+    AND b.user_id = auth.uid()
+  ) AS bookmarked_by_me,
+  COALESCE((
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'id', m.id,
+        'media_type', m.media_type,
+        'url', m.url,
+        'thumbnail_url', m.thumbnail_url,
+        'width', m.width,
+        'height', m.height,
+        'duration_ms', m.duration_ms
+      )
+      ORDER BY m.position
+    )
+    FROM post_media m
+    WHERE m.post_id = p.id
+  ), '[]'::jsonb) AS media,
+  p.updated_at
+FROM posts p
+LEFT JOIN profiles pr ON pr.id = p.user_id;
+
+DROP FUNCTION IF EXISTS top_feed_page(text, double precision, uuid, integer);
+
+CREATE FUNCTION top_feed_page(
+  time_window text DEFAULT 'week',
+  cursor_score double precision DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  image_url text,
+  latitude double precision,
+  longitude double precision,
+  created_at timestamptz,
+  full_name text,
+  avatar_url text,
+  like_count integer,
+  comment_count integer,
+  liked_by_me boolean,
+  bookmarked_by_me boolean,
+  media jsonb,
+  updated_at timestamptz,
+  score double precision
+) AS $$
+  SELECT f.*, s.score
+  FROM post_scores s
+  JOIN post_feed f ON f.id = s.post_id
+  WHERE s.created_at > now() - CASE time_window
+    WHEN 'today' THEN interval '1 day'
+    WHEN 'month' THEN interval '30 days'
+    ELSE interval '7 days'
+  END
+  AND (
+    cursor_score IS NULL
+    OR (s.score, s.post_id) < (cursor_score, cursor_id)
+  )
+  ORDER BY s.score DESC, s.post_id DESC
+  LIMIT LEAST(page_size, 50);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION top_feed_page(text, double precision, uuid, integer) TO authenticated;
@@ -0,0 +1,164 @@
+/*
+  # Hashtags and mentions
+
+  1. Changes
+    - `posts.hashtags` is generated from `content` (lowercased, without `#`)
+      and indexed for the hashtag screen
+    - `profiles.username` is unique regardless of case and limited to latin
+      letters, digits and `_` (3-30 characters). Existing duplicates keep
+      the username on the oldest profile only; the format check applies to
+      new values.
+
+  2. New Functions
+    - `extract_hashtags(content)` and `extract_mentions(content)` parse text
+      the same way the app does
+    - `hashtag_feed_page(tag, cursor_created_at, cursor_id, page_size)` pages
+      through posts with a tag, newest first
+
+  3. Notifications
+    - `@username` in a post, comment or reply sends a `mention` notification
+      to that user. Editing only notifies users who weren't mentioned before.
+*/
+
+CREATE OR REPLACE FUNCTION extract_hashtags(content text)
+RETURNS text[] AS $$
+  SELECT COALESCE(array_agg(DISTINCT lower(m[2])), '{}')
+  FROM regexp_matches(
+    COALESCE(content, ''),
+    '(^|[^0-9A-Za-zА-Яа-яЁё_])#([0-9A-Za-zА-Яа-яЁё_]{1,50})',
+    'g'
+  ) AS m;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION extract_mentions(content text)
+RETURNS text[] AS $$
+  SELECT COALESCE(array_agg(DISTINCT lower(m[2])), '{}')
+  FROM regexp_matches(
+    COALESCE(content, ''),
+    '(^|[^0-9A-Za-z_@.])@([A-Za-z0-9_]{3,30})',
+    'g'
+  ) AS m;
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE posts
+ADD COLUMN IF NOT EXISTS hashtags text[] GENERATED ALWAYS AS (extract_hashtags(content)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_posts_hashtags ON posts USING gin (hashtags);
+
+-- late_cloud added this column, but pale_thunder recreated profiles without it
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS username text;
+
+UPDATE profiles p
+SET username = NULL
+WHERE p.username IS NOT NULL
+AND EXISTS (
+  SELECT 1 FROM profiles o
+  WHERE lower(o.username) = lower(p.username)
+  AND (o.created_at, o.id) < (p.created_at, p.id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_profiles_username_lower
+  ON profiles (lower(username))
+  WHERE username IS NOT NULL;
+
+DO $$ BEGIN
+  ALTER TABLE profiles
+  ADD CONSTRAINT profiles_username_format
+  CHECK (username ~ '^[A-Za-z0-9_]{3,30}$') NOT VALID;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE OR REPLACE FUNCTION hashtag_feed_page(
+  tag text,
+  cursor_created_at timestamptz DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 20
+)
+RETURNS SETOF post_feed
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT f.*
+  FROM post_feed f
+  JOIN posts p ON p.id = f.id
+  WHERE p.hashtags @> ARRAY[lower(tag)]
+  AND (
+    cursor_created_at IS NULL
+    OR (f.created_at, f.id) < (cursor_created_at, cursor_id)
+  )
+  ORDER BY f.created_at DESC, f.id DESC
+  LIMIT LEAST(page_size, 50);
+$$;
+
+GRANT EXECUTE ON FUNCTION hashtag_feed_page(text, timestamptz, uuid, integer) TO authenticated;
+
+CREATE OR REPLACE FUNCTION create_mention_notifications()
+RETURNS TRIGGER AS $$
+DECLARE
+  mentioned text[];
+  target_post_id uuid;
+BEGIN
+  mentioned := extract_mentions(NEW.content);
+
+  IF TG_OP = 'UPDATE' THEN
+    mentioned := ARRAY(
+      SELECT unnest(mentioned)
+      EXCEPT
+      SELECT unnest(extract_mentions(OLD.content))
+    );
+  END IF;
+
+  IF cardinality(mentioned) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'posts' THEN
+    target_post_id := NEW.id;
+  ELSIF TG_TABLE_NAME = 'comments' THEN
+    target_post_id := NEW.post_id;
+  ELSE
+    SELECT c.post_id INTO target_post_id
+    FROM comments c
+    WHERE c.id = NEW.parent_id;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, data)
+  SELECT
+    pr.id,
+    'mention',
+    jsonb_build_object(
+      'post_id', target_post_id,
+      'author_id', NEW.user_id,
+      'author_name', author.full_name,
+      'source', TG_TABLE_NAME,
+      'source_id', NEW.id
+    )
+  FROM profiles pr
+  LEFT JOIN profiles author ON author.id = NEW.user_id
+  WHERE lower(pr.username) = ANY (mentioned)
+  AND pr.id != NEW.user_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS create_post_mention_notifications ON posts;
+DROP TRIGGER IF EXISTS create_comment_mention_notifications ON comments;
+DROP TRIGGER IF EXISTS create_reply_mention_notifications ON comment_replies;
+
+CREATE TRIGGER create_post_mention_notifications
+  AFTER INSERT OR UPDATE OF content ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION create_mention_notifications();
+
+CREATE TRIGGER create_comment_mention_notifications
+  AFTER INSERT OR UPDATE OF content ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION create_mention_notifications();
+
+CREATE TRIGGER create_reply_mention_notifications
+  AFTER INSERT OR UPDATE OF content ON comment_replies
+  FOR EACH ROW
+  EXECUTE FUNCTION create_mention_notifications();
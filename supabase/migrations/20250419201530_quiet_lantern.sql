@@ -0,0 +1,136 @@
+/*
+  # Full-text search
+
+  1. Changes
+    - Add generated `search_vector` columns with GIN indexes to `posts`,
+      `profiles` and `map_locations`. Text is indexed with both the Russian and
+      English configurations; names and usernames use `simple` so they are
+      matched as written
+    - `search_tsquery(query)` turns free-form input into a prefix query so
+      results show up while the user is still typing
+    - `search_posts`, `search_profiles` and `search_spots` return the best
+      matches for a query ordered by rank
+*/
+
+ALTER TABLE posts
+ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+  to_tsvector('russian', coalesce(content, '')) ||
+  to_tsvector('english', coalesce(content, ''))
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_posts_search_vector
+  ON posts USING gin (search_vector);
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(full_name, '') || ' ' || coalesce(username, '')), 'A') ||
+  setweight(to_tsvector('russian', coalesce(city, '')), 'B') ||
+  setweight(to_tsvector('russian', coalesce(bio, '')), 'C') ||
+  setweight(to_tsvector('english', coalesce(bio, '')), 'C')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_profiles_search_vector
+  ON profiles USING gin (search_vector);
+
+ALTER TABLE map_locations
+ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('russian', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('russian', coalesce(description, '')), 'B') ||
+  setweight(to_tsvector('english', coalesce(description, '')), 'B')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_map_locations_search_vector
+  ON map_locations USING gin (search_vector);
+
+-- Every word must match, the last ones as a prefix. NULL for input without words
+CREATE OR REPLACE FUNCTION search_tsquery(query text)
+RETURNS tsquery AS $$
+  SELECT
+    to_tsquery('russian', terms) ||
+    to_tsquery('english', terms) ||
+    to_tsquery('simple', terms)
+  FROM (
+    SELECT string_agg(quote_literal(word) || ':*', ' & ') AS terms
+    FROM regexp_split_to_table(lower(query), '[^0-9a-zа-яё_]+') AS word
+    WHERE word <> ''
+  ) t;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION search_posts(
+  query text,
+  result_limit integer DEFAULT 20
+)
+RETURNS SETOF post_feed AS $$
+  SELECT f.*
+  FROM post_feed f
+  JOIN posts p ON p.id = f.id
+  CROSS JOIN search_tsquery(query) q
+  WHERE p.search_vector @@ q
+  ORDER BY ts_rank(p.search_vector, q) DESC, f.created_at DESC
+  LIMIT result_limit;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION search_profiles(
+  query text,
+  result_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  full_name text,
+  username text,
+  avatar_url text,
+  city text,
+  bio text
+) AS $$
+  SELECT p.id, p.full_name, p.username, p.avatar_url, p.city, p.bio
+  FROM profiles p
+  CROSS JOIN search_tsquery(query) q
+  WHERE p.search_vector @@ q
+  ORDER BY ts_rank(p.search_vector, q) DESC, p.full_name
+  LIMIT result_limit;
+$$ LANGUAGE sql STABLE;
+
+-- Same shape as nearby_spots, without a distance since there is no center
+CREATE OR REPLACE FUNCTION search_spots(
+  query text,
+  result_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  title text,
+  description text,
+  image_url text,
+  category text,
+  latitude double precision,
+  longitude double precision,
+  created_at timestamptz,
+  distance_km double precision,
+  full_name text,
+  avatar_url text
+) AS $$
+  SELECT
+    l.id,
+    l.user_id,
+    l.title,
+    l.description,
+    l.image_url,
+    l.category,
+    l.latitude,
+    l.longitude,
+    l.created_at,
+    NULL::double precision,
+    p.full_name,
+    p.avatar_url
+  FROM map_locations l
+  LEFT JOIN profiles p ON p.id = l.user_id
+  CROSS JOIN search_tsquery(query) q
+  WHERE l.search_vector @@ q
+  ORDER BY ts_rank(l.search_vector, q) DESC, l.created_at DESC
+  LIMIT result_limit;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_posts(text, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_profiles(text, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_spots(text, integer) TO authenticated;
@@ -0,0 +1,60 @@
+/*
+  # Telegram sign-in
+
+  1. Changes
+    - Re-add `telegram_id` and `auth_provider` to `profiles`. `late_cloud`
+      added them, but `pale_thunder` recreated the table without them.
+    - `auth_provider` records how the account was created and now defaults to
+      `email`; the Telegram sign-in function sets `telegram`
+    - Drop the `late_cloud` policy that compared the profile id to a
+      `telegram_`-prefixed string, which never matches a uuid
+
+  2. Security
+    - Only the server (the `telegram-auth` Edge Function, using the service
+      role) may set `telegram_id` or `auth_provider`, so nobody can claim
+      another person's Telegram account by editing their own profile
+*/
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS telegram_id bigint,
+ADD COLUMN IF NOT EXISTS auth_provider text;
+
+ALTER TABLE profiles
+ALTER COLUMN auth_provider SET DEFAULT 'email';
+
+UPDATE profiles
+SET auth_provider = 'email'
+WHERE telegram_id IS NULL
+AND (auth_provider IS NULL OR auth_provider = 'telegram');
+
+DO $$ BEGIN
+  ALTER TABLE profiles
+  ADD CONSTRAINT unique_telegram_id UNIQUE (telegram_id);
+EXCEPTION
+  WHEN duplicate_object OR duplicate_table THEN null;
+END $$;
+
+DROP POLICY IF EXISTS "Users can read own profile" ON profiles;
+
+CREATE OR REPLACE FUNCTION protect_profile_auth_columns()
+RETURNS trigger AS $$
+BEGIN
+  IF auth.role() = 'authenticated' AND (
+    (TG_OP = 'INSERT' AND (NEW.telegram_id IS NOT NULL OR NEW.auth_provider IS DISTINCT FROM 'email'))
+    OR (TG_OP = 'UPDATE' AND (
+      NEW.telegram_id IS DISTINCT FROM OLD.telegram_id
+      OR NEW.auth_provider IS DISTINCT FROM OLD.auth_provider
+    ))
+  ) THEN
+    RAISE EXCEPTION 'telegram_id and auth_provider can only be changed by the server';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_profile_auth_columns ON profiles;
+CREATE TRIGGER protect_profile_auth_columns
+  BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_profile_auth_columns();
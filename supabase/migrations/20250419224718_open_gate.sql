@@ -0,0 +1,49 @@
+/*
+  # OAuth profiles
+
+  1. New Functions
+    - `ensure_profile()` creates the signed-in user's profile from their auth
+      record if it doesn't exist yet, taking the name and avatar from the
+      OAuth provider. For an existing profile it only fills an empty name or
+      avatar.
+
+  2. Security
+    - `protect_profile_auth_columns()` now checks the database role instead
+      of the JWT role, so `ensure_profile()` (running as its owner) can record
+      the provider while direct client writes still can't
+*/
+
+CREATE OR REPLACE FUNCTION protect_profile_auth_columns()
+RETURNS trigger AS $$
+BEGIN
+  IF current_user = 'authenticated' AND (
+    (TG_OP = 'INSERT' AND (NEW.telegram_id IS NOT NULL OR NEW.auth_provider IS DISTINCT FROM 'email'))
+    OR (TG_OP = 'UPDATE' AND (
+      NEW.telegram_id IS DISTINCT FROM OLD.telegram_id
+      OR NEW.auth_provider IS DISTINCT FROM OLD.auth_provider
+    ))
+  ) THEN
+    RAISE EXCEPTION 'telegram_id and auth_provider can only be changed by the server';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION ensure_profile()
+RETURNS void AS $$
+  INSERT INTO profiles (id, email, full_name, avatar_url, auth_provider)
+  SELECT
+    u.id,
+    u.email,
+    COALESCE(u.raw_user_meta_data ->> 'full_name', u.raw_user_meta_data ->> 'name'),
+    COALESCE(u.raw_user_meta_data ->> 'avatar_url', u.raw_user_meta_data ->> 'picture'),
+    COALESCE(u.raw_app_meta_data ->> 'provider', 'email')
+  FROM auth.users u
+  WHERE u.id = auth.uid()
+  ON CONFLICT (id) DO UPDATE SET
+    full_name = COALESCE(profiles.full_name, EXCLUDED.full_name),
+    avatar_url = COALESCE(profiles.avatar_url, EXCLUDED.avatar_url);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION ensure_profile() TO authenticated;
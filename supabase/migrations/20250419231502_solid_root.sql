@@ -0,0 +1,55 @@
+/*
+  # Create profiles in the database
+
+  1. Changes
+    - `handle_new_user()` creates the profile for every new auth user,
+      whatever the provider, taking the name and avatar from the provider's
+      metadata. The app no longer inserts profiles itself.
+    - Backfill profiles for existing users that don't have one
+
+  2. Notes
+    - Profile creation never blocks sign-up. If it fails, the app repairs the
+      profile on the next sign-in through `ensure_profile()`.
+    - `telegram_id` is not taken from user metadata, which the user controls;
+      the `telegram-auth` Edge Function sets it
+*/
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO profiles (id, email, full_name, avatar_url, auth_provider)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data ->> 'full_name', NEW.raw_user_meta_data ->> 'name'),
+    COALESCE(NEW.raw_user_meta_data ->> 'avatar_url', NEW.raw_user_meta_data ->> 'picture'),
+    COALESCE(NEW.raw_app_meta_data ->> 'provider', 'email')
+  )
+  ON CONFLICT (id) DO NOTHING;
+
+  RETURN NEW;
+EXCEPTION
+  WHEN others THEN
+    RAISE WARNING 'Could not create profile for user %: %', NEW.id, SQLERRM;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_new_user();
+
+INSERT INTO profiles (id, email, full_name, avatar_url, auth_provider)
+SELECT
+  u.id,
+  u.email,
+  COALESCE(u.raw_user_meta_data ->> 'full_name', u.raw_user_meta_data ->> 'name'),
+  COALESCE(u.raw_user_meta_data ->> 'avatar_url', u.raw_user_meta_data ->> 'picture'),
+  COALESCE(u.raw_app_meta_data ->> 'provider', 'email')
+FROM auth.users u
+WHERE NOT EXISTS (
+  SELECT 1 FROM profiles p WHERE p.id = u.id
+)
+ON CONFLICT (id) DO NOTHING;
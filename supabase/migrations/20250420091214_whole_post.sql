@@ -0,0 +1,63 @@
+/*
+  # Create a post and its media together
+
+  1. New Functions
+    - `create_post_with_media(post_content, post_latitude, post_longitude, media_items)`
+      inserts the post and its `post_media` rows in one transaction and
+      returns the post. `media_items` is a JSON array of uploaded media in
+      carousel order; the first image is also kept in `posts.image_url`.
+
+  2. Notes
+    - If any media row is rejected the post is rolled back too, so a failed
+      publish never leaves a post without its photos and a retry doesn't
+      create a second one
+    - Runs with the caller's rights, so the existing insert policies on
+      `posts` and `post_media` still apply
+*/
+
+CREATE OR REPLACE FUNCTION create_post_with_media(
+  post_content text,
+  post_latitude double precision DEFAULT NULL,
+  post_longitude double precision DEFAULT NULL,
+  media_items jsonb DEFAULT '[]'::jsonb
+)
+RETURNS posts AS $$
+DECLARE
+  first_image jsonb;
+  created posts;
+BEGIN
+  SELECT m.item INTO first_image
+  FROM jsonb_array_elements(media_items) WITH ORDINALITY AS m(item, position)
+  WHERE m.item ->> 'media_type' = 'image'
+  ORDER BY m.position
+  LIMIT 1;
+
+  INSERT INTO posts (user_id, content, image_url, thumbnail_url, latitude, longitude)
+  VALUES (
+    auth.uid(),
+    post_content,
+    first_image ->> 'url',
+    first_image ->> 'thumbnail_url',
+    post_latitude,
+    post_longitude
+  )
+  RETURNING * INTO created;
+
+  INSERT INTO post_media (post_id, user_id, media_type, url, thumbnail_url, position, width, height, duration_ms)
+  SELECT
+    created.id,
+    auth.uid(),
+    m.item ->> 'media_type',
+    m.item ->> 'url',
+    m.item ->> 'thumbnail_url',
+    (m.position - 1)::integer,
+    (m.item ->> 'width')::numeric::integer,
+    (m.item ->> 'height')::numeric::integer,
+    (m.item ->> 'duration_ms')::numeric::integer
+  FROM jsonb_array_elements(media_items) WITH ORDINALITY AS m(item, position);
+
+  RETURN created;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION create_post_with_media(text, double precision, double precision, jsonb) TO authenticated;
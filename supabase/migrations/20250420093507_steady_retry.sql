@@ -0,0 +1,78 @@
+/*
+  # Idempotent post creation
+
+  1. Changes
+    - `create_post_with_media()` takes the post id from the client. Calling it
+      again with the same id returns the post created by the earlier call
+      instead of inserting a duplicate, so the app can safely retry a publish
+      whose response was lost.
+
+  2. Notes
+    - The function's signature changes, so the old one is dropped first
+*/
+
+DROP FUNCTION IF EXISTS create_post_with_media(text, double precision, double precision, jsonb);
+
+CREATE FUNCTION create_post_with_media(
+  new_post_id uuid,
+  post_content text,
+  post_latitude double precision DEFAULT NULL,
+  post_longitude double precision DEFAULT NULL,
+  media_items jsonb DEFAULT '[]'::jsonb
+)
+RETURNS posts AS $$
+DECLARE
+  first_image jsonb;
+  created posts;
+BEGIN
+  SELECT m.item INTO first_image
+  FROM jsonb_array_elements(media_items) WITH ORDINALITY AS m(item, position)
+  WHERE m.item ->> 'media_type' = 'image'
+  ORDER BY m.position
+  LIMIT 1;
+
+  INSERT INTO posts (id, user_id, content, image_url, thumbnail_url, latitude, longitude)
+  VALUES (
+    new_post_id,
+    auth.uid(),
+    post_content,
+    first_image ->> 'url',
+    first_image ->> 'thumbnail_url',
+    post_latitude,
+    post_longitude
+  )
+  ON CONFLICT (id) DO NOTHING
+  RETURNING * INTO created;
+
+  -- Already published by an earlier call; its media went in with it
+  IF NOT FOUND THEN
+    SELECT * INTO created
+    FROM posts p
+    WHERE p.id = new_post_id
+    AND p.user_id = auth.uid();
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Post % belongs to another user', new_post_id;
+    END IF;
+
+    RETURN created;
+  END IF;
+
+  INSERT INTO post_media (post_id, user_id, media_type, url, thumbnail_url, position, width, height, duration_ms)
+  SELECT
+    created.id,
+    auth.uid(),
+    m.item ->> 'media_type',
+    m.item ->> 'url',
+    m.item ->> 'thumbnail_url',
+    (m.position - 1)::integer,
+    (m.item ->> 'width')::numeric::integer,
+    (m.item ->> 'height')::numeric::integer,
+    (m.item ->> 'duration_ms')::numeric::integer
+  FROM jsonb_array_elements(media_items) WITH ORDINALITY AS m(item, position);
+
+  RETURN created;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION create_post_with_media(uuid, text, double precision, double precision, jsonb) TO authenticated;
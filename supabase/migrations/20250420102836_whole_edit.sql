@@ -0,0 +1,82 @@
+/*
+  # Update a post and its media together
+
+  1. New Functions
+    - `update_post_with_media(target_post_id, post_content, post_latitude, post_longitude, removed_ids, media_items)`
+      removes the given media, appends `media_items` after the media the post
+      keeps and updates the post's content, location and first image, all in
+      one transaction. Returns the updated post.
+
+  2. Security
+    - Only the post's author can update it; the function runs with the
+      caller's rights, so the existing policies on `posts` and `post_media`
+      still apply
+*/
+
+CREATE OR REPLACE FUNCTION update_post_with_media(
+  target_post_id uuid,
+  post_content text,
+  post_latitude double precision DEFAULT NULL,
+  post_longitude double precision DEFAULT NULL,
+  removed_ids uuid[] DEFAULT '{}',
+  media_items jsonb DEFAULT '[]'::jsonb
+)
+RETURNS posts AS $$
+DECLARE
+  next_position integer;
+  first_image post_media;
+  updated posts;
+BEGIN
+  PERFORM 1
+  FROM posts p
+  WHERE p.id = target_post_id
+  AND p.user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Post % not found', target_post_id;
+  END IF;
+
+  DELETE FROM post_media m
+  WHERE m.post_id = target_post_id
+  AND m.id = ANY(removed_ids);
+
+  SELECT COALESCE(max(m.position) + 1, 0) INTO next_position
+  FROM post_media m
+  WHERE m.post_id = target_post_id;
+
+  INSERT INTO post_media (post_id, user_id, media_type, url, thumbnail_url, position, width, height, duration_ms)
+  SELECT
+    target_post_id,
+    auth.uid(),
+    n.item ->> 'media_type',
+    n.item ->> 'url',
+    n.item ->> 'thumbnail_url',
+    next_position + (n.position - 1)::integer,
+    (n.item ->> 'width')::numeric::integer,
+    (n.item ->> 'height')::numeric::integer,
+    (n.item ->> 'duration_ms')::numeric::integer
+  FROM jsonb_array_elements(media_items) WITH ORDINALITY AS n(item, position);
+
+  SELECT * INTO first_image
+  FROM post_media m
+  WHERE m.post_id = target_post_id
+  AND m.media_type = 'image'
+  ORDER BY m.position
+  LIMIT 1;
+
+  UPDATE posts
+  SET
+    content = post_content,
+    image_url = first_image.url,
+    thumbnail_url = first_image.thumbnail_url,
+    latitude = post_latitude,
+    longitude = post_longitude
+  WHERE id = target_post_id
+  RETURNING * INTO updated;
+
+  RETURN updated;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION update_post_with_media(uuid, text, double precision, double precision, uuid[], jsonb) TO authenticated;